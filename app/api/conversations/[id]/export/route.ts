@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationStore } from '@/lib/conversations';
+import { EXPORT_FORMATS, exportConversation, type ExportFormat } from '@/lib/conversations/export';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/conversations/[id]/export?format=markdown|json|pdf - Download with resolved references
+ */
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+
+  const format = (req.nextUrl.searchParams.get('format') || 'markdown') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    const conversation = await getConversationStore().get(sessionId, params.id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const file = await exportConversation(conversation, format);
+
+    logger.info('CONVERSATION_EXPORT', `Exported conversation ${params.id} as ${format}`, {
+      conversationId: params.id,
+      format,
+      messages: conversation.messages.length
+    });
+
+    return new Response(file.body as BodyInit, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    logger.error('CONVERSATION_EXPORT_ERROR', `Failed to export conversation ${params.id}`, error);
+    return NextResponse.json({ error: 'Failed to export conversation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationStore } from '@/lib/conversations';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * GET /api/conversations/[id] - Conversation with its messages, for resuming
+ */
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+
+  try {
+    const conversation = await getConversationStore().get(sessionId, params.id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const { sessionId: _, ...rest } = conversation;
+    return NextResponse.json(rest);
+  } catch (error) {
+    logger.error('CONVERSATION_LOAD_ERROR', `Failed to load conversation ${params.id}`, error);
+    return NextResponse.json({ error: 'Failed to load conversation' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/conversations/[id] - Rename ({ title })
+ */
+export async function PATCH(req: NextRequest, { params }: { params: { id: string } }) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const title = typeof body.title === 'string' ? body.title.trim() : '';
+  if (!title || title.length > MAX_TITLE_LENGTH) {
+    return NextResponse.json({ error: `title must be 1-${MAX_TITLE_LENGTH} characters` }, { status: 400 });
+  }
+
+  try {
+    const conversation = await getConversationStore().rename(sessionId, params.id, title);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const { sessionId: _, ...rest } = conversation;
+    return NextResponse.json(rest);
+  } catch (error) {
+    logger.error('CONVERSATION_RENAME_ERROR', `Failed to rename conversation ${params.id}`, error);
+    return NextResponse.json({ error: 'Failed to rename conversation' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/conversations/[id] - Delete a conversation and its messages
+ */
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await getConversationStore().delete(sessionId, params.id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    logger.info('CONVERSATION_DELETED', `Deleted conversation ${params.id}`, {
+      conversationId: params.id
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('CONVERSATION_DELETE_ERROR', `Failed to delete conversation ${params.id}`, error);
+    return NextResponse.json({ error: 'Failed to delete conversation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CONVERSATION_ID_PATTERN, getConversationStore } from '@/lib/conversations';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/conversations - Conversations of the session, most recent first
+ */
+export async function GET(req: NextRequest) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+
+  try {
+    const conversations = await getConversationStore().list(sessionId);
+    return NextResponse.json({
+      conversations: conversations.map(({ sessionId: _, ...conversation }) => conversation),
+    });
+  } catch (error) {
+    logger.error('CONVERSATION_LIST_ERROR', 'Failed to list conversations', error);
+    return NextResponse.json({ error: 'Failed to load conversations' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/conversations - Create an empty conversation ({ id?, title? })
+ */
+export async function POST(req: NextRequest) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const id = typeof body.id === 'string' ? body.id : undefined;
+  const title = typeof body.title === 'string' ? body.title.trim() : undefined;
+
+  if (id !== undefined && !CONVERSATION_ID_PATTERN.test(id)) {
+    return NextResponse.json({ error: 'Invalid conversation id' }, { status: 400 });
+  }
+
+  const store = getConversationStore();
+  if (id && await store.get(sessionId, id)) {
+    return NextResponse.json({ error: 'Conversation already exists' }, { status: 409 });
+  }
+
+  try {
+    const { sessionId: _, ...conversation } = await store.create(sessionId, { id, title });
+
+    logger.info('CONVERSATION_CREATED', `Created conversation ${conversation.id}`, {
+      conversationId: conversation.id
+    });
+
+    return NextResponse.json(conversation, { status: 201 });
+  } catch (error) {
+    logger.error('CONVERSATION_CREATE_ERROR', 'Failed to create conversation', error);
+    return NextResponse.json({ error: 'Failed to create conversation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getTopicGuardStats } from '@/lib/guards/topic-guard';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/guards/topic - Topic guard counters since the server started
+ * (checked, off-topic, blocked, cache hits, errors and the resulting rates)
+ */
+export async function GET() {
+  return NextResponse.json(getTopicGuardStats());
+}
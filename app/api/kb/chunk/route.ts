@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChunkContext, MAX_CHUNK_CONTEXT_RADIUS } from '@/lib/kb/chunk-context';
+import { handleKBError } from '@/lib/kb/error-handler';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/kb/chunk?id=<chunkId>&radius=1 - A chunk with its neighbouring chunks,
+ * page numbers, character offsets and validation reasoning
+ */
+export async function GET(req: NextRequest) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+
+  const params = req.nextUrl.searchParams;
+  const id = params.get('id');
+  if (!id) {
+    return NextResponse.json({ error: 'id is required' }, { status: 400 });
+  }
+
+  const radius = params.has('radius') ? parseInt(params.get('radius')!, 10) : 1;
+  if (!Number.isFinite(radius) || radius < 0 || radius > MAX_CHUNK_CONTEXT_RADIUS) {
+    return NextResponse.json({ error: `radius must be between 0 and ${MAX_CHUNK_CONTEXT_RADIUS}` }, { status: 400 });
+  }
+
+  try {
+    const context = await getChunkContext(id, sessionId, radius);
+    if (!context) {
+      return NextResponse.json({ error: 'Chunk not found' }, { status: 404 });
+    }
+    return NextResponse.json(context);
+  } catch (error) {
+    const handled = handleKBError(error, { operation: 'chunk_context', details: { chunkId: id } });
+    return NextResponse.json({ error: handled.message }, { status: 500 });
+  }
+}
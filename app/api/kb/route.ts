@@ -1,11 +1,20 @@
 import { NextResponse } from 'next/server';
 import { deleteDocument } from '@/lib/kb/vector-db';
+import { listDocumentVersions, rollbackDocument } from '@/lib/kb/document-versions';
+import { parseDocumentQuery, queryDocuments } from '@/lib/kb/document-query';
+import { handleKBError, KBError } from '@/lib/kb/error-handler';
 import { logger } from '@/lib/logger';
 
 export const runtime = 'nodejs';
 
 /**
- * GET /api/kb - List all documents in knowledge base (filtered by session)
+ * GET /api/kb - List documents in knowledge base (filtered by session)
+ *   ?limit=&cursor=            page size (default 50) and nextCursor from the previous page
+ *   ?sort=&order=              uploadDate | filename | avgValidation | chunks, asc | desc
+ *   ?fileType=pdf,docx         filter by file type
+ *   ?from=&to=                 filter by upload date (ISO, inclusive)
+ *   ?minValidation=&maxValidation=  filter by average validation score (0-1)
+ * GET /api/kb?versions=<filename> - List stored versions of one document
  */
 export async function GET(req: Request) {
   try {
@@ -15,22 +24,46 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
     }
     
-    logger.info('KB_LIST', 'Listing knowledge base documents');
+    const { searchParams } = new URL(req.url);
+    const versionsOf = searchParams.get('versions');
+    if (versionsOf) {
+      logger.info('KB_LIST_VERSIONS', `Listing versions of ${versionsOf}`);
+      const versions = await listDocumentVersions(versionsOf, sessionId);
+      return NextResponse.json({ filename: versionsOf, versions });
+    }
+    
+    const query = parseDocumentQuery(searchParams);
+    if ('error' in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+    
+    logger.info('KB_LIST', 'Listing knowledge base documents', {
+      limit: query.limit,
+      sort: query.sort,
+      order: query.order,
+      paged: !!query.cursor
+    });
     
     const { listDocuments } = await import('@/lib/kb/vector-db');
-    const docs = await listDocuments(sessionId);
+    const page = queryDocuments(await listDocuments(sessionId), query);
     
     // Transform to match frontend interface
-    const documents = docs.map(doc => ({
+    const documents = page.documents.map(doc => ({
       id: doc.filename, // Use filename as unique ID
+      documentId: doc.documentId,
+      version: doc.version,
       filename: doc.filename,
+      fileType: doc.fileType,
       uploadDate: doc.uploadDate,
       chunks: doc.chunkCount,
-      avgValidation: doc.avgValidationScore
+      avgValidation: doc.avgValidationScore,
+      ...(doc.sourceUrl ? { sourceUrl: doc.sourceUrl } : {})
     }));
     
     return NextResponse.json({
-      documents
+      documents,
+      nextCursor: page.nextCursor,
+      total: page.total
     });
   } catch (error) {
     logger.error('KB_LIST_ERROR', 'Failed to list documents', error);
@@ -76,3 +109,46 @@ export async function DELETE(req: Request) {
     }, { status: 500 });
   }
 }
+
+/**
+ * PATCH /api/kb - Roll a document back to a stored version (filtered by session)
+ */
+export async function PATCH(req: Request) {
+  let filename: string | undefined;
+  try {
+    // Get sessionId from header
+    const sessionId = req.headers.get('x-session-id');
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+    }
+    
+    const body = await req.json();
+    filename = body.filename;
+    const version = body.version;
+    
+    if (!filename || typeof version !== 'number') {
+      return NextResponse.json({ 
+        error: 'Filename and version are required' 
+      }, { status: 400 });
+    }
+    
+    logger.info('KB_ROLLBACK', `Rolling back ${filename} to version ${version}`);
+    
+    const restored = await rollbackDocument(filename, sessionId, version);
+    
+    return NextResponse.json({ 
+      success: true,
+      filename,
+      version: restored
+    });
+  } catch (error) {
+    if (error instanceof KBError && !error.recoverable) {
+      const handled = handleKBError(error, { operation: 'rollback', filename });
+      return NextResponse.json({ error: handled.message }, { status: 404 });
+    }
+    logger.error('KB_ROLLBACK_ERROR', 'Failed to roll back document', error);
+    return NextResponse.json({ 
+      error: 'Failed to roll back document' 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enqueueIngestion } from '@/lib/kb/ingestion-jobs';
+import { fetchUrlDocument } from '@/lib/kb/url-fetcher';
+import { parseChunkingSettings } from '@/lib/kb/chunking';
+import { handleKBError, ErrorCode } from '@/lib/kb/error-handler';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+/**
+ * POST /api/kb/url - Fetch a web page (or a linked PDF / EPUB / ...) and queue
+ * it for ingestion like an upload. Body: { url } plus the upload's optional
+ * chunkingStrategy / chunkMaxTokens / chunkOverlap. The page is fetched before
+ * responding, so unreachable or unsupported URLs fail here; poll
+ * GET /api/upload/[jobId] for the rest.
+ */
+export async function POST(req: NextRequest) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const url = typeof body?.url === 'string' ? body.url.trim() : '';
+  if (!url) {
+    return NextResponse.json({ error: 'URL required' }, { status: 400 });
+  }
+
+  try {
+    logger.info('URL_INGEST_START', `Adding ${url}`, { url });
+
+    const chunking = parseChunkingSettings({
+      strategy: body.chunkingStrategy,
+      maxTokens: body.chunkMaxTokens,
+      overlap: body.chunkOverlap,
+    });
+    const document = await fetchUrlDocument(url);
+    const job = enqueueIngestion({
+      buffer: document.buffer,
+      filename: document.filename,
+      fileType: document.fileType,
+      sessionId,
+      sourceUrl: document.sourceUrl,
+      chunking,
+    });
+
+    return NextResponse.json({
+      success: true,
+      jobId: job.id,
+      filename: document.filename,
+      sourceUrl: document.sourceUrl,
+      status: job.status
+    }, { status: 202 });
+  } catch (error) {
+    const handled = handleKBError(error, { operation: 'url_fetch', filename: url });
+    const status = handled.code === ErrorCode.URL_FETCH_FAILED
+      ? 502
+      : [ErrorCode.INVALID_URL, ErrorCode.INVALID_CHUNKING_SETTINGS, ErrorCode.UNSUPPORTED_FORMAT, ErrorCode.FILE_TOO_LARGE].includes(handled.code as ErrorCode)
+      ? 400
+      : 500;
+    return NextResponse.json({ error: status === 500 ? 'Adding the URL failed. Please try again.' : handled.message }, { status });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStatementStore } from '@/lib/statements';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/statements/[id] - Statement with its transactions
+ */
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+
+  try {
+    const store = getStatementStore();
+    const statement = await store.get(sessionId, params.id);
+    if (!statement) {
+      return NextResponse.json({ error: 'Statement not found' }, { status: 404 });
+    }
+
+    const transactions = await store.query(sessionId, { statementId: statement.id });
+
+    const { sessionId: _, ...rest } = statement;
+    return NextResponse.json({ ...rest, transactions });
+  } catch (error) {
+    logger.error('STATEMENT_LOAD_ERROR', `Failed to load statement ${params.id}`, error);
+    return NextResponse.json({ error: 'Failed to load statement' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/statements/[id] - Delete a statement and its transactions
+ */
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await getStatementStore().delete(sessionId, params.id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Statement not found' }, { status: 404 });
+    }
+
+    logger.info('STATEMENT_DELETED', `Deleted statement ${params.id}`, {
+      statementId: params.id
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('STATEMENT_DELETE_ERROR', `Failed to delete statement ${params.id}`, error);
+    return NextResponse.json({ error: 'Failed to delete statement' }, { status: 500 });
+  }
+}
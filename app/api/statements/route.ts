@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStatementStore, importStatement, STATEMENT_FILE_TYPES } from '@/lib/statements';
+import { ErrorCode, handleKBError, validateFile } from '@/lib/kb/error-handler';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/statements - Imported statements of the session, most recent first
+ */
+export async function GET(req: NextRequest) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+
+  try {
+    const statements = await getStatementStore().list(sessionId);
+    return NextResponse.json({
+      statements: statements.map(({ sessionId: _, ...statement }) => statement),
+    });
+  } catch (error) {
+    logger.error('STATEMENT_LIST_ERROR', 'Failed to list statements', error);
+    return NextResponse.json({ error: 'Failed to load statements' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/statements - Import a bank statement (CSV, TSV, XLSX, OFX, QFX or PDF).
+ * Parsing is quick, so unlike document uploads this runs inline.
+ */
+export async function POST(req: NextRequest) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+
+  let filename = 'unknown';
+
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    filename = file.name;
+
+    try {
+      validateFile(file, STATEMENT_FILE_TYPES);
+    } catch (error) {
+      const handled = handleKBError(error, { operation: 'statement_validation', filename });
+      return NextResponse.json({
+        error: handled.code === ErrorCode.UNSUPPORTED_FORMAT
+          ? 'Statement format not supported. Please upload CSV, TSV, XLSX, OFX, QFX or PDF statements.'
+          : handled.message
+      }, { status: 400 });
+    }
+
+    const fileType = file.name.split('.').pop()?.toLowerCase()!;
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const result = await importStatement(buffer, filename, fileType, sessionId);
+    const { sessionId: _, ...statement } = result.statement;
+
+    if (result.duplicateOf) {
+      return NextResponse.json({
+        error: `This statement was already imported as ${result.duplicateOf}`,
+        statement,
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({ ...result, statement }, { status: 201 });
+  } catch (error) {
+    const handled = handleKBError(error, { operation: 'statement_import', filename });
+    return NextResponse.json({ error: handled.message }, { status: handled.recoverable ? 500 : 422 });
+  }
+}
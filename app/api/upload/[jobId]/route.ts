@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIngestionJob, cancelIngestionJob } from '@/lib/kb/ingestion-jobs';
+import { handleKBError } from '@/lib/kb/error-handler';
+import { logger } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+/**
+ * GET /api/upload/[jobId] - Ingestion job status (stage, percent, result)
+ */
+export async function GET(req: NextRequest, { params }: { params: { jobId: string } }) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+  
+  const job = getIngestionJob(params.jobId, sessionId);
+  if (!job) {
+    return NextResponse.json({ error: 'Upload job not found. It may have expired.' }, { status: 404 });
+  }
+  
+  const { sessionId: _, ...status } = job;
+  return NextResponse.json(status);
+}
+
+/**
+ * DELETE /api/upload/[jobId] - Cancel a queued or running ingestion job
+ */
+export async function DELETE(req: NextRequest, { params }: { params: { jobId: string } }) {
+  const sessionId = req.headers.get('x-session-id');
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Session ID required' }, { status: 400 });
+  }
+  
+  try {
+    const job = cancelIngestionJob(params.jobId, sessionId);
+    
+    logger.info('UPLOAD_CANCEL', `Cancellation requested for job ${job.id}`, {
+      jobId: job.id,
+      filename: job.filename,
+      status: job.status
+    });
+    
+    const { sessionId: _, ...status } = job;
+    return NextResponse.json(status);
+  } catch (error) {
+    const handled = handleKBError(error, { operation: 'upload_cancel' });
+    return NextResponse.json({ error: handled.message }, { status: 404 });
+  }
+}
@@ -7,6 +7,15 @@ import remarkGfm from 'remark-gfm';
 import { DotLottieReact } from '@lottiefiles/dotlottie-react';
 import FileUpload from '@/components/FileUpload';
 import KBManager from '@/components/KBManager';
+import ConversationList from '@/components/ConversationList';
+import StatementList from '@/components/StatementList';
+import CitationFootnotes, { renderWithCitations } from '@/components/CitationFootnotes';
+import GroundingBadge from '@/components/GroundingBadge';
+import ChunkViewer from '@/components/ChunkViewer';
+import { getMessageGrounding } from '@/lib/citation-verifier';
+import { getMessageCitations, matchCitations, CITATION_PATTERN } from '@/lib/citations';
+import { startUpload, startUrlUpload, pollUploadJob, cancelUploadJob, type UploadJob } from '@/lib/upload-client';
+import type { ChunkingStrategyName } from '@/lib/kb/chunking/types';
 import { getRandomPresetQuestions, type PresetQuestion } from '@/lib/preset-questions';
 import { getCompleteClientLocation, getCachedLocation, type CompleteLocation } from '@/lib/client-location';
 
@@ -23,9 +32,16 @@ export default function Chat() {
   const sidebarFileInputRef = useRef<HTMLInputElement>(null);
   const [dragActive, setDragActive] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [kbUrl, setKbUrl] = useState('');
+  const [chunkingStrategy, setChunkingStrategy] = useState<ChunkingStrategyName | ''>(''); // '' = server default
+  const [uploadJobs, setUploadJobs] = useState<UploadJob[]>([]);
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [toastExiting, setToastExiting] = useState(false);
   const [refreshKB, setRefreshKB] = useState(0);
+  const [conversationId, setConversationId] = useState<string>('');
+  const [refreshConversations, setRefreshConversations] = useState(0);
+  const [expandedCitation, setExpandedCitation] = useState<{ messageId: string; number: number } | null>(null);
+  const [viewingChunkId, setViewingChunkId] = useState<string | null>(null);
   const [autoCollapseAfterRefresh, setAutoCollapseAfterRefresh] = useState(false);
   const [typedText, setTypedText] = useState('');
   const [suggestions, setSuggestions] = useState<Array<{ id: string; text: string; color: string; floatDuration: number; xOffset: number; yOffset: number; delay: number }>>([]);
@@ -63,10 +79,18 @@ export default function Chat() {
   // Initialize session and theme from localStorage
   useEffect(() => {
     // Import session utilities dynamically (client-side only)
-    import('@/lib/session').then(({ getOrCreateSessionId, getTheme }) => {
+    import('@/lib/session').then(({ getOrCreateSessionId, getTheme, getConversationId, createConversationId }) => {
       const sid = getOrCreateSessionId();
       setSessionId(sid);
       
+      // Resume the last conversation, or start a new one
+      const storedConversationId = getConversationId();
+      if (storedConversationId) {
+        loadConversation(sid, storedConversationId);
+      } else {
+        selectConversation(createConversationId());
+      }
+      
       const savedTheme = getTheme();
       setTheme(savedTheme);
     });
@@ -224,10 +248,65 @@ export default function Chat() {
     return headers;
   }, [sessionId, cachedLocation]);
 
-  const { messages, input, handleInputChange, handleSubmit, isLoading, stop } = useChat({
+  const { messages, input, handleInputChange, handleSubmit, isLoading, stop, setMessages } = useChat({
     headers: chatHeaders,
+    body: { conversationId },
+    onFinish: () => setRefreshConversations(prev => prev + 1), // Server saved the turn
   });
 
+  const selectConversation = (id: string) => {
+    setConversationId(id);
+    import('@/lib/session').then(({ setConversationId }) => setConversationId(id));
+  };
+
+  // Load a saved conversation into the chat
+  const loadConversation = async (sid: string, id: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(id)}`, {
+        headers: { 'x-session-id': sid },
+      });
+      
+      if (!response.ok) {
+        // Deleted or never saved - carry on with this id as a new conversation
+        selectConversation(id);
+        setMessages([]);
+        return;
+      }
+      
+      const conversation = await response.json();
+      const restored: Message[] = conversation.messages.map((m: any) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        createdAt: new Date(m.createdAt),
+        ...(m.toolInvocations ? { toolInvocations: m.toolInvocations } : {}),
+      }));
+      
+      // Show restored answers in full instead of replaying the typing animation
+      restored.forEach(m => animationStartedFor.current.add(m.id));
+      setRenderedById(prev => ({
+        ...prev,
+        ...Object.fromEntries(restored.filter(m => m.role === 'assistant').map(m => [m.id, m.content])),
+      }));
+      
+      selectConversation(id);
+      setSuggestions([]);
+      setMessages(restored);
+    } catch (error) {
+      console.error('Failed to load conversation:', error);
+      setToast({ message: 'Could not load conversation', type: 'error' });
+    }
+  };
+
+  const startNewConversation = () => {
+    if (isLoading) stop();
+    import('@/lib/session').then(({ createConversationId }) => {
+      selectConversation(createConversationId());
+      setSuggestions([]);
+      setMessages([]);
+    });
+  };
+
   // Check if currently animating
   const isAnimating = animatingId !== null;
 
@@ -428,43 +507,59 @@ export default function Chat() {
     }, 300); // Match animation duration
   };
 
-  const handleFileUpload = async (file: File) => {
+  // Queue an upload (a file or a URL) and track its job in the K-Base sidebar
+  const runUpload = async (name: string, start: (sessionId: string) => Promise<UploadJob>) => {
     if (!sessionId) {
       console.error('No session ID available');
       return;
     }
     
     setUploading(true);
-    setToast({ message: `Uploading ${file.name}...`, type: 'success' });
+    setToast({ message: `Uploading ${name}...`, type: 'success' });
     setTimeout(dismissToast, 3000);
     
-    const formData = new FormData();
-    formData.append('file', file);
+    let job: UploadJob;
     try {
-      console.log('Uploading file:', file.name, file.size, file.type);
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        headers: {
-          'x-session-id': sessionId,
-        },
-        body: formData,
+      console.log('Uploading:', name);
+      job = await start(sessionId);
+      console.log('Upload queued as job:', job.id);
+    } catch (error) {
+      console.error('Upload error:', error);
+      setToast({ message: `Upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`, type: 'error' });
+      setTimeout(dismissToast, 5000);
+      setUploading(false);
+      return;
+    }
+    
+    // Processing continues in the background - show live progress in the K-Base sidebar
+    setUploading(false);
+    setUploadJobs(prev => [...prev, job]);
+    if (!kbExpanded) {
+      setKbExpanded(true);
+      setAutoCollapseAfterRefresh(true);
+    }
+    
+    try {
+      const finished = await pollUploadJob(job.id, sessionId, (update) => {
+        setUploadJobs(prev => prev.map(j => (j.id === update.id ? update : j)));
       });
-      console.log('Upload response status:', response.status);
-      const data = await response.json();
-      console.log('Upload response data:', data);
+      console.log('Upload job finished:', finished);
       
-      if (response.ok) {
-        setToast({ message: `${file.name} uploaded successfully!`, type: 'success' });
+      if (finished.status === 'completed' && finished.result?.duplicateOf) {
+        setAutoCollapseAfterRefresh(false);
+        setToast({ message: `${name} is already in K-Base`, type: 'error' });
+        setTimeout(dismissToast, 3000);
+      } else if (finished.status === 'completed') {
+        setToast({ message: `${name} uploaded successfully!`, type: 'success' });
         setRefreshKB(prev => prev + 1); // Trigger KB refresh
         setTimeout(dismissToast, 3000);
-        
-        // If sidebar is collapsed, open it and set flag to auto-collapse after refresh
-        if (!kbExpanded) {
-          setKbExpanded(true);
-          setAutoCollapseAfterRefresh(true);
-        }
+      } else if (finished.status === 'cancelled') {
+        setAutoCollapseAfterRefresh(false);
+        setToast({ message: `Upload of ${name} cancelled`, type: 'error' });
+        setTimeout(dismissToast, 3000);
       } else {
-        setToast({ message: `Upload failed: ${data.error || 'Unknown error'}`, type: 'error' });
+        setAutoCollapseAfterRefresh(false);
+        setToast({ message: `Upload failed: ${finished.error || 'Unknown error'}`, type: 'error' });
         setTimeout(dismissToast, 5000);
       }
     } catch (error) {
@@ -472,7 +567,22 @@ export default function Chat() {
       setToast({ message: `Upload error: ${error instanceof Error ? error.message : 'Unknown error'}`, type: 'error' });
       setTimeout(dismissToast, 5000);
     } finally {
-      setUploading(false);
+      setUploadJobs(prev => prev.filter(j => j.id !== job.id));
+    }
+  };
+
+  const chunking = chunkingStrategy ? { strategy: chunkingStrategy } : undefined;
+
+  const handleFileUpload = (file: File) => runUpload(file.name, sessionId => startUpload(file, sessionId, chunking));
+
+  const handleUrlUpload = (url: string) => runUpload(url, sessionId => startUrlUpload(url, sessionId, chunking));
+
+  const handleCancelUpload = async (jobId: string) => {
+    if (!sessionId) return;
+    try {
+      await cancelUploadJob(jobId, sessionId);
+    } catch (error) {
+      console.error('Cancel upload error:', error);
     }
   };
 
@@ -666,7 +776,7 @@ export default function Chat() {
           <input
             ref={sidebarFileInputRef}
             type="file"
-            accept=".pdf,.docx,.txt,.md"
+            accept=".pdf,.docx,.txt,.md,.csv,.tsv,.xlsx,.png,.jpg,.jpeg,.html,.htm,.epub"
             className="hidden"
             onChange={(e) => {
               const file = e.target.files?.[0];
@@ -684,7 +794,90 @@ export default function Chat() {
             title="Upload to K-Base"
           />
 
-          <KBManager key={refreshKB} onLoadComplete={handleKBLoadComplete} />
+          {/* Add by URL */}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              const url = kbUrl.trim();
+              if (!url) return;
+              handleUrlUpload(url);
+              setKbUrl('');
+            }}
+            className="flex gap-2 mb-4"
+          >
+            <input
+              type="url"
+              value={kbUrl}
+              onChange={(e) => setKbUrl(e.target.value)}
+              placeholder="Add a web page by URL"
+              className="flex-1 min-w-0 px-2.5 py-1.5 text-xs bg-gray-800/50 border border-gray-700/50 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-purple-500/50"
+            />
+            <button
+              type="submit"
+              disabled={!kbUrl.trim() || !sessionId}
+              className="px-2.5 py-1.5 text-xs text-purple-300 border border-purple-500/40 rounded-lg hover:bg-purple-500/10 transition-colors disabled:opacity-50"
+            >
+              Add
+            </button>
+          </form>
+
+          {/* Chunking strategy for the next uploads */}
+          <label className="flex items-center justify-between gap-2 mb-4 text-xs text-gray-400">
+            Chunking
+            <select
+              value={chunkingStrategy}
+              onChange={(e) => setChunkingStrategy(e.target.value as ChunkingStrategyName | '')}
+              className="px-2 py-1 bg-gray-800/50 border border-gray-700/50 rounded-lg text-white focus:outline-none focus:ring-1 focus:ring-purple-500/50"
+              title="How uploaded documents are split into chunks"
+            >
+              <option value="">Default</option>
+              <option value="sentence">Sentences</option>
+              <option value="fixed">Fixed windows</option>
+              <option value="recursive">Recursive</option>
+              <option value="semantic">Semantic</option>
+            </select>
+          </label>
+
+          <KBManager
+            key={refreshKB}
+            onLoadComplete={handleKBLoadComplete}
+            jobs={uploadJobs}
+            onCancelJob={handleCancelUpload}
+          />
+
+          {/* Bank Statements */}
+          <div className="flex items-center justify-between pt-6 mb-2">
+            <h2 className="text-lg font-semibold text-white">Statements</h2>
+          </div>
+
+          <StatementList sessionId={sessionId} />
+
+          {/* Conversation History */}
+          <div className="flex items-center justify-between pt-6 mb-2">
+            <h2 className="text-lg font-semibold text-white">Conversations</h2>
+            <button
+              onClick={startNewConversation}
+              className="p-1.5 rounded-lg hover:bg-gray-700/50 transition-colors"
+              title="New conversation"
+            >
+              <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+            </button>
+          </div>
+
+          <ConversationList
+            sessionId={sessionId}
+            activeId={conversationId}
+            refreshKey={refreshConversations}
+            onSelect={(id) => {
+              if (isLoading) stop();
+              loadConversation(sessionId, id);
+            }}
+            onDeleted={(id) => {
+              if (id === conversationId) startNewConversation();
+            }}
+          />
         </div>
       </div>
 
@@ -879,6 +1072,13 @@ export default function Chat() {
             )}
 
             {messages.map((message, index) => {
+              const citations = message.role === 'assistant' ? getMessageCitations(message) : [];
+              const citedNumbers = new Set(
+                Array.from((message.content || '').matchAll(CITATION_PATTERN)).flatMap(m => matchCitations(m[1], citations))
+              );
+              const toggleCitation = (number: number) => setExpandedCitation(current =>
+                current?.messageId === message.id && current.number === number ? null : { messageId: message.id, number }
+              );
               return (
                 <div key={message.id} className={`message-area flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                   <div className={`max-w-[85%] ${message.role === 'user' ? 'animate-slide-brake' : ''}`}>
@@ -915,6 +1115,7 @@ export default function Chat() {
                                     {tool.toolName === 'searchWeb' && 'Web Search'}
                                     {tool.toolName === 'getUserLocation' && 'Location'}
                                     {tool.toolName === 'getCurrentDateTime' && 'Date & Time'}
+                                    {tool.toolName === 'queryTransactions' && 'Transactions'}
                                   </span>
                                   {tool.state === 'result' && tool.toolName === 'getUserLocation' && tool.result?.location && (
                                     <span className="opacity-70">
@@ -926,6 +1127,11 @@ export default function Chat() {
                                       {tool.result.datetime.formatted}
                                     </span>
                                   )}
+                                  {tool.state === 'result' && tool.toolName === 'queryTransactions' && tool.result?.summary && (
+                                    <span className="opacity-70">
+                                      {tool.result.summary.count} matching
+                                    </span>
+                                  )}
                                 </div>
                               ))}
                             </div>
@@ -935,47 +1141,12 @@ export default function Chat() {
                             <ReactMarkdown 
                               remarkPlugins={[remarkGfm]} 
                               components={{
-                                p: ({ node, ...props }) => {
-                                  const content = props.children;
-                                  // Check if content contains [Source: ...] pattern
-                                  if (typeof content === 'string' && content.includes('[Source:')) {
-                                    const parts = content.split(/(\[Source:[^\]]+\])/g);
-                                    return (
-                                      <p className={`mb-2 text-xs leading-loose tracking-widest ${isDark ? 'text-white' : 'text-gray-800 font-semibold'}`}>
-                                        {parts.map((part, i) => {
-                                          if (part.startsWith('[Source:')) {
-                                            // Check if it's a URL citation
-                                            const urlMatch = part.match(/\[Source:\s*(https?:\/\/[^\]]+)\]/);
-                                            if (urlMatch) {
-                                              const url = urlMatch[1];
-                                              // Extract domain/title from URL
-                                              try {
-                                                const urlObj = new URL(url);
-                                                const domain = urlObj.hostname.replace('www.', '');
-                                                return (
-                                                  <span key={i} className="opacity-70">
-                                                    [Source: <a href={url} target="_blank" rel="noopener noreferrer" className={`underline hover:opacity-80 transition-opacity cursor-pointer ${isDark ? 'text-blue-400' : 'text-blue-700'}`}>{domain}</a>]
-                                                  </span>
-                                                );
-                                              } catch {
-                                                // If URL parsing fails, show as-is
-                                                return (
-                                                  <span key={i} className="opacity-70">{part}</span>
-                                                );
-                                              }
-                                            }
-                                            // Not a URL citation (e.g., file citation)
-                                            return (
-                                              <span key={i} className="opacity-70">{part}</span>
-                                            );
-                                          }
-                                          return part;
-                                        })}
-                                      </p>
-                                    );
-                                  }
-                                  return <p className={`mb-2 text-xs leading-loose tracking-widest ${isDark ? 'text-white' : 'text-gray-800 font-semibold'}`} {...props} />;
-                                },
+                                p: ({ node, ...props }) => (
+                                  // [Source: ...] brackets become numbered footnote markers
+                                  <p className={`mb-2 text-xs leading-loose tracking-widest ${isDark ? 'text-white' : 'text-gray-800 font-semibold'}`}>
+                                    {renderWithCitations(props.children, citations, isDark, toggleCitation)}
+                                  </p>
+                                ),
                                 a: ({ node, ...props }) => {
                                   // Custom link handler for citations
                                   const href = props.href || '';
@@ -1009,6 +1180,18 @@ export default function Chat() {
                               {getAssistantText(message, index)}
                             </ReactMarkdown>
                           </div>
+
+                          {/* Structured citations - shown once the answer has finished typing */}
+                          {animatingId !== message.id && !(isLoading && index === messages.length - 1) && (
+                            <CitationFootnotes
+                              citations={citations}
+                              cited={citedNumbers}
+                              expanded={expandedCitation?.messageId === message.id ? expandedCitation.number : null}
+                              onToggle={toggleCitation}
+                              onOpenChunk={setViewingChunkId}
+                              isDark={isDark}
+                            />
+                          )}
                         </>
                       ) : (
                         <div 
@@ -1049,6 +1232,7 @@ export default function Chat() {
                             </>
                           )}
                         </button>
+                        <GroundingBadge report={getMessageGrounding(message, citations)} isDark={isDark} />
                       </div>
                     )}
                   </div>
@@ -1179,7 +1363,7 @@ export default function Chat() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".pdf,.docx,.txt,.md"
+                accept=".pdf,.docx,.txt,.md,.csv,.tsv,.xlsx,.png,.jpg,.jpeg,.html,.htm,.epub"
                 className="hidden"
                 onChange={(e) => {
                   const file = e.target.files?.[0];
@@ -1246,6 +1430,16 @@ export default function Chat() {
         />
       </div>
 
+      {/* Cited chunk in its document */}
+      {viewingChunkId && (
+        <ChunkViewer
+          chunkId={viewingChunkId}
+          sessionId={sessionId}
+          onClose={() => setViewingChunkId(null)}
+          isDark={isDark}
+        />
+      )}
+
       {/* Toast Notification - Positioned in header area with slide animations */}
       {toast && (
         <div className={`fixed top-0 left-1/2 -translate-x-1/2 z-[60] px-4 py-1.5 rounded-b-lg shadow-lg ${
@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ChunkContext, ChunkDetail } from '@/lib/kb/chunk-context';
+import { formatSectionPath } from '@/lib/kb/sections';
+
+function describeLocation(chunk: ChunkDetail): string {
+  const parts = [`Chunk ${chunk.chunkIndex + 1}`];
+  if (chunk.sectionPath?.length) {
+    parts.push(formatSectionPath(chunk.sectionPath));
+  }
+  if (chunk.pageStart !== undefined) {
+    parts.push(chunk.pageEnd !== undefined && chunk.pageEnd !== chunk.pageStart
+      ? `pages ${chunk.pageStart}–${chunk.pageEnd}`
+      : `page ${chunk.pageStart}`);
+  }
+  if (chunk.charStart !== undefined && chunk.charEnd !== undefined) {
+    parts.push(`characters ${chunk.charStart.toLocaleString()}–${chunk.charEnd.toLocaleString()}`);
+  }
+  if (chunk.ocrConfidence !== undefined) {
+    parts.push(`OCR ${Math.round(chunk.ocrConfidence * 100)}%`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Cited KB chunk shown in place within its document: neighbouring chunks
+ * around it, page numbers, character offsets and the validator's reasoning
+ */
+export default function ChunkViewer({
+  chunkId,
+  sessionId,
+  onClose,
+  isDark,
+}: {
+  chunkId: string;
+  sessionId: string;
+  onClose: () => void;
+  isDark: boolean;
+}) {
+  const [context, setContext] = useState<ChunkContext | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setContext(null);
+    setError(null);
+
+    fetch(`/api/kb/chunk?id=${encodeURIComponent(chunkId)}&radius=1`, {
+      headers: { 'x-session-id': sessionId }
+    })
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load chunk');
+        if (!cancelled) setContext(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(describeError(err));
+      });
+
+    return () => { cancelled = true; };
+  }, [chunkId, sessionId]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const neighbour = (chunk: ChunkDetail) => (
+    <div key={chunk.id} className="opacity-50">
+      <p className="mb-1 text-[9px] uppercase tracking-widest">{describeLocation(chunk)}</p>
+      <p className="whitespace-pre-wrap leading-relaxed">{chunk.content}</p>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        onClick={e => e.stopPropagation()}
+        className={`w-full max-w-2xl max-h-[80vh] flex flex-col rounded-lg shadow-xl text-[11px] tracking-wide ${isDark ? 'bg-gray-900 text-gray-200' : 'bg-white text-gray-800'}`}
+      >
+        <div className={`flex items-center justify-between px-4 py-2 border-b ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+          <div className="min-w-0">
+            <p className="font-semibold truncate">{context?.chunk.filename || 'Source'}</p>
+            {context && (
+              <p className="text-[10px] opacity-60">
+                {describeLocation(context.chunk)}
+                {context.chunk.version > 0 && ` · version ${context.chunk.version}`}
+              </p>
+            )}
+            {context?.chunk.sourceUrl && (
+              <a
+                href={context.chunk.sourceUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={`block text-[10px] underline truncate ${isDark ? 'text-blue-400' : 'text-blue-700'}`}
+              >
+                Open original page
+              </a>
+            )}
+          </div>
+          <button onClick={onClose} className="p-1 rounded hover:opacity-70 transition-opacity" title="Close">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-y-auto px-4 py-3 space-y-3">
+          {error && <p className={isDark ? 'text-red-400' : 'text-red-600'}>{error}</p>}
+          {!context && !error && <p className="opacity-60">Loading…</p>}
+
+          {context && (
+            <>
+              {context.previous.map(neighbour)}
+
+              <div className={`p-2 rounded border-l-2 ${isDark ? 'bg-purple-500/10 border-purple-400' : 'bg-purple-50 border-purple-600'}`}>
+                <p className="whitespace-pre-wrap leading-relaxed">{context.chunk.content}</p>
+              </div>
+
+              {context.next.map(neighbour)}
+
+              {context.chunk.injectionAction && (
+                <p className={isDark ? 'text-yellow-400' : 'text-yellow-700'}>
+                  {context.chunk.injectionAction === 'quarantined'
+                    ? 'This chunk contains instruction-like text (possible prompt injection) and is excluded from search.'
+                    : 'Instruction-like text (possible prompt injection) was removed from this chunk before indexing.'}
+                </p>
+              )}
+
+              <div className={`pt-2 border-t ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+                <p className="font-medium">
+                  Validation {Math.round(context.chunk.validationScore * 100)}%
+                </p>
+                <p className="opacity-70 mt-0.5">
+                  {context.chunk.validationReasoning || 'No validation reasoning was stored for this chunk.'}
+                </p>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function describeError(err: unknown): string {
+  const message = err instanceof Error ? err.message : 'Failed to load chunk';
+  return message === 'Chunk not found'
+    ? 'This chunk is no longer in K-Base (the document may have been deleted or replaced).'
+    : message;
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import React from 'react';
+import { matchCitations, type Citation } from '@/lib/citations';
+
+function domainOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace('www.', '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Replace [Source: ...] brackets in rendered text with numbered footnote markers.
+ * Brackets that match no citation are kept as text (dimmed, URLs linked).
+ */
+export function renderWithCitations(
+  children: React.ReactNode,
+  citations: Citation[],
+  isDark: boolean,
+  onSelect: (number: number) => void
+): React.ReactNode {
+  return React.Children.map(children, child => {
+    if (typeof child !== 'string' || !child.includes('[Source:')) return child;
+
+    return child.split(/(\[Source:[^\]]+\])/g).map((part, i) => {
+      const bracket = part.match(/^\[Source:\s*([^\]]+)\]$/);
+      if (!bracket) return part;
+
+      const numbers = matchCitations(bracket[1], citations);
+      if (numbers.length > 0) {
+        return (
+          <sup key={i} className="whitespace-nowrap">
+            {numbers.map(n => (
+              <button
+                key={n}
+                onClick={() => onSelect(n)}
+                className={`mx-px px-1 rounded text-[9px] font-medium transition-colors ${isDark ? 'text-purple-300 hover:bg-purple-500/20' : 'text-purple-700 hover:bg-purple-200'}`}
+                title={citations.find(c => c.number === n)?.source}
+              >
+                {n}
+              </button>
+            ))}
+          </sup>
+        );
+      }
+
+      const url = bracket[1].trim();
+      if (/^https?:\/\/\S+$/.test(url)) {
+        return (
+          <span key={i} className="opacity-70">
+            [Source: <a href={url} target="_blank" rel="noopener noreferrer" className={`underline hover:opacity-80 transition-opacity cursor-pointer ${isDark ? 'text-blue-400' : 'text-blue-700'}`}>{domainOf(url)}</a>]
+          </span>
+        );
+      }
+      return <span key={i} className="opacity-70">{part}</span>;
+    });
+  });
+}
+
+/**
+ * Numbered source list under an answer; each entry expands to the cited chunk
+ */
+export default function CitationFootnotes({
+  citations,
+  cited,
+  expanded,
+  onToggle,
+  onOpenChunk,
+  isDark,
+}: {
+  citations: Citation[];
+  cited: Set<number>; // Numbers referenced inline by the answer
+  expanded: number | null;
+  onToggle: (number: number) => void;
+  onOpenChunk?: (chunkId: string) => void;
+  isDark: boolean;
+}) {
+  if (citations.length === 0) return null;
+
+  return (
+    <div className={`mt-2 pt-2 border-t text-[10px] tracking-wide ${isDark ? 'border-gray-700 text-gray-300' : 'border-gray-300 text-gray-600'}`}>
+      <p className="mb-1 font-medium opacity-70">Sources</p>
+      <ol className="space-y-1">
+        {citations.map(citation => (
+          <li
+            key={citation.id}
+            className={cited.size > 0 && !cited.has(citation.number) ? 'opacity-50' : ''}
+            title={cited.size > 0 && !cited.has(citation.number) ? 'Retrieved but not cited in the answer' : undefined}
+          >
+            <button
+              onClick={() => onToggle(citation.number)}
+              className="flex items-baseline gap-1.5 text-left hover:opacity-80 transition-opacity"
+            >
+              <span className={`font-medium ${isDark ? 'text-purple-300' : 'text-purple-700'}`}>[{citation.number}]</span>
+              <span className="truncate">
+                {citation.type === 'web'
+                  ? `${citation.source} (${domainOf(citation.url || '')})`
+                  : citation.section ? `${citation.source} — ${citation.section}` : citation.source}
+              </span>
+              {citation.validationScore !== undefined && (
+                <span className="opacity-60 whitespace-nowrap">
+                  validation {Math.round(citation.validationScore * 100)}%
+                </span>
+              )}
+            </button>
+
+            {expanded === citation.number && (
+              <div className={`mt-1 ml-5 p-2 rounded whitespace-pre-wrap leading-relaxed ${isDark ? 'bg-gray-800/60' : 'bg-gray-100'}`}>
+                {citation.snippet || 'No excerpt available.'}
+                {citation.url && (
+                  <a
+                    href={citation.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={`block mt-1 underline ${isDark ? 'text-blue-400' : 'text-blue-700'}`}
+                  >
+                    {citation.url}
+                  </a>
+                )}
+                {citation.chunkId && onOpenChunk && (
+                  <button
+                    onClick={() => onOpenChunk(citation.chunkId!)}
+                    className={`block mt-1 underline hover:opacity-80 transition-opacity ${isDark ? 'text-purple-300' : 'text-purple-700'}`}
+                  >
+                    View in document
+                  </button>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { downloadConversationExport, EXPORT_FORMAT_LABELS, type ExportFormat } from '@/lib/conversation-client';
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export default function ConversationList({
+  sessionId,
+  activeId,
+  refreshKey = 0,
+  onSelect,
+  onDeleted,
+}: {
+  sessionId: string;
+  activeId: string;
+  refreshKey?: number; // Bump to reload, e.g. after a message was saved
+  onSelect: (conversationId: string) => void;
+  onDeleted?: (conversationId: string) => void;
+}) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [exportMenu, setExportMenu] = useState<string | null>(null);
+
+  async function loadConversations() {
+    if (!sessionId) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/conversations', {
+        headers: { 'x-session-id': sessionId },
+      });
+      const data = await response.json();
+      setConversations(data.conversations || []);
+    } catch (error) {
+      console.error('Failed to load conversations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function renameConversation(conversation: ConversationSummary) {
+    const title = prompt('Rename conversation', conversation.title)?.trim();
+    if (!title || title === conversation.title) return;
+
+    setBusy(conversation.id);
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(conversation.id)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-session-id': sessionId,
+        },
+        body: JSON.stringify({ title }),
+      });
+
+      if (response.ok) {
+        const updated: ConversationSummary = await response.json();
+        setConversations(list => list.map(c => (c.id === updated.id ? updated : c)));
+      }
+    } catch (error) {
+      console.error('Failed to rename conversation:', error);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function deleteConversation(conversation: ConversationSummary) {
+    if (!confirm(`Delete "${conversation.title}"?`)) return;
+
+    setBusy(conversation.id);
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(conversation.id)}`, {
+        method: 'DELETE',
+        headers: { 'x-session-id': sessionId },
+      });
+
+      if (response.ok) {
+        setConversations(list => list.filter(c => c.id !== conversation.id));
+        onDeleted?.(conversation.id);
+      }
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function exportConversation(conversation: ConversationSummary, format: ExportFormat) {
+    setBusy(conversation.id);
+    try {
+      await downloadConversationExport(sessionId, conversation.id, format);
+      setExportMenu(null);
+    } catch (error) {
+      console.error('Failed to export conversation:', error);
+      alert(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  useEffect(() => {
+    if (sessionId) {
+      loadConversations();
+    }
+  }, [sessionId, refreshKey]);
+
+  if (loading && conversations.length === 0) {
+    return (
+      <div className="text-center py-4 text-sm text-gray-400">
+        Loading conversations...
+      </div>
+    );
+  }
+
+  if (conversations.length === 0) {
+    return (
+      <div className="text-center py-4 text-xs text-gray-400">
+        No saved conversations yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {conversations.map(conversation => (
+        <div
+          key={conversation.id}
+          onClick={() => conversation.id !== activeId && onSelect(conversation.id)}
+          className={`group flex items-center gap-2 px-3 py-2 rounded-lg border cursor-pointer transition-all duration-200 ${
+            conversation.id === activeId
+              ? 'bg-purple-600/20 border-purple-500/40'
+              : 'bg-gray-800/50 hover:bg-gray-700/50 border-gray-700/50'
+          }`}
+        >
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-white truncate">{conversation.title}</p>
+            <span className="text-[10px] text-gray-400 whitespace-nowrap">
+              {new Date(conversation.updatedAt).toLocaleDateString('en-US', {
+                month: 'short',
+                day: 'numeric',
+              })}
+              {' · '}
+              {conversation.messageCount} message{conversation.messageCount === 1 ? '' : 's'}
+            </span>
+
+            {/* Export Formats */}
+            {exportMenu === conversation.id && (
+              <div className="flex gap-2 mt-1.5">
+                {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      exportConversation(conversation, format);
+                    }}
+                    disabled={busy === conversation.id}
+                    className="px-2 py-0.5 text-[10px] text-purple-300 border border-purple-500/40 rounded hover:bg-purple-500/20 transition-colors disabled:opacity-50"
+                  >
+                    {EXPORT_FORMAT_LABELS[format]}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Export Button */}
+          <button
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              setExportMenu(menu => (menu === conversation.id ? null : conversation.id));
+            }}
+            disabled={conversation.messageCount === 0}
+            className="flex-shrink-0 opacity-100 md:opacity-0 md:group-hover:opacity-100 p-1.5 text-gray-400 hover:text-white hover:bg-gray-600/50 rounded transition-all disabled:opacity-50 touch-manipulation"
+            title="Export"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+            </svg>
+          </button>
+
+          {/* Rename Button */}
+          <button
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              renameConversation(conversation);
+            }}
+            disabled={busy === conversation.id}
+            className="flex-shrink-0 opacity-100 md:opacity-0 md:group-hover:opacity-100 p-1.5 text-gray-400 hover:text-white hover:bg-gray-600/50 rounded transition-all disabled:opacity-50 touch-manipulation"
+            title="Rename"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 9 17l.464-3.536z" />
+            </svg>
+          </button>
+
+          {/* Delete Button */}
+          <button
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              deleteConversation(conversation);
+            }}
+            disabled={busy === conversation.id}
+            className="flex-shrink-0 opacity-100 md:opacity-0 md:group-hover:opacity-100 p-1.5 text-red-400 hover:bg-red-500/10 rounded transition-all disabled:opacity-50 touch-manipulation"
+            title="Delete"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,13 @@
 'use client';
 
 import { useState } from 'react';
+import {
+  startUpload,
+  pollUploadJob,
+  cancelUploadJob,
+  STATUS_LABELS,
+  type UploadJob,
+} from '@/lib/upload-client';
 
 interface UploadResult {
   success?: boolean;
@@ -16,36 +23,47 @@ export default function FileUpload() {
   const [uploading, setUploading] = useState(false);
   const [result, setResult] = useState<UploadResult | null>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [job, setJob] = useState<UploadJob | null>(null);
   
   async function handleUpload(file: File) {
+    const { getOrCreateSessionId } = await import('@/lib/session');
+    const sessionId = getOrCreateSessionId();
+    
     setUploading(true);
     setResult(null);
-    
-    const formData = new FormData();
-    formData.append('file', file);
+    setJob(null);
     
     try {
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData
-      });
+      const queued = await startUpload(file, sessionId);
+      setJob(queued);
       
-      const data = await response.json();
-      setResult(data);
+      const finished = await pollUploadJob(queued.id, sessionId, setJob);
       
-      // Reload the page after successful upload to refresh K-Base list
-      if (data.success) {
+      if (finished.status === 'completed' && finished.result) {
+        setResult({ success: true, ...finished.result });
+        // Reload the page after successful upload to refresh K-Base list
         setTimeout(() => {
           window.location.reload();
         }, 2000);
+      } else if (finished.status === 'cancelled') {
+        setResult({ error: 'Upload cancelled.' });
+      } else {
+        setResult({ error: finished.error || 'Upload failed. Please try again.' });
       }
     } catch (error) {
-      setResult({ error: 'Upload failed. Please try again.' });
+      setResult({ error: error instanceof Error ? error.message : 'Upload failed. Please try again.' });
     } finally {
       setUploading(false);
+      setJob(null);
     }
   }
   
+  async function handleCancel() {
+    if (!job) return;
+    const { getOrCreateSessionId } = await import('@/lib/session');
+    await cancelUploadJob(job.id, getOrCreateSessionId());
+  }
+  
   function handleFileSelect(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     if (file) {
@@ -92,7 +110,7 @@ export default function FileUpload() {
         <input
           type="file"
           id="file-upload"
-          accept=".pdf,.docx,.txt,.md"
+          accept=".pdf,.docx,.txt,.md,.csv,.tsv,.xlsx,.png,.jpg,.jpeg,.html,.htm,.epub"
           onChange={handleFileSelect}
           disabled={uploading}
           className="hidden"
@@ -123,18 +141,36 @@ export default function FileUpload() {
               {' '}or drag and drop
             </div>
             <p className="text-xs text-gray-500">
-              PDF, DOCX, TXT, or MD (max 10MB)
+              PDF, DOCX, TXT, MD, CSV, TSV, XLSX, PNG, JPG, HTML or EPUB (max 10MB)
             </p>
           </div>
         </label>
       </div>
       
       {uploading && (
-        <div className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200 animate-pulse">
+        <div className="mt-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
           <div className="flex items-center space-x-3">
             <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
-            <span className="text-sm font-medium text-blue-700">Uploading document...</span>
+            <span className="flex-1 text-sm font-medium text-blue-700">
+              {job ? `${job.message || STATUS_LABELS[job.status]} (${job.percent}%)` : 'Uploading document...'}
+            </span>
+            {job && (
+              <button
+                onClick={handleCancel}
+                className="text-xs font-medium text-blue-700 hover:text-red-600"
+              >
+                Cancel
+              </button>
+            )}
           </div>
+          {job && (
+            <div className="mt-3 h-1.5 bg-blue-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 transition-all duration-500"
+                style={{ width: `${job.percent}%` }}
+              />
+            </div>
+          )}
         </div>
       )}
       
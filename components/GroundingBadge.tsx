@@ -0,0 +1,78 @@
+'use client';
+
+import { useState } from 'react';
+import type { GroundingReport } from '@/lib/citation-verifier';
+
+/**
+ * Per-answer grounding result: verified citations, fabricated sources, KB
+ * content reused without a citation and answers that cite no search result
+ */
+export default function GroundingBadge({ report, isDark }: { report: GroundingReport; isDark: boolean }) {
+  const [open, setOpen] = useState(false);
+
+  if (report.status === 'no-sources') return null;
+
+  const issues = report.fabricatedSources.length + report.uncitedParaphrases.length;
+  const label = report.status === 'grounded'
+    ? 'Sources verified'
+    : report.status === 'uncited'
+    ? 'No sources cited'
+    : `${issues} citation issue${issues === 1 ? '' : 's'}`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] transition-all duration-200 ${
+          report.status === 'grounded'
+            ? isDark ? 'text-green-400 hover:bg-gray-700/30' : 'text-green-700 hover:bg-gray-200/30'
+            : isDark ? 'text-yellow-400 hover:bg-gray-700/30' : 'text-yellow-700 hover:bg-gray-200/30'
+        }`}
+        title="Citation check against this answer's search results"
+      >
+        <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          {report.status === 'grounded' ? (
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
+          ) : (
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          )}
+        </svg>
+        <span>{label}</span>
+      </button>
+
+      {open && (
+        <div className={`absolute left-0 top-full mt-1 z-20 w-72 p-3 rounded-lg border shadow-lg text-[10px] leading-relaxed space-y-2 ${
+          isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-white border-gray-300 text-gray-700'
+        }`}>
+          {report.citedSources.length > 0 && (
+            <div>
+              <p className="font-medium mb-0.5">Cited sources</p>
+              {report.citedSources.map(source => (
+                <p key={source.source} className="truncate">
+                  {source.verified ? '✓' : '✗'} {source.source}
+                  {!source.verified && <span className="opacity-70"> - not in this answer&apos;s search results</span>}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {report.uncitedParaphrases.length > 0 && (
+            <div>
+              <p className="font-medium mb-0.5">Uncited K-Base content</p>
+              {report.uncitedParaphrases.map((paraphrase, i) => (
+                <p key={i}>
+                  &ldquo;{paraphrase.sentence.length > 120 ? `${paraphrase.sentence.slice(0, 120)}…` : paraphrase.sentence}&rdquo;
+                  <span className="opacity-70"> - matches {paraphrase.source} ({Math.round(paraphrase.overlap * 100)}%)</span>
+                </p>
+              ))}
+            </div>
+          )}
+
+          {report.citedSources.length === 0 && report.uncitedParaphrases.length === 0 && (
+            <p>No sources cited; {report.retrievedSources} search result{report.retrievedSources === 1 ? ' was' : 's were'} available.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
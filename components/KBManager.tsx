@@ -1,13 +1,17 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { STATUS_LABELS, type UploadJob } from '@/lib/upload-client';
 
 interface Document {
   id: string;
+  documentId: string | null;
+  version: number;
   filename: string;
   uploadDate: string;
   chunks: number;
   avgValidation: number;
+  sourceUrl?: string; // Added by URL
 }
 
 function getFileIcon(filename: string) {
@@ -47,10 +51,69 @@ function getFileIcon(filename: string) {
   }
 }
 
-export default function KBManager({ onLoadComplete }: { onLoadComplete?: () => void }) {
+function UploadProgress({ job, onCancel }: { job: UploadJob; onCancel?: (jobId: string) => void }) {
+  return (
+    <div className="flex items-start gap-3 p-3 bg-gray-800/50 rounded-lg border border-purple-500/30">
+      {/* File Icon */}
+      <div className="flex-shrink-0 mt-0.5 opacity-60">
+        {getFileIcon(job.filename)}
+      </div>
+      
+      {/* Progress */}
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-white truncate">
+          {job.filename}
+        </p>
+        <div className="mt-1.5 h-1 bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-purple-500 transition-all duration-500"
+            style={{ width: `${job.percent}%` }}
+          />
+        </div>
+        <div className="flex items-center justify-between mt-1">
+          <span className="text-[10px] text-gray-400 truncate">
+            {job.message || STATUS_LABELS[job.status]}
+          </span>
+          <span className="text-[10px] text-gray-400 whitespace-nowrap">
+            {job.percent}%
+          </span>
+        </div>
+      </div>
+      
+      {/* Cancel Button */}
+      {onCancel && (
+        <button
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onCancel(job.id);
+          }}
+          disabled={job.message === 'Cancelling...'}
+          className="flex-shrink-0 p-1.5 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded transition-all disabled:opacity-50 touch-manipulation"
+          title="Cancel upload"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default function KBManager({
+  onLoadComplete,
+  jobs = [],
+  onCancelJob,
+}: {
+  onLoadComplete?: () => void;
+  jobs?: UploadJob[]; // In-progress uploads, shown above the document list
+  onCancelJob?: (jobId: string) => void;
+}) {
   const [documents, setDocuments] = useState<Document[]>([]);
   const [loading, setLoading] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [sessionId, setSessionId] = useState<string>('');
 
   // Get session ID on mount
@@ -61,24 +124,26 @@ export default function KBManager({ onLoadComplete }: { onLoadComplete?: () => v
     });
   }, []);
 
-  async function loadDocuments() {
+  async function loadDocuments(cursor?: string) {
     if (!sessionId) return;
     
     setLoading(true);
     try {
-      const response = await fetch('/api/kb', {
+      const response = await fetch(`/api/kb${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ''}`, {
         headers: {
           'x-session-id': sessionId,
         },
       });
       const data = await response.json();
-      setDocuments(data.documents || []);
+      // Later pages append; the first page replaces the list
+      setDocuments(docs => (cursor ? [...docs, ...(data.documents || [])] : data.documents || []));
+      setNextCursor(data.nextCursor || null);
     } catch (error) {
       console.error('Failed to load documents:', error);
     } finally {
       setLoading(false);
       // Call the callback when loading is complete
-      if (onLoadComplete) {
+      if (onLoadComplete && !cursor) {
         onLoadComplete();
       }
     }
@@ -115,7 +180,11 @@ export default function KBManager({ onLoadComplete }: { onLoadComplete?: () => v
     }
   }, [sessionId]);
 
-  if (loading && documents.length === 0) {
+  const jobRows = jobs.map(job => (
+    <UploadProgress key={job.id} job={job} onCancel={onCancelJob} />
+  ));
+
+  if (loading && documents.length === 0 && jobs.length === 0) {
     return (
       <div className="text-center py-8 text-sm text-gray-400">
         Loading documents...
@@ -123,7 +192,7 @@ export default function KBManager({ onLoadComplete }: { onLoadComplete?: () => v
     );
   }
 
-  if (documents.length === 0) {
+  if (documents.length === 0 && jobs.length === 0) {
     return (
       <div className="text-center py-8 text-xs text-gray-400">
         No documents yet. Upload docs to K-Base using the upload button above.
@@ -133,6 +202,7 @@ export default function KBManager({ onLoadComplete }: { onLoadComplete?: () => v
 
   return (
     <div className="space-y-2">
+      {jobRows}
       {documents.map(doc => (
         <div
           key={doc.id}
@@ -146,7 +216,16 @@ export default function KBManager({ onLoadComplete }: { onLoadComplete?: () => v
           {/* File Info */}
           <div className="flex-1 min-w-0">
             <p className="text-sm font-medium text-white truncate">
-              {doc.filename}
+              {doc.sourceUrl ? (
+                <a href={doc.sourceUrl} target="_blank" rel="noopener noreferrer" className="hover:underline" title={doc.sourceUrl}>
+                  {doc.filename}
+                </a>
+              ) : doc.filename}
+              {doc.version > 1 && (
+                <span className="ml-1.5 text-[10px] font-normal text-gray-400" title="Re-uploaded; older versions can be restored">
+                  v{doc.version}
+                </span>
+              )}
             </p>
             <div className="flex items-center justify-between mt-1 flex-wrap">
               <span className="text-[10px] text-gray-400 whitespace-nowrap">
@@ -198,6 +277,16 @@ export default function KBManager({ onLoadComplete }: { onLoadComplete?: () => v
           </button>
         </div>
       ))}
+      
+      {nextCursor && (
+        <button
+          onClick={() => loadDocuments(nextCursor)}
+          disabled={loading}
+          className="w-full py-2 text-xs text-gray-400 hover:text-white hover:bg-gray-700/50 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
     </div>
   );
 }
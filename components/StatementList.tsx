@@ -0,0 +1,188 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+
+export interface StatementSummary {
+  id: string;
+  filename: string;
+  format: 'csv' | 'ofx' | 'pdf';
+  currency: string | null;
+  account: string | null;
+  importedAt: string;
+  dateFrom: string | null;
+  dateTo: string | null;
+  transactionCount: number;
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Imported bank statements: transactions the chat can total by category,
+ * month or merchant (separate from K-Base documents, which are searched as text)
+ */
+export default function StatementList({ sessionId }: { sessionId: string }) {
+  const [statements, setStatements] = useState<StatementSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ message: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  async function loadStatements() {
+    if (!sessionId) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch('/api/statements', {
+        headers: { 'x-session-id': sessionId },
+      });
+      const data = await response.json();
+      setStatements(data.statements || []);
+    } catch (error) {
+      console.error('Failed to load statements:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function importFile(file: File) {
+    setImporting(true);
+    setNotice(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/statements', {
+        method: 'POST',
+        headers: { 'x-session-id': sessionId },
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setNotice({ message: data.error || 'Import failed', isError: true });
+        return;
+      }
+
+      setStatements(list => [data.statement, ...list]);
+      setNotice({
+        message: [`Imported ${data.inserted} transaction${data.inserted === 1 ? '' : 's'} from ${file.name}.`, ...(data.warnings || [])].join(' '),
+        isError: false,
+      });
+    } catch (error) {
+      console.error('Failed to import statement:', error);
+      setNotice({ message: 'Import failed. Please try again.', isError: true });
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  async function deleteStatement(statement: StatementSummary) {
+    if (!confirm(`Delete ${statement.filename} and its transactions?`)) return;
+
+    setBusy(statement.id);
+    try {
+      const response = await fetch(`/api/statements/${encodeURIComponent(statement.id)}`, {
+        method: 'DELETE',
+        headers: { 'x-session-id': sessionId },
+      });
+
+      if (response.ok) {
+        setStatements(list => list.filter(s => s.id !== statement.id));
+      }
+    } catch (error) {
+      console.error('Failed to delete statement:', error);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  useEffect(() => {
+    if (sessionId) {
+      loadStatements();
+    }
+  }, [sessionId]);
+
+  return (
+    <div className="space-y-1">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.tsv,.xlsx,.ofx,.qfx,.pdf"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) {
+            importFile(file);
+          }
+          e.target.value = '';
+        }}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={importing || !sessionId}
+        className="w-full py-2 text-xs text-purple-300 border border-dashed border-purple-500/40 rounded-lg hover:bg-purple-500/10 transition-colors disabled:opacity-50"
+      >
+        {importing ? 'Importing...' : 'Import statement (CSV, OFX/QFX, PDF)'}
+      </button>
+
+      {notice && (
+        <p className={`px-1 text-[10px] ${notice.isError ? 'text-red-400' : 'text-gray-400'}`}>
+          {notice.message}
+        </p>
+      )}
+
+      {loading && statements.length === 0 && (
+        <div className="text-center py-4 text-sm text-gray-400">
+          Loading statements...
+        </div>
+      )}
+
+      {statements.map(statement => (
+        <div
+          key={statement.id}
+          className="group flex items-center gap-2 px-3 py-2 rounded-lg border bg-gray-800/50 hover:bg-gray-700/50 border-gray-700/50 transition-all duration-200"
+        >
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-white truncate">
+              {statement.filename}
+              {statement.account && (
+                <span className="ml-1.5 text-[10px] font-normal text-gray-400">{statement.account}</span>
+              )}
+            </p>
+            <span className="text-[10px] text-gray-400 whitespace-nowrap">
+              {statement.dateFrom && statement.dateTo
+                ? `${formatDay(statement.dateFrom)} – ${formatDay(statement.dateTo)}`
+                : 'No dates'}
+              {' · '}
+              {statement.transactionCount} transaction{statement.transactionCount === 1 ? '' : 's'}
+            </span>
+          </div>
+
+          {/* Delete Button */}
+          <button
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              deleteStatement(statement);
+            }}
+            disabled={busy === statement.id}
+            className="flex-shrink-0 opacity-100 md:opacity-0 md:group-hover:opacity-100 p-1.5 text-red-400 hover:bg-red-500/10 rounded transition-all disabled:opacity-50 touch-manipulation"
+            title="Delete"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
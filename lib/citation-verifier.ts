@@ -0,0 +1,142 @@
+import { CITATION_PATTERN, matchCitations, parseCitation, type Citation } from './citations';
+
+/**
+ * Post-generation citation check.
+ *
+ * Compares the [Source: ...] brackets of an answer with the citations its
+ * tool calls actually returned, and looks for sentences that reuse KB
+ * wording without citing anything. Pure and synchronous, so the chat route
+ * and the UI (for restored messages) produce the same report.
+ */
+
+// uncited: search results were available but the answer cites none of them
+export type GroundingStatus = 'grounded' | 'issues' | 'uncited' | 'no-sources';
+
+export interface CitedSourceCheck {
+  source: string; // As written by the model
+  type: 'kb' | 'web';
+  verified: boolean; // Present in this turn's tool results
+  citationNumbers: number[];
+}
+
+export interface UncitedParaphrase {
+  sentence: string;
+  source: string;
+  chunkId?: string;
+  overlap: number; // Share of the sentence's content words found in the chunk (0-1)
+}
+
+export interface GroundingReport {
+  status: GroundingStatus;
+  citedSources: CitedSourceCheck[];
+  fabricatedSources: string[];
+  uncitedParaphrases: UncitedParaphrase[];
+  retrievedSources: number; // Citations available from tool results
+}
+
+export interface GroundingAnnotation {
+  type: 'grounding';
+  report: GroundingReport;
+}
+
+// A sentence needs this many content words before overlap means anything
+const MIN_CONTENT_WORDS = 6;
+const PARAPHRASE_OVERLAP = 0.6;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'this', 'that', 'from', 'they',
+  'have', 'has', 'had', 'was', 'were', 'will', 'would', 'can', 'could', 'should', 'may', 'might',
+  'its', 'it\'s', 'their', 'there', 'which', 'what', 'when', 'where', 'who', 'how', 'into', 'than',
+  'then', 'also', 'such', 'these', 'those', 'been', 'being', 'more', 'most', 'some', 'any', 'each',
+  'other', 'about', 'over', 'only', 'very', 'just', 'like', 'does', 'did', 'our', 'out', 'all',
+]);
+
+function contentWords(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9'%.-]*[a-z0-9%]|[a-z0-9]/g) || [])
+    .filter(word => word.length > 2 && !STOPWORDS.has(word));
+}
+
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/\*\*|__|`/g, '')
+    .replace(/^\s*(#{1,6}|[-*]|\d+\.)\s+/gm, '');
+}
+
+/**
+ * Sentences of paragraphs that carry no citation bracket - the prompt puts one
+ * citation at the end of each paragraph, covering the whole paragraph
+ */
+function uncitedSentences(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .filter(paragraph => !/\[Source:/i.test(paragraph))
+    .flatMap(paragraph => stripMarkdown(paragraph).split(/(?<=[.!?])\s+|\n+/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+export function verifyCitations(text: string, citations: Citation[]): GroundingReport {
+  const citedSources: CitedSourceCheck[] = [];
+
+  for (const match of Array.from(text.matchAll(CITATION_PATTERN))) {
+    for (const cited of parseCitation(match[1])) {
+      if (citedSources.some(c => c.source.toLowerCase() === cited.source.toLowerCase())) continue;
+      const citationNumbers = matchCitations(cited.source, citations);
+      citedSources.push({
+        source: cited.source,
+        type: cited.type,
+        verified: citationNumbers.length > 0,
+        citationNumbers,
+      });
+    }
+  }
+
+  const kbWords = citations
+    .filter(c => c.type === 'kb')
+    .map(citation => ({ citation, words: new Set(contentWords(citation.snippet)) }));
+
+  const uncitedParaphrases: UncitedParaphrase[] = [];
+  for (const sentence of uncitedSentences(text)) {
+    const words = contentWords(sentence);
+    if (words.length < MIN_CONTENT_WORDS) continue;
+
+    let best: UncitedParaphrase | null = null;
+    for (const { citation, words: chunkWords } of kbWords) {
+      const overlap = words.filter(word => chunkWords.has(word)).length / words.length;
+      if (overlap >= PARAPHRASE_OVERLAP && (!best || overlap > best.overlap)) {
+        best = { sentence, source: citation.source, chunkId: citation.chunkId, overlap: Math.round(overlap * 100) / 100 };
+      }
+    }
+    if (best) uncitedParaphrases.push(best);
+  }
+
+  const fabricatedSources = citedSources.filter(c => !c.verified).map(c => c.source);
+
+  let status: GroundingStatus = 'grounded';
+  if (fabricatedSources.length > 0 || uncitedParaphrases.length > 0) {
+    status = 'issues';
+  } else if (citedSources.length === 0) {
+    status = citations.length === 0 ? 'no-sources' : 'uncited';
+  }
+
+  return {
+    status,
+    citedSources,
+    fabricatedSources,
+    uncitedParaphrases,
+    retrievedSources: citations.length,
+  };
+}
+
+/**
+ * Grounding report of an assistant message: the streamed annotation when
+ * present, otherwise recomputed from its text and citations
+ */
+export function getMessageGrounding(
+  message: { content: string; annotations?: unknown[] },
+  citations: Citation[]
+): GroundingReport {
+  const annotation = (message.annotations || [])
+    .find((a): a is GroundingAnnotation => (a as GroundingAnnotation)?.type === 'grounding');
+  return annotation ? annotation.report : verifyCitations(message.content, citations);
+}
@@ -1,23 +1,199 @@
+/**
+ * Structured citations.
+ *
+ * The chat route turns every searchKnowledgeBase / searchWeb result into a
+ * Citation and streams it as a message annotation, so the UI can render
+ * numbered footnotes without relying on the model's [Source: ...] brackets.
+ * Restored conversations carry no annotations; their citations are rebuilt
+ * from the stored tool results with the same numbering.
+ */
+
 export interface Citation {
-  id: string;
+  id: string; // Chunk id for KB results, URL for web results
+  number: number; // Footnote number, 1-based, per assistant message
+  type: 'kb' | 'web';
+  source: string; // KB filename or web page title
+  chunkId?: string;
+  url?: string; // Web results, and KB documents added by URL
+  section?: string; // KB heading path, e.g. "Section 4 › 4.2 Deductions"
+
+  validationScore?: number; // 0-1, KB only
+  snippet: string;
+}
+
+export interface CitationAnnotation {
+  type: 'citation';
+  citation: Citation;
+}
+
+export interface CitedSource {
+  type: 'kb' | 'web';
+  source: string;
+  validationScore?: number;
+}
+
+interface KBToolResult {
+  chunkId?: string;
   source: string;
+  sourceUrl?: string;
+  section?: string;
   content: string;
-  validationScore: number;
-  uploadDate: string;
-  chunkId: string;
+  validationScore?: number;
+}
+
+interface WebToolResult {
+  title?: string;
+  url: string;
+  content?: string;
+}
+
+const MAX_SNIPPET_LENGTH = 2000;
+
+export const CITATION_PATTERN = /\[Source:\s*([^\]]+)\]/g;
+
+function snippet(text: string = ''): string {
+  return text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH)}…` : text;
+}
+
+function normaliseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Numbers citations in first-seen order and drops repeats of the same chunk/URL
+ */
+export class CitationList {
+  private readonly byId = new Map<string, Citation>();
+
+  get citations(): Citation[] {
+    return Array.from(this.byId.values());
+  }
+
+  /** Returns the citations that were new */
+  addKBResults(results: KBToolResult[]): Citation[] {
+    return results.flatMap(result => this.add({
+      id: result.chunkId || `${result.source}:${result.content.slice(0, 64)}`,
+      type: 'kb',
+      source: result.source,
+      chunkId: result.chunkId,
+      ...(result.sourceUrl ? { url: result.sourceUrl } : {}),
+      ...(result.section ? { section: result.section } : {}),
+      validationScore: result.validationScore,
+      snippet: snippet(result.content),
+    }));
+  }
+
+  addWebResults(results: WebToolResult[]): Citation[] {
+    return results.flatMap(result => this.add({
+      id: result.url,
+      type: 'web',
+      source: result.title || result.url,
+      url: result.url,
+      snippet: snippet(result.content),
+    }));
+  }
+
+  private add(candidate: Omit<Citation, 'number'>): Citation[] {
+    if (this.byId.has(candidate.id)) return [];
+    const citation = { ...candidate, number: this.byId.size + 1 };
+    this.byId.set(citation.id, citation);
+    return [citation];
+  }
+}
+
+/**
+ * Citations of an assistant message: streamed annotations when present,
+ * otherwise rebuilt from its stored tool results
+ */
+export function getMessageCitations(message: { annotations?: unknown[]; toolInvocations?: unknown[] }): Citation[] {
+  const annotated = (message.annotations || [])
+    .filter((a): a is CitationAnnotation => (a as CitationAnnotation)?.type === 'citation')
+    .map(a => a.citation);
+  if (annotated.length > 0) {
+    return annotated;
+  }
+
+  const list = new CitationList();
+  for (const invocation of (message.toolInvocations || []) as any[]) {
+    if (invocation?.state !== 'result') continue;
+    const results = Array.isArray(invocation.result?.results) ? invocation.result.results : [];
+    if (invocation.toolName === 'searchKnowledgeBase') {
+      list.addKBResults(results.filter((r: any) => typeof r?.source === 'string'));
+    } else if (invocation.toolName === 'searchWeb') {
+      list.addWebResults(results.filter((r: any) => typeof r?.url === 'string'));
+    }
+  }
+  return list.citations;
+}
+
+/**
+ * Split the inside of one [Source: ...] into its individual sources.
+ * Handles "file.pdf, validation: 77%", "file.pdf (validation: 95%)" and URLs.
+ */
+export function parseCitation(inner: string): CitedSource[] {
+  const sources: CitedSource[] = [];
+
+  for (const token of inner.split(/,\s*/).map(t => t.trim()).filter(Boolean)) {
+    // "validation: 77%" belongs to the filename before it
+    const trailingScore = token.match(/^validation:\s*(\d+(?:\.\d+)?)%$/i);
+    if (trailingScore) {
+      const previous = sources[sources.length - 1];
+      if (previous?.type === 'kb') {
+        previous.validationScore = parseFloat(trailingScore[1]) / 100;
+      }
+      continue;
+    }
+
+    if (/^https?:\/\//i.test(token)) {
+      sources.push({ type: 'web', source: token });
+      continue;
+    }
+
+    const inlineScore = token.match(/^(.*?)\s*\((?:validation:\s*)?(\d+(?:\.\d+)?)%\)$/i);
+    if (inlineScore) {
+      sources.push({ type: 'kb', source: inlineScore[1], validationScore: parseFloat(inlineScore[2]) / 100 });
+    } else {
+      sources.push({ type: 'kb', source: token });
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Footnote numbers for the sources named in one [Source: ...] bracket.
+ * A KB filename matches every cited chunk of that file.
+ */
+export function matchCitations(inner: string, citations: Citation[]): number[] {
+  const numbers = new Set<number>();
+
+  for (const cited of parseCitation(inner)) {
+    for (const citation of citations) {
+      const matches = cited.type === 'web'
+        ? citation.url !== undefined && normaliseUrl(citation.url) === normaliseUrl(cited.source)
+        : citation.type === 'kb' && citation.source.toLowerCase() === cited.source.toLowerCase();
+      if (matches) numbers.add(citation.number);
+    }
+  }
+
+  return Array.from(numbers).sort((a, b) => a - b);
 }
 
 /**
  * Format citation for display
  */
 export function formatCitation(
-  citation: Citation, 
+  citation: Citation,
   style: 'inline' | 'footnote' = 'inline'
 ): string {
   if (style === 'inline') {
-    return `[Source: ${citation.source}, validation: ${(citation.validationScore * 100).toFixed(0)}%]`;
+    return citation.type === 'web'
+      ? `[Source: ${citation.url}]`
+      : `[Source: ${citation.source}, validation: ${((citation.validationScore ?? 0) * 100).toFixed(0)}%]`;
   }
-  return `¹ ${citation.source} (uploaded ${citation.uploadDate})`;
+  return citation.type === 'web'
+    ? `[${citation.number}] ${citation.source} - ${citation.url}`
+    : `[${citation.number}] ${citation.source}${citation.validationScore !== undefined ? ` (validation: ${(citation.validationScore * 100).toFixed(0)}%)` : ''}`;
 }
 
 /**
@@ -31,8 +207,8 @@ export function buildKBContext(results: Array<{
   if (results.length === 0) {
     return 'No relevant knowledge base documents found.';
   }
-  
-  return results.map((result, i) => 
+
+  return results.map((result, i) =>
     `[KB Source ${i+1}] ${result.source} (validation: ${(result.validationScore * 100).toFixed(0)}%):\n${result.content}`
   ).join('\n\n');
 }
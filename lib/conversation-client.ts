@@ -0,0 +1,43 @@
+/**
+ * Client helpers for conversation history
+ */
+
+export type ExportFormat = 'markdown' | 'json' | 'pdf';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  pdf: 'PDF',
+  json: 'JSON',
+};
+
+/**
+ * Download a conversation export. Goes through fetch because the
+ * session header cannot be attached to a plain link.
+ */
+export async function downloadConversationExport(
+  sessionId: string,
+  conversationId: string,
+  format: ExportFormat
+): Promise<void> {
+  const response = await fetch(
+    `/api/conversations/${encodeURIComponent(conversationId)}/export?format=${format}`,
+    { headers: { 'x-session-id': sessionId } }
+  );
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Export failed');
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `conversation.${format === 'markdown' ? 'md' : format}`;
+
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
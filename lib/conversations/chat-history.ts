@@ -0,0 +1,67 @@
+import { appendResponseMessages, type Message } from 'ai';
+import { logger } from '../logger';
+import { getConversationStore, titleFromMessage } from './index';
+import type { StoredMessage } from './types';
+
+type ResponseMessages = Parameters<typeof appendResponseMessages>[0]['responseMessages'];
+
+function toStoredMessage(message: Message): StoredMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    createdAt: new Date(message.createdAt ?? Date.now()).toISOString(),
+    ...(message.toolInvocations?.length ? { toolInvocations: message.toolInvocations } : {}),
+  };
+}
+
+/**
+ * Create the conversation on its first message, titled after that message.
+ * Persistence must never break the chat itself, so failures are only logged.
+ */
+export async function ensureConversation(sessionId: string, conversationId: string, messages: Message[]): Promise<boolean> {
+  try {
+    const store = getConversationStore();
+    if (await store.get(sessionId, conversationId)) {
+      return true;
+    }
+
+    const firstUserMessage = messages.find(m => m.role === 'user');
+    await store.create(sessionId, {
+      id: conversationId,
+      title: titleFromMessage(firstUserMessage?.content || ''),
+    });
+
+    logger.info('CONVERSATION_CREATED', `Created conversation ${conversationId}`, { conversationId });
+    return true;
+  } catch (error) {
+    logger.error('CONVERSATION_SAVE_ERROR', `Could not create conversation ${conversationId}`, error);
+    return false;
+  }
+}
+
+/**
+ * Persist one chat turn: the user message that started it plus the assistant
+ * message(s) built from the response, tool invocations included.
+ */
+export async function saveChatTurn(
+  sessionId: string,
+  conversationId: string,
+  requestMessages: Message[],
+  responseMessages: ResponseMessages
+): Promise<void> {
+  try {
+    const allMessages = appendResponseMessages({ messages: requestMessages, responseMessages });
+    // Earlier messages were saved by earlier turns
+    const turn = allMessages.slice(Math.max(0, requestMessages.length - 1));
+
+    await getConversationStore().saveMessages(sessionId, conversationId, turn.map(toStoredMessage));
+
+    logger.info('CONVERSATION_SAVED', `Saved ${turn.length} message(s) to conversation ${conversationId}`, {
+      conversationId,
+      messages: turn.length
+    });
+  } catch (error) {
+    logger.error('CONVERSATION_SAVE_ERROR', `Could not save messages to conversation ${conversationId}`, error);
+  }
+}
@@ -0,0 +1,262 @@
+import PDFDocument from 'pdfkit';
+import { CITATION_PATTERN, parseCitation, type CitedSource } from '../citations';
+import type { ConversationWithMessages, StoredMessage } from './types';
+
+/**
+ * Conversation export (Markdown, JSON, PDF).
+ *
+ * Inline citations - `[Source: file.pdf, validation: 77%]`, `[Source: https://...]`
+ * or several comma-separated in one bracket - are resolved against the tool
+ * results stored with each message and turned into numbered references.
+ */
+
+export type ExportFormat = 'markdown' | 'json' | 'pdf';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'json', 'pdf'];
+
+export interface Reference {
+  number: number;
+  type: 'kb' | 'web';
+  source: string; // KB filename or web URL
+  title?: string; // Web page title from searchWeb
+  validationScore?: number; // 0-1, KB only
+}
+
+export interface ExportedFile {
+  body: string | Buffer;
+  contentType: string;
+  filename: string;
+}
+
+interface ResolvedMessage {
+  message: StoredMessage;
+  text: string; // Citations replaced by [n] markers
+  citations: number[];
+}
+
+interface KnownSources {
+  kb: Map<string, number>; // lower-cased filename → best validation score
+  web: Map<string, string>; // normalised URL → title
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  user: 'You',
+  assistant: 'OnlyFin',
+  system: 'System',
+};
+
+function normaliseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '').toLowerCase();
+}
+
+/**
+ * Sources the model actually saw, from searchKnowledgeBase / searchWeb results
+ */
+function collectKnownSources(messages: StoredMessage[]): KnownSources {
+  const known: KnownSources = { kb: new Map(), web: new Map() };
+
+  for (const message of messages) {
+    for (const invocation of (message.toolInvocations || []) as any[]) {
+      const results: any[] = invocation?.result?.results || [];
+
+      if (invocation?.toolName === 'searchKnowledgeBase') {
+        for (const result of results) {
+          if (typeof result?.source !== 'string') continue;
+          const key = result.source.toLowerCase();
+          const score = typeof result.validationScore === 'number' ? result.validationScore : 0;
+          known.kb.set(key, Math.max(known.kb.get(key) ?? 0, score));
+        }
+      } else if (invocation?.toolName === 'searchWeb') {
+        for (const result of results) {
+          if (typeof result?.url !== 'string') continue;
+          known.web.set(normaliseUrl(result.url), result.title || '');
+        }
+      }
+    }
+  }
+
+  return known;
+}
+
+/**
+ * Replace inline citations with numbered markers and build the reference list
+ */
+export function resolveCitations(messages: StoredMessage[]): { messages: ResolvedMessage[]; references: Reference[] } {
+  const known = collectKnownSources(messages);
+  const references: Reference[] = [];
+  const byKey = new Map<string, Reference>();
+
+  const referenceFor = (cited: CitedSource): Reference => {
+    const key = cited.type === 'web' ? `web:${normaliseUrl(cited.source)}` : `kb:${cited.source.toLowerCase()}`;
+    let reference = byKey.get(key);
+
+    if (!reference) {
+      reference = { number: references.length + 1, type: cited.type, source: cited.source };
+      if (cited.type === 'web') {
+        const title = known.web.get(normaliseUrl(cited.source));
+        if (title) reference.title = title;
+      } else {
+        // Prefer the score the tool reported over the one the model wrote
+        const score = known.kb.get(cited.source.toLowerCase()) ?? cited.validationScore;
+        if (score !== undefined) reference.validationScore = score;
+      }
+      references.push(reference);
+      byKey.set(key, reference);
+    }
+
+    return reference;
+  };
+
+  const resolved = messages.map(message => {
+    const citations = new Set<number>();
+    const text = message.content.replace(CITATION_PATTERN, (_, inner: string) => {
+      const numbers = parseCitation(inner).map(cited => referenceFor(cited).number);
+      numbers.forEach(n => citations.add(n));
+      return numbers.map(n => `[${n}]`).join('');
+    });
+
+    return { message, text, citations: Array.from(citations) };
+  });
+
+  return { messages: resolved, references };
+}
+
+function describeReference(reference: Reference): string {
+  if (reference.type === 'web') {
+    return reference.title ? `${reference.title} - ${reference.source}` : reference.source;
+  }
+  const score = reference.validationScore !== undefined
+    ? `, validation ${Math.round(reference.validationScore * 100)}%`
+    : '';
+  return `${reference.source} (K-Base document${score})`;
+}
+
+function exportableMessages(conversation: ConversationWithMessages): StoredMessage[] {
+  return conversation.messages.filter(m => (m.role === 'user' || m.role === 'assistant') && m.content.trim());
+}
+
+function safeFilename(title: string): string {
+  return title.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').slice(0, 60) || 'conversation';
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }) + ' UTC';
+}
+
+export function toMarkdown(conversation: ConversationWithMessages): string {
+  const { messages, references } = resolveCitations(exportableMessages(conversation));
+
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `_Exported from OnlyFin on ${formatDate(new Date().toISOString())}_`,
+    '',
+  ];
+
+  for (const { message, text } of messages) {
+    lines.push(`**${ROLE_LABELS[message.role] || message.role}** · ${formatDate(message.createdAt)}`, '', text.trim(), '');
+  }
+
+  if (references.length > 0) {
+    lines.push('## References', '');
+    for (const reference of references) {
+      const label = reference.type === 'web'
+        ? `[${reference.title || reference.source}](${reference.source})`
+        : describeReference(reference);
+      lines.push(`${reference.number}. ${label}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+export function toJSON(conversation: ConversationWithMessages) {
+  const { messages, references } = resolveCitations(exportableMessages(conversation));
+
+  return {
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      id: conversation.id,
+      title: conversation.title,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+    },
+    messages: messages.map(({ message, citations }) => ({
+      id: message.id,
+      role: message.role,
+      createdAt: message.createdAt,
+      content: message.content, // Original text, inline citations untouched
+      citations,
+    })),
+    references,
+  };
+}
+
+/**
+ * Markdown emphasis, headings and code marks are noise in a plain-text PDF
+ */
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/__(.+?)__/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/^\s*[-*]\s+/gm, '• ')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)]+)\)/g, '$1 ($2)');
+}
+
+export function toPDF(conversation: ConversationWithMessages): Promise<Buffer> {
+  const { messages, references } = resolveCitations(exportableMessages(conversation));
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 56, info: { Title: conversation.title, Creator: 'OnlyFin' } });
+    const buffers: Buffer[] = [];
+    doc.on('data', chunk => buffers.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(buffers)));
+    doc.on('error', reject);
+
+    doc.font('Helvetica-Bold').fontSize(18).text(conversation.title);
+    doc.moveDown(0.3);
+    doc.font('Helvetica').fontSize(9).fillColor('#666666').text(`Exported from OnlyFin on ${formatDate(new Date().toISOString())}`);
+    doc.moveDown();
+
+    for (const { message, text } of messages) {
+      doc.font('Helvetica-Bold').fontSize(11).fillColor('#5b21b6').text(ROLE_LABELS[message.role] || message.role, { continued: true });
+      doc.font('Helvetica').fontSize(9).fillColor('#666666').text(`   ${formatDate(message.createdAt)}`);
+      doc.moveDown(0.2);
+      doc.font('Helvetica').fontSize(11).fillColor('#111111').text(stripMarkdown(text.trim()), { lineGap: 2 });
+      doc.moveDown();
+    }
+
+    if (references.length > 0) {
+      doc.moveDown(0.5);
+      doc.font('Helvetica-Bold').fontSize(14).fillColor('#111111').text('References');
+      doc.moveDown(0.3);
+      for (const reference of references) {
+        doc.font('Helvetica').fontSize(10).fillColor('#111111').text(`${reference.number}. `, { continued: true });
+        if (reference.type === 'web') {
+          doc.fillColor('#1d4ed8').text(describeReference(reference), { link: reference.source, underline: true });
+        } else {
+          doc.text(describeReference(reference));
+        }
+        doc.moveDown(0.2);
+      }
+    }
+
+    doc.end();
+  });
+}
+
+export async function exportConversation(conversation: ConversationWithMessages, format: ExportFormat): Promise<ExportedFile> {
+  const basename = safeFilename(conversation.title);
+
+  switch (format) {
+    case 'markdown':
+      return { body: toMarkdown(conversation), contentType: 'text/markdown; charset=utf-8', filename: `${basename}.md` };
+    case 'json':
+      return { body: JSON.stringify(toJSON(conversation), null, 2), contentType: 'application/json', filename: `${basename}.json` };
+    case 'pdf':
+      return { body: await toPDF(conversation), contentType: 'application/pdf', filename: `${basename}.pdf` };
+  }
+}
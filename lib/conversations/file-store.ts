@@ -0,0 +1,146 @@
+import { createHash, randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type {
+  Conversation,
+  ConversationStore,
+  ConversationWithMessages,
+  StoredMessage,
+} from './types';
+
+interface ConversationFile {
+  id: string;
+  sessionId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: StoredMessage[];
+}
+
+// Ids become file names - never let one escape its session directory
+const SAFE_ID = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function getConversationStoreDir(): string {
+  return process.env.CONVERSATION_STORE_DIR || join(process.cwd(), '.data', 'conversations');
+}
+
+function summarize(file: ConversationFile): Conversation {
+  return {
+    id: file.id,
+    sessionId: file.sessionId,
+    title: file.title,
+    createdAt: file.createdAt,
+    updatedAt: file.updatedAt,
+    messageCount: file.messages.length,
+  };
+}
+
+/**
+ * One JSON file per conversation, grouped in a directory per session.
+ * No native dependencies - for environments where SQLite is unavailable.
+ */
+export class FileConversationStore implements ConversationStore {
+  readonly kind = 'file' as const;
+
+  constructor(private readonly baseDir: string = getConversationStoreDir()) {}
+
+  private sessionDir(sessionId: string): string {
+    // Hash the session id so arbitrary header values make safe directory names
+    return join(this.baseDir, createHash('sha256').update(sessionId).digest('hex').slice(0, 32));
+  }
+
+  private filePath(sessionId: string, id: string): string | null {
+    return SAFE_ID.test(id) ? join(this.sessionDir(sessionId), `${id}.json`) : null;
+  }
+
+  private read(sessionId: string, id: string): ConversationFile | null {
+    const path = this.filePath(sessionId, id);
+    if (!path || !existsSync(path)) return null;
+    const file: ConversationFile = JSON.parse(readFileSync(path, 'utf-8'));
+    return file.sessionId === sessionId ? file : null;
+  }
+
+  private write(file: ConversationFile) {
+    const dir = this.sessionDir(file.sessionId);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    // Temp file + rename so a crash never leaves half a file
+    const path = this.filePath(file.sessionId, file.id)!;
+    writeFileSync(`${path}.tmp`, JSON.stringify(file), 'utf-8');
+    renameSync(`${path}.tmp`, path);
+  }
+
+  async create(sessionId: string, options: { id?: string; title?: string } = {}): Promise<Conversation> {
+    const id = options.id || randomUUID();
+    if (!SAFE_ID.test(id)) {
+      throw new Error(`Invalid conversation id: ${id}`);
+    }
+    if (this.read(sessionId, id)) {
+      throw new Error(`Conversation ${id} already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const file: ConversationFile = {
+      id,
+      sessionId,
+      title: options.title || 'New conversation',
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+    };
+    this.write(file);
+    return summarize(file);
+  }
+
+  async list(sessionId: string): Promise<Conversation[]> {
+    const dir = this.sessionDir(sessionId);
+    if (!existsSync(dir)) return [];
+
+    return readdirSync(dir)
+      .filter(name => name.endsWith('.json'))
+      .map(name => this.read(sessionId, name.slice(0, -'.json'.length)))
+      .filter((file): file is ConversationFile => file !== null)
+      .map(summarize)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(sessionId: string, id: string): Promise<ConversationWithMessages | null> {
+    const file = this.read(sessionId, id);
+    return file ? { ...summarize(file), messages: file.messages } : null;
+  }
+
+  async rename(sessionId: string, id: string, title: string): Promise<Conversation | null> {
+    const file = this.read(sessionId, id);
+    if (!file) return null;
+    const updated = { ...file, title, updatedAt: new Date().toISOString() };
+    this.write(updated);
+    return summarize(updated);
+  }
+
+  async delete(sessionId: string, id: string): Promise<boolean> {
+    if (!this.read(sessionId, id)) return false;
+    unlinkSync(this.filePath(sessionId, id)!);
+    return true;
+  }
+
+  async saveMessages(sessionId: string, id: string, messages: StoredMessage[]): Promise<void> {
+    const file = this.read(sessionId, id);
+    if (!file) {
+      throw new Error(`Conversation ${id} not found`);
+    }
+
+    const merged = [...file.messages];
+    for (const message of messages) {
+      const index = merged.findIndex(m => m.id === message.id);
+      if (index === -1) {
+        merged.push(message);
+      } else {
+        // Keep the original timestamp and position
+        merged[index] = { ...message, createdAt: merged[index].createdAt };
+      }
+    }
+
+    this.write({ ...file, messages: merged, updatedAt: new Date().toISOString() });
+  }
+}
@@ -0,0 +1,50 @@
+import { logger } from '../logger';
+import { FileConversationStore } from './file-store';
+import { SqliteConversationStore } from './sqlite-store';
+import type { ConversationStore, ConversationStoreKind } from './types';
+
+export type {
+  Conversation,
+  ConversationStore,
+  ConversationStoreKind,
+  ConversationWithMessages,
+  MessageRole,
+  StoredMessage,
+} from './types';
+
+const MAX_TITLE_LENGTH = 60;
+
+// Client-chosen ids (the chat UI names a conversation before its first message)
+export const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+let store: ConversationStore | null = null;
+
+/**
+ * Backend selected via CONVERSATION_STORE (sqlite | file), defaulting to SQLite
+ */
+export function getConversationStoreKind(): ConversationStoreKind {
+  return process.env.CONVERSATION_STORE?.toLowerCase() === 'file' ? 'file' : 'sqlite';
+}
+
+export function getConversationStore(): ConversationStore {
+  if (!store) {
+    const kind = getConversationStoreKind();
+    store = kind === 'file' ? new FileConversationStore() : new SqliteConversationStore();
+
+    logger.info('CONVERSATION_STORE_SELECTED', `Using ${kind} conversation store`, { kind });
+  }
+  return store;
+}
+
+/**
+ * Title for a new conversation: the first user message, cut at a word boundary
+ */
+export function titleFromMessage(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (!text) return 'New conversation';
+  if (text.length <= MAX_TITLE_LENGTH) return text;
+
+  const cut = text.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+}
@@ -0,0 +1,188 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { logger } from '../logger';
+import type {
+  Conversation,
+  ConversationStore,
+  ConversationWithMessages,
+  MessageRole,
+  StoredMessage,
+} from './types';
+
+interface ConversationRow {
+  id: string;
+  session_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  message_count: number;
+}
+
+interface MessageRow {
+  id: string;
+  role: MessageRole;
+  content: string;
+  tool_invocations: string | null;
+  created_at: string;
+}
+
+export function getConversationDbPath(): string {
+  return process.env.CONVERSATION_DB_PATH || join(process.cwd(), '.data', 'conversations.db');
+}
+
+function toConversation(row: ConversationRow): Conversation {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    title: row.title,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    messageCount: row.message_count,
+  };
+}
+
+const CONVERSATION_COLUMNS = `
+  c.id, c.session_id, c.title, c.created_at, c.updated_at,
+  (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) AS message_count
+`;
+
+/**
+ * Conversation store in a single SQLite file (WAL mode, synchronous driver)
+ */
+export class SqliteConversationStore implements ConversationStore {
+  readonly kind = 'sqlite' as const;
+  private db: Database.Database | null = null;
+
+  constructor(private readonly dbPath: string = getConversationDbPath()) {}
+
+  private open(): Database.Database {
+    if (this.db) return this.db;
+
+    const dir = dirname(this.dbPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const db = new Database(this.dbPath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS conversations_session ON conversations (session_id, updated_at);
+      CREATE TABLE IF NOT EXISTS messages (
+        conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+        id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        tool_invocations TEXT,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (conversation_id, id)
+      );
+    `);
+
+    logger.info('CONVERSATION_STORE_OPENED', 'Opened SQLite conversation store', {
+      dbPath: this.dbPath
+    });
+
+    this.db = db;
+    return db;
+  }
+
+  private getConversation(sessionId: string, id: string): Conversation | null {
+    const row = this.open()
+      .prepare(`SELECT ${CONVERSATION_COLUMNS} FROM conversations c WHERE c.id = ? AND c.session_id = ?`)
+      .get(id, sessionId) as ConversationRow | undefined;
+    return row ? toConversation(row) : null;
+  }
+
+  async create(sessionId: string, options: { id?: string; title?: string } = {}): Promise<Conversation> {
+    const now = new Date().toISOString();
+    const id = options.id || randomUUID();
+    // Throws on a taken id (primary key), including ids owned by other sessions
+    this.open()
+      .prepare('INSERT INTO conversations (id, session_id, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+      .run(id, sessionId, options.title || 'New conversation', now, now);
+    return { id, sessionId, title: options.title || 'New conversation', createdAt: now, updatedAt: now, messageCount: 0 };
+  }
+
+  async list(sessionId: string): Promise<Conversation[]> {
+    const rows = this.open()
+      .prepare(`SELECT ${CONVERSATION_COLUMNS} FROM conversations c WHERE c.session_id = ? ORDER BY c.updated_at DESC`)
+      .all(sessionId) as ConversationRow[];
+    return rows.map(toConversation);
+  }
+
+  async get(sessionId: string, id: string): Promise<ConversationWithMessages | null> {
+    const conversation = this.getConversation(sessionId, id);
+    if (!conversation) return null;
+
+    const rows = this.open()
+      .prepare('SELECT id, role, content, tool_invocations, created_at FROM messages WHERE conversation_id = ? ORDER BY position')
+      .all(id) as MessageRow[];
+
+    return {
+      ...conversation,
+      messages: rows.map(row => ({
+        id: row.id,
+        role: row.role,
+        content: row.content,
+        createdAt: row.created_at,
+        ...(row.tool_invocations ? { toolInvocations: JSON.parse(row.tool_invocations) } : {}),
+      })),
+    };
+  }
+
+  async rename(sessionId: string, id: string, title: string): Promise<Conversation | null> {
+    const result = this.open()
+      .prepare('UPDATE conversations SET title = ?, updated_at = ? WHERE id = ? AND session_id = ?')
+      .run(title, new Date().toISOString(), id, sessionId);
+    return result.changes > 0 ? this.getConversation(sessionId, id) : null;
+  }
+
+  async delete(sessionId: string, id: string): Promise<boolean> {
+    const result = this.open()
+      .prepare('DELETE FROM conversations WHERE id = ? AND session_id = ?')
+      .run(id, sessionId);
+    return result.changes > 0;
+  }
+
+  async saveMessages(sessionId: string, id: string, messages: StoredMessage[]): Promise<void> {
+    const db = this.open();
+    const upsert = db.prepare(`
+      INSERT INTO messages (conversation_id, id, position, role, content, tool_invocations, created_at)
+      VALUES (?, ?, (SELECT COALESCE(MAX(position), -1) + 1 FROM messages WHERE conversation_id = ?), ?, ?, ?, ?)
+      ON CONFLICT (conversation_id, id) DO UPDATE SET
+        content = excluded.content,
+        tool_invocations = excluded.tool_invocations
+    `);
+
+    db.transaction(() => {
+      const touched = db
+        .prepare('UPDATE conversations SET updated_at = ? WHERE id = ? AND session_id = ?')
+        .run(new Date().toISOString(), id, sessionId);
+      if (touched.changes === 0) {
+        throw new Error(`Conversation ${id} not found`);
+      }
+      for (const message of messages) {
+        upsert.run(
+          id,
+          message.id,
+          id,
+          message.role,
+          message.content,
+          message.toolInvocations ? JSON.stringify(message.toolInvocations) : null,
+          message.createdAt
+        );
+      }
+    })();
+  }
+}
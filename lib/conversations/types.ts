@@ -0,0 +1,49 @@
+/**
+ * Conversation persistence shared by the SQLite and file backends.
+ * Every read and write is scoped by session id - a conversation id from
+ * another session behaves as if it does not exist.
+ */
+
+export type MessageRole = 'system' | 'user' | 'assistant' | 'data';
+
+export interface StoredMessage {
+  id: string;
+  role: MessageRole;
+  content: string;
+  createdAt: string;
+  toolInvocations?: unknown[]; // AI SDK ToolInvocation objects, stored as-is
+}
+
+export interface Conversation {
+  id: string;
+  sessionId: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export interface ConversationWithMessages extends Conversation {
+  messages: StoredMessage[];
+}
+
+export type ConversationStoreKind = 'sqlite' | 'file';
+
+export interface ConversationStore {
+  readonly kind: ConversationStoreKind;
+
+  /** Create a conversation; `id` lets the client pick it (throws if taken) */
+  create(sessionId: string, options?: { id?: string; title?: string }): Promise<Conversation>;
+
+  /** Conversations of a session, most recently updated first */
+  list(sessionId: string): Promise<Conversation[]>;
+
+  get(sessionId: string, id: string): Promise<ConversationWithMessages | null>;
+
+  rename(sessionId: string, id: string, title: string): Promise<Conversation | null>;
+
+  delete(sessionId: string, id: string): Promise<boolean>;
+
+  /** Insert or update messages by id, keeping first-insert order */
+  saveMessages(sessionId: string, id: string, messages: StoredMessage[]): Promise<void>;
+}
@@ -0,0 +1,189 @@
+import { logger } from '../logger';
+
+/**
+ * Prompt-injection screening for text the model reads as tool output
+ * (uploaded chunks and web results).
+ *
+ * Pattern based rather than LLM based: it runs on every chunk of every
+ * upload, and an LLM classifier reading the text would be exposed to the
+ * same injection. Matches are scored; strong signals ("ignore previous
+ * instructions", chat-template tokens) flag on their own, weaker ones
+ * ("from now on you will") only in combination.
+ *
+ * - neutralise (default): the sentences that matched are replaced by a marker
+ * - quarantine: uploaded chunks are stored but excluded from search; web results are dropped
+ * - off: no scanning
+ */
+
+export type InjectionAction = 'off' | 'neutralise' | 'quarantine';
+
+export const INJECTION_ACTIONS: InjectionAction[] = ['off', 'neutralise', 'quarantine'];
+
+export interface InjectionMatch {
+  pattern: string;
+  index: number;
+  text: string;
+}
+
+export interface InjectionScan {
+  detected: boolean;
+  score: number; // Sum of matched pattern weights
+  patterns: string[]; // Names of the patterns that matched
+  matches: InjectionMatch[];
+}
+
+export const NEUTRALISED_MARKER = '[removed: instruction-like text]';
+
+const DETECTION_THRESHOLD = 1;
+
+const PATTERNS: Array<{ name: string; weight: number; regex: RegExp }> = [
+  {
+    name: 'ignore-instructions',
+    weight: 1,
+    // Imperative only: at the start of a sentence/clause, so "a bank may ignore prior instructions" passes
+    regex: /(?<=^|[.!?:;\n]\s*|\b(?:please|now|and|then|just)\s+)(?:ignore|disregard|forget|skip)\s+(?:all\s+|any\s+|the\s+|your\s+)*(?:previous|prior|above|earlier|preceding|original|system)\s+(?:instructions?|prompts?|rules|directions|guidelines|messages?)/gi,
+  },
+  {
+    name: 'override-instructions',
+    weight: 1,
+    regex: /\b(?:override|bypass|replace)\s+(?:all\s+|any\s+|the\s+|your\s+)*(?:instructions?|system\s+prompt|rules|guidelines|safety)/gi,
+  },
+  {
+    name: 'reveal-prompt',
+    weight: 1,
+    regex: /\b(?:reveal|print|repeat|output|show|leak)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+prompt|hidden\s+instructions|initial\s+instructions|instructions)/gi,
+  },
+  {
+    name: 'chat-template-token',
+    weight: 1,
+    regex: /<\|(?:im_start|im_end|system|endoftext)\|>|\[\/?INST\]|<\/?(?:system|assistant)>|^#{2,}\s*(?:system|instructions?)\s*:?\s*$/gim,
+  },
+  {
+    name: 'new-instructions',
+    weight: 1,
+    regex: /\b(?:new|updated|real|actual)\s+(?:instructions|system\s+prompt)\s*:/gi,
+  },
+  {
+    name: 'address-assistant',
+    weight: 0.5,
+    regex: /\b(?:note|message|instructions?)\s+(?:to|for)\s+(?:the\s+)?(?:ai|assistant|chatbot|language\s+model|llm|model)\b|\b(?:hey|attention|dear)\s+(?:ai|assistant|chatgpt|chatbot|llm)\b/gi,
+  },
+  {
+    name: 'role-change',
+    weight: 0.5,
+    regex: /\byou\s+are\s+now\s+(?:a|an|in|the)\b|\bfrom\s+now\s+on,?\s+you\s+(?:will|must|should|are)\b|\bpretend\s+(?:to\s+be|you\s+are)\b/gi,
+  },
+  {
+    name: 'forced-response',
+    weight: 0.5,
+    regex: /\byou\s+(?:must|should)\s+(?:always\s+)?(?:recommend|respond|answer|reply|say|tell\s+the\s+user)\b|\balways\s+recommend\b/gi,
+  },
+  {
+    name: 'conceal-from-user',
+    weight: 0.5,
+    regex: /\b(?:do\s+not|don't|never)\s+(?:tell|inform|mention\s+(?:this\s+)?to|reveal\s+(?:this\s+)?to|let)\s+the\s+user\b/gi,
+  },
+];
+
+export function getInjectionAction(): InjectionAction {
+  const action = (process.env.INJECTION_GUARD_ACTION || 'neutralise').toLowerCase() as InjectionAction;
+  return INJECTION_ACTIONS.includes(action) ? action : 'neutralise';
+}
+
+export function scanForInjection(text: string): InjectionScan {
+  const matches: InjectionMatch[] = [];
+  let score = 0;
+
+  for (const { name, weight, regex } of PATTERNS) {
+    const found = Array.from(text.matchAll(regex));
+    if (found.length === 0) continue;
+    score += weight;
+    for (const match of found) {
+      matches.push({ pattern: name, index: match.index ?? 0, text: match[0] });
+    }
+  }
+
+  return {
+    detected: score >= DETECTION_THRESHOLD,
+    score,
+    patterns: Array.from(new Set(matches.map(m => m.pattern))),
+    matches: matches.sort((a, b) => a.index - b.index),
+  };
+}
+
+/**
+ * Replace each sentence (or line) containing a match with NEUTRALISED_MARKER
+ */
+export function neutraliseInjection(text: string, scan: InjectionScan): string {
+  const ranges: Array<[number, number]> = [];
+
+  for (const match of scan.matches) {
+    let start = match.index;
+    while (start > 0 && !/[.!?\n]/.test(text[start - 1])) start--;
+    let end = match.index + match.text.length;
+    while (end < text.length && !/[.!?\n]/.test(text[end])) end++;
+    if (end < text.length && text[end] !== '\n') end++; // Keep the line break, drop the full stop
+
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  let result = '';
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    const leading = text.slice(start, end).match(/^\s*/)![0];
+    result += text.slice(cursor, start) + leading + NEUTRALISED_MARKER;
+    cursor = end;
+  }
+  return result + text.slice(cursor);
+}
+
+export interface ScreenedWebResult {
+  injectionDetected?: boolean;
+}
+
+/**
+ * Screen web results before the model sees them: flagged results are
+ * neutralised (or dropped when quarantining)
+ */
+export function screenWebResults<T extends { url: string; title: string; content: string }>(
+  results: T[],
+  action: InjectionAction = getInjectionAction()
+): { results: Array<T & ScreenedWebResult>; flagged: number } {
+  if (action === 'off') return { results, flagged: 0 };
+
+  let flagged = 0;
+  const screened: Array<T & ScreenedWebResult> = [];
+
+  for (const result of results) {
+    const scan = scanForInjection(`${result.title}\n${result.content}`);
+    if (!scan.detected) {
+      screened.push(result);
+      continue;
+    }
+
+    flagged++;
+    logger.warn('INJECTION_DETECTED', `Possible prompt injection in web result ${result.url}`, {
+      source: 'web',
+      url: result.url,
+      action,
+      score: scan.score,
+      patterns: scan.patterns
+    });
+
+    if (action === 'neutralise') {
+      screened.push({
+        ...result,
+        title: neutraliseInjection(result.title, scanForInjection(result.title)),
+        content: neutraliseInjection(result.content, scanForInjection(result.content)),
+        injectionDetected: true,
+      });
+    }
+  }
+
+  return { results: screened, flagged };
+}
@@ -0,0 +1,226 @@
+/**
+ * PII detection and redaction.
+ *
+ * Runs on extracted document text before chunking (so nothing downstream -
+ * validator, embeddings, vector store payloads - sees the raw values) and on
+ * log messages and field values. Checksums (Luhn, IBAN mod 97, Verhoeff) and
+ * context rules (separators or a nearby keyword for unformatted card, phone and
+ * Aadhaar numbers) keep amounts, timestamps and reference numbers from being redacted.
+ */
+
+export type PIIEntityType = 'card' | 'iban' | 'ssn' | 'pan' | 'aadhaar' | 'phone' | 'email';
+
+export const PII_ENTITY_TYPES: PIIEntityType[] = ['card', 'iban', 'ssn', 'pan', 'aadhaar', 'phone', 'email'];
+
+export type RedactionCounts = Partial<Record<PIIEntityType, number>>;
+
+/** A replaced range, in offsets of the original text */
+export interface RedactionEdit {
+  start: number;
+  end: number;
+  replacementLength: number;
+}
+
+export interface RedactionResult {
+  text: string;
+  counts: RedactionCounts;
+  total: number;
+  edits: RedactionEdit[];
+}
+
+const ENTITY_LABELS: Record<PIIEntityType, [string, string]> = {
+  card: ['card number', 'card numbers'],
+  iban: ['IBAN', 'IBANs'],
+  ssn: ['SSN', 'SSNs'],
+  pan: ['PAN', 'PANs'],
+  aadhaar: ['Aadhaar number', 'Aadhaar numbers'],
+  phone: ['phone number', 'phone numbers'],
+  email: ['email address', 'email addresses'],
+};
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function ibanValid(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + parseInt(digit, 10)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7], [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3], [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7], [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+// Aadhaar numbers carry a Verhoeff check digit
+function verhoeffValid(digits: string): boolean {
+  let c = 0;
+  for (let i = 0; i < digits.length; i++) {
+    c = VERHOEFF_D[c][VERHOEFF_P[i % 8][parseInt(digits[digits.length - 1 - i], 10)]];
+  }
+  return c === 0;
+}
+
+// How far before a match to look for a context keyword
+const CONTEXT_CHARS = 30;
+const CARD_CONTEXT = /\b(?:card|visa|master ?card|amex|american express|rupay|maestro|discover|diners)\b/i;
+const PHONE_CONTEXT = /\b(?:phone|mobile|mob|cell|tel|telephone|contact|whatsapp|call)\b/i;
+const AADHAAR_CONTEXT = /\b(?:aadhaar|aadhar|uid|uidai)\b/i;
+
+// A bare digit run is only a card, phone or Aadhaar number with a keyword just before it
+function formattedOrInContext(match: string, before: string, context: RegExp): boolean {
+  return /\D/.test(match) || context.test(before);
+}
+
+// Checked in this order; a range claimed by one type is not matched again
+const DETECTORS: Array<{
+  type: PIIEntityType;
+  regex: RegExp;
+  valid?: (match: string, before: string) => boolean;
+  replace: (match: string) => string;
+}> = [
+  {
+    type: 'card',
+    regex: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g,
+    valid: (match, before) => formattedOrInContext(match, before, CARD_CONTEXT)
+      && luhnValid(digitsOf(match)) && !/^0+$/.test(digitsOf(match)),
+    replace: match => `[CARD ****${digitsOf(match).slice(-4)}]`,
+  },
+  {
+    type: 'iban',
+    regex: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g,
+    valid: ibanValid,
+    replace: match => `[IBAN ****${match.replace(/\s/g, '').slice(-4)}]`,
+  },
+  {
+    type: 'aadhaar',
+    regex: /(?<![\d-])[2-9]\d{3}[ -]?\d{4}[ -]?\d{4}(?![\d-])/g,
+    // UPI and bank references are 12 digits too, so unformatted runs need a keyword
+    valid: (match, before) => formattedOrInContext(match, before, AADHAAR_CONTEXT) && verhoeffValid(digitsOf(match)),
+    replace: () => '[AADHAAR]',
+  },
+  {
+    type: 'ssn',
+    regex: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b|\b(?:SSN|social security (?:no\.?|number))[:#]?\s*\d{9}\b/gi,
+    replace: () => '[SSN]',
+  },
+  {
+    type: 'pan',
+    regex: /\b[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]\b/g,
+    replace: () => '[PAN]',
+  },
+  {
+    type: 'email',
+    regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    replace: () => '[EMAIL]',
+  },
+  {
+    type: 'phone',
+    regex: /(?<![\w+])(?:\+\d{1,3}[ .-]?(?:\(\d{1,4}\)[ .-]?)?\d{2,5}(?:[ .-]?\d{2,5}){1,3}|\(\d{3}\) ?\d{3}[ .-]\d{4}|\d{3}[.-]\d{3}[.-]\d{4}|[6-9]\d{4}[ -]?\d{5})(?![\w-])/g,
+    valid: (match, before) => formattedOrInContext(match, before, PHONE_CONTEXT)
+      && digitsOf(match).length >= 8 && digitsOf(match).length <= 15,
+    replace: () => '[PHONE]',
+  },
+];
+
+/**
+ * Entity types redacted from uploads: PII_REDACT_TYPES as a comma-separated
+ * list, `none` to disable, all types by default
+ */
+export function getRedactionTypes(): PIIEntityType[] {
+  const configured = process.env.PII_REDACT_TYPES?.trim().toLowerCase();
+  if (!configured || configured === 'all') return PII_ENTITY_TYPES;
+  if (configured === 'none' || configured === 'off') return [];
+  return configured.split(',')
+    .map(type => type.trim() as PIIEntityType)
+    .filter(type => PII_ENTITY_TYPES.includes(type));
+}
+
+export function redactPII(text: string, types: PIIEntityType[] = PII_ENTITY_TYPES): RedactionResult {
+  const found: Array<RedactionEdit & { type: PIIEntityType; replacement: string }> = [];
+
+  for (const detector of DETECTORS) {
+    if (!types.includes(detector.type)) continue;
+
+    for (const match of Array.from(text.matchAll(detector.regex))) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (detector.valid && !detector.valid(match[0], text.slice(Math.max(0, start - CONTEXT_CHARS), start))) continue;
+      if (found.some(f => start < f.end && end > f.start)) continue;
+
+      const replacement = detector.replace(match[0]);
+      found.push({ start, end, replacementLength: replacement.length, type: detector.type, replacement });
+    }
+  }
+
+  found.sort((a, b) => a.start - b.start);
+
+  let result = '';
+  let cursor = 0;
+  const counts: RedactionCounts = {};
+  for (const edit of found) {
+    result += text.slice(cursor, edit.start) + edit.replacement;
+    cursor = edit.end;
+    counts[edit.type] = (counts[edit.type] || 0) + 1;
+  }
+  result += text.slice(cursor);
+
+  return {
+    text: result,
+    counts,
+    total: found.length,
+    edits: found.map(({ start, end, replacementLength }) => ({ start, end, replacementLength })),
+  };
+}
+
+/**
+ * Map an offset in the original text to the redacted text
+ */
+export function mapRedactedOffset(offset: number, edits: RedactionEdit[]): number {
+  let shift = 0;
+  for (const edit of edits) {
+    if (edit.start >= offset) break;
+    if (edit.end > offset) return edit.start + shift; // Inside a redacted value
+    shift += edit.replacementLength - (edit.end - edit.start);
+  }
+  return offset + shift;
+}
+
+/**
+ * "2 card numbers, 1 IBAN"
+ */
+export function describeRedactions(counts: RedactionCounts): string {
+  return PII_ENTITY_TYPES
+    .filter(type => counts[type])
+    .map(type => `${counts[type]} ${ENTITY_LABELS[type][counts[type] === 1 ? 0 : 1]}`)
+    .join(', ');
+}
@@ -1,5 +1,23 @@
+import { createHash } from 'crypto';
 import { generateText } from 'ai';
 import { openai } from '@ai-sdk/openai';
+import { logger } from '../logger';
+
+/**
+ * Topic guard: a cheap classifier run before the main model.
+ *
+ * - off (default): not called
+ * - advisory: classified alongside the answer and logged, never blocks
+ * - enforce: off-topic messages get a canned refusal instead of a model call
+ *
+ * Both advisory and enforce cost a gpt-4.1-nano call per message (an OpenAI key
+ * is needed whatever LLM_PROVIDER is). The previous turn goes to the classifier
+ * too, so follow-ups such as "and for last year?" are judged in context.
+ */
+
+export type TopicGuardMode = 'off' | 'advisory' | 'enforce';
+
+export const TOPIC_GUARD_MODES: TopicGuardMode[] = ['off', 'advisory', 'enforce'];
 
 export interface TopicCheckResult {
   isFinance: boolean;
@@ -7,10 +25,93 @@ export interface TopicCheckResult {
   reasoning: string;
 }
 
+/** The turn before the message being classified */
+export interface TopicContext {
+  previousUserMessage?: string;
+  previousAssistantMessage?: string;
+}
+
+export interface TopicGuardDecision {
+  mode: TopicGuardMode;
+  blocked: boolean;
+  offTopic: boolean; // Would be blocked in enforce mode
+  cached: boolean;
+  result: TopicCheckResult;
+}
+
+export interface TopicGuardStats {
+  mode: TopicGuardMode;
+  minConfidence: number;
+  checked: number;
+  offTopic: number;
+  blocked: number;
+  cacheHits: number;
+  errors: number;
+  offTopicRate: number; // offTopic / checked
+  blockRate: number; // blocked / checked
+  since: string;
+}
+
+export const TOPIC_REFUSAL = "I'm specifically designed to help with finance-related topics like budgeting, investments, loans, taxes, and financial planning. Is there a financial question I can help you with?";
+
+const CLASSIFICATION_FAILED = 'Classification failed, defaulting to allow';
+
+const CACHE_MAX_ENTRIES = 1000;
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Previous-turn text passed to the classifier is cut to this many characters
+const CONTEXT_MAX_CHARS = 500;
+
+// Classifications per normalised message + context hash; Map order doubles as LRU order
+const cache = new Map<string, { result: TopicCheckResult; expiresAt: number }>();
+
+const stats = {
+  checked: 0,
+  offTopic: 0,
+  blocked: 0,
+  cacheHits: 0,
+  errors: 0,
+  since: new Date().toISOString(),
+};
+
+export function getTopicGuardMode(): TopicGuardMode {
+  const mode = (process.env.TOPIC_GUARD_MODE || 'off').toLowerCase() as TopicGuardMode;
+  return TOPIC_GUARD_MODES.includes(mode) ? mode : 'off';
+}
+
+/**
+ * Off-topic verdicts below this confidence are let through
+ */
+function getMinConfidence(): number {
+  const value = parseFloat(process.env.TOPIC_GUARD_MIN_CONFIDENCE || '');
+  return Number.isFinite(value) ? value : 0.7;
+}
+
+function messageHash(message: string, context: TopicContext): string {
+  const normalise = (text: string = '') => text.trim().toLowerCase().replace(/\s+/g, ' ');
+  return createHash('sha256')
+    .update([message, context.previousUserMessage, context.previousAssistantMessage?.slice(0, CONTEXT_MAX_CHARS)].map(normalise).join('\n'))
+    .digest('hex');
+}
+
+/**
+ * Classifier input: the message, preceded by the previous turn when there is one
+ */
+function classifierInput(message: string, context: TopicContext): string {
+  const { previousUserMessage, previousAssistantMessage } = context;
+  if (!previousUserMessage && !previousAssistantMessage) return message;
+  return [
+    ...(previousUserMessage ? [`Previous user message: ${previousUserMessage.slice(0, CONTEXT_MAX_CHARS)}`] : []),
+    ...(previousAssistantMessage ? [`Previous assistant reply: ${previousAssistantMessage.slice(0, CONTEXT_MAX_CHARS)}`] : []),
+    '',
+    `Message to classify: ${message}`,
+  ].join('\n');
+}
+
 /**
  * Check if a message is finance-related using LLM classifier
  */
-export async function isFinanceRelated(message: string): Promise<TopicCheckResult> {
+export async function isFinanceRelated(message: string, context: TopicContext = {}): Promise<TopicCheckResult> {
   try {
     const { text } = await generateText({
       model: openai('gpt-4.1-nano'),
@@ -28,6 +129,9 @@ ALLOW (isFinance: true) - Set to TRUE for:
 2. Greetings: "Hi", "Hello", "Hey", "Good morning", "How are you?", "Thanks", "Thank you", "Bye"
 3. General inquiries: "What can you do?", "What are you?", "Who are you?", "Help", "What's your name?"
 
+4. Follow-ups that continue a finance conversation: when the previous turn is given, judge
+   short messages like "and for last year?" or "what about the other one?" in its context
+
 BLOCK (isFinance: false) - Set to FALSE only for:
 - Off-topic questions: weather, sports, cooking, entertainment, politics, health, science, technology (non-finance)
 - Requests for non-finance content: jokes, stories, poems, games
@@ -49,19 +153,93 @@ Respond ONLY with JSON:
 }`
       }, {
         role: 'user',
-        content: message
+        content: classifierInput(message, context)
       }]
     });
     
-    const result = JSON.parse(text);
-    return result;
+    return parseClassification(text);
   } catch (error) {
-    console.error('Topic guard error:', error);
+    stats.errors++;
+    logger.error('TOPIC_GUARD_ERROR', 'Topic classification failed, allowing message', error);
     // Default to allowing the message if classification fails
     return {
       isFinance: true,
       confidence: 0.5,
-      reasoning: 'Classification failed, defaulting to allow'
+      reasoning: CLASSIFICATION_FAILED
     };
   }
 }
+
+function parseClassification(text: string): TopicCheckResult {
+  const json = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+  const parsed = JSON.parse(json);
+  if (typeof parsed.isFinance !== 'boolean') {
+    throw new Error(`Unexpected classifier output: ${text.substring(0, 100)}`);
+  }
+  return {
+    isFinance: parsed.isFinance,
+    confidence: typeof parsed.confidence === 'number' ? parsed.confidence : 0.5,
+    reasoning: String(parsed.reasoning || ''),
+  };
+}
+
+/**
+ * Classify a user message in the context of the previous turn (cached) and
+ * decide whether the configured mode blocks it
+ */
+export async function checkTopic(
+  message: string,
+  mode: TopicGuardMode = getTopicGuardMode(),
+  context: TopicContext = {}
+): Promise<TopicGuardDecision> {
+  const key = messageHash(message, context);
+  const hit = cache.get(key);
+  let result: TopicCheckResult;
+  let cached = false;
+
+  if (hit && hit.expiresAt > Date.now()) {
+    result = hit.result;
+    cached = true;
+    stats.cacheHits++;
+    cache.delete(key);
+    cache.set(key, hit);
+  } else {
+    result = await isFinanceRelated(message, context);
+    // Failures default to allow; don't pin that answer
+    if (result.reasoning !== CLASSIFICATION_FAILED) {
+      cache.set(key, { result, expiresAt: Date.now() + CACHE_TTL_MS });
+      if (cache.size > CACHE_MAX_ENTRIES) {
+        cache.delete(cache.keys().next().value as string);
+      }
+    }
+  }
+
+  const offTopic = !result.isFinance && result.confidence >= getMinConfidence();
+  const blocked = offTopic && mode === 'enforce';
+
+  stats.checked++;
+  if (offTopic) stats.offTopic++;
+  if (blocked) stats.blocked++;
+
+  logger.info('TOPIC_GUARD', `${blocked ? 'Blocked' : offTopic ? 'Flagged' : 'Allowed'} message (${mode})`, {
+    mode,
+    isFinance: result.isFinance,
+    confidence: result.confidence,
+    reasoning: result.reasoning,
+    cached,
+    blockRate: (stats.blocked / stats.checked).toFixed(3),
+    offTopicRate: (stats.offTopic / stats.checked).toFixed(3)
+  });
+
+  return { mode, blocked, offTopic, cached, result };
+}
+
+export function getTopicGuardStats(): TopicGuardStats {
+  return {
+    mode: getTopicGuardMode(),
+    minConfidence: getMinConfidence(),
+    ...stats,
+    offTopicRate: stats.checked > 0 ? stats.offTopic / stats.checked : 0,
+    blockRate: stats.checked > 0 ? stats.blocked / stats.checked : 0,
+  };
+}
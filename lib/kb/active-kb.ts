@@ -0,0 +1,137 @@
+import { getVectorStore, getCollectionName, type VectorStore } from './stores';
+import {
+  getConfiguredEmbeddingProvider,
+  getEmbeddingModelId,
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+} from './embeddings';
+import { logger } from '../logger';
+
+/**
+ * Active KB resolution.
+ *
+ * The collection (and the embedding model that produced its vectors) that
+ * serves reads and writes is recorded in a manifest point inside a small meta
+ * collection. Switching models is then a single-point upsert - atomic on both
+ * backends. Each instance caches the manifest for MANIFEST_TTL_MS, so reads on
+ * other instances may keep using the old collection for that long; writes ask
+ * for a `fresh` manifest, so a write started after the swap never lands in the
+ * old collection. Without a manifest, the collection is derived from the
+ * configured embedding provider.
+ */
+
+export interface KBManifest {
+  collection: string;
+  provider: string;
+  model: string;
+  dimension: number;
+  activatedAt: string;
+}
+
+export interface ActiveKB {
+  store: VectorStore;
+  provider: EmbeddingProvider;
+}
+
+export interface ActiveKBOptions {
+  fresh?: boolean; // Re-read the manifest instead of using the cached copy (before writes)
+}
+
+const META_COLLECTION = `${process.env.QDRANT_COLLECTION || 'onlyfinance-kb'}-meta`;
+const META_VECTOR = [1]; // Meta points are looked up by id, never searched
+
+// Fixed point ids inside the meta collection
+export const MANIFEST_POINT_ID = 1;
+export const MIGRATION_CHECKPOINT_POINT_ID = 2;
+
+// Reads on other instances pick up a swapped manifest within this window
+const MANIFEST_TTL_MS = 30 * 1000;
+
+let cachedManifest: { manifest: KBManifest | null; loadedAt: number } | null = null;
+
+function getMetaStore(): VectorStore {
+  return getVectorStore(META_COLLECTION, META_VECTOR.length);
+}
+
+/**
+ * Read a meta record (manifest, migration checkpoint) by point id
+ */
+export async function readMetaRecord<T>(id: number): Promise<T | null> {
+  const store = getMetaStore();
+  await store.ensureCollection();
+  const page = await store.scroll({ limit: 100, withPayload: true });
+  const point = page.points.find(p => String(p.id) === String(id));
+  return point ? (point.payload as T) : null;
+}
+
+/**
+ * Write a meta record in a single upsert
+ */
+export async function writeMetaRecord(id: number, record: object | null) {
+  const store = getMetaStore();
+  await store.ensureCollection();
+  if (record === null) {
+    await store.deleteByIds([id]);
+    return;
+  }
+  await store.upsert([{ id, vector: META_VECTOR, payload: { ...record } }]);
+}
+
+async function getManifest(fresh: boolean): Promise<KBManifest | null> {
+  if (!fresh && cachedManifest && Date.now() - cachedManifest.loadedAt < MANIFEST_TTL_MS) {
+    return cachedManifest.manifest;
+  }
+  try {
+    const manifest = await readMetaRecord<KBManifest>(MANIFEST_POINT_ID);
+    cachedManifest = { manifest, loadedAt: Date.now() };
+  } catch (error: any) {
+    // Fall back to the last known manifest (or the configured provider) rather than failing every KB call
+    logger.warn('ACTIVE_KB_MANIFEST_UNAVAILABLE', 'Could not read KB manifest, using last known or configured provider', {
+      error: error.message
+    });
+    cachedManifest = { manifest: cachedManifest?.manifest ?? null, loadedAt: Date.now() };
+  }
+  return cachedManifest.manifest;
+}
+
+/**
+ * Resolve the store + embedding provider that currently serve the KB
+ */
+export async function getActiveKB(options: ActiveKBOptions = {}): Promise<ActiveKB> {
+  const manifest = await getManifest(options.fresh ?? false);
+
+  if (manifest) {
+    const provider = getEmbeddingProvider(manifest.provider, manifest.model, manifest.dimension);
+    return {
+      store: getVectorStore(manifest.collection, manifest.dimension),
+      provider,
+    };
+  }
+
+  const provider = getConfiguredEmbeddingProvider();
+  return {
+    store: getVectorStore(getCollectionName(provider), provider.dimension),
+    provider,
+  };
+}
+
+/**
+ * Atomically point the KB at a collection built with the given provider
+ */
+export async function activateCollection(collection: string, provider: EmbeddingProvider) {
+  const manifest: KBManifest = {
+    collection,
+    provider: provider.name,
+    model: provider.model,
+    dimension: provider.dimension,
+    activatedAt: new Date().toISOString(),
+  };
+
+  await writeMetaRecord(MANIFEST_POINT_ID, manifest);
+  cachedManifest = { manifest, loadedAt: Date.now() };
+
+  logger.info('ACTIVE_KB_SWAPPED', `Active collection is now ${collection}`, {
+    collection,
+    modelId: getEmbeddingModelId(provider)
+  });
+}
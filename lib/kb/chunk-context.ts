@@ -0,0 +1,126 @@
+import type { StoredPoint } from './stores';
+import { getActiveKB } from './active-kb';
+import { getChunkPointId, parsePointId } from './point-ids';
+import { logger } from '../logger';
+
+/**
+ * A cited chunk plus its neighbours in the same document version, for the
+ * source viewer. Neighbour ids are derived (deterministic point ids), so no
+ * scan of the document is needed.
+ */
+
+export interface ChunkDetail {
+  id: string;
+  filename: string;
+  fileType?: string;
+  documentId: string | null;
+  version: number;
+  chunkIndex: number;
+  content: string;
+  validationScore: number;
+  validationReasoning?: string;
+  charStart?: number;
+  charEnd?: number;
+  pageStart?: number;
+  pageEnd?: number;
+  ocrConfidence?: number;
+  sectionPath?: string[];
+  uploadDate?: string;
+  sourceUrl?: string;
+  injectionAction?: 'neutralised' | 'quarantined';
+}
+
+export interface ChunkContext {
+  chunk: ChunkDetail;
+  previous: ChunkDetail[]; // Closest last
+  next: ChunkDetail[]; // Closest first
+}
+
+export const MAX_CHUNK_CONTEXT_RADIUS = 3;
+
+function toDetail(point: StoredPoint): ChunkDetail {
+  const p = point.payload;
+  return {
+    id: String(point.id),
+    filename: p.filename,
+    fileType: p.fileType,
+    documentId: p.documentId ?? null,
+    version: p.version ?? 0,
+    chunkIndex: p.chunkIndex,
+    content: p.content,
+    validationScore: p.validationScore ?? 0,
+    validationReasoning: p.validationReasoning,
+    charStart: p.charStart,
+    charEnd: p.charEnd,
+    pageStart: p.pageStart,
+    pageEnd: p.pageEnd,
+    ocrConfidence: p.ocrConfidence,
+    sectionPath: p.sectionPath,
+    uploadDate: p.uploadDate,
+    sourceUrl: p.sourceUrl,
+    injectionAction: p.injectionAction,
+  };
+}
+
+/**
+ * Returns null when the id is not a valid point id, or the chunk does not
+ * exist or belongs to another session
+ */
+export async function getChunkContext(
+  chunkId: string,
+  sessionId: string,
+  radius: number = 1
+): Promise<ChunkContext | null> {
+  // Qdrant rejects ids that are neither UUIDs nor unsigned integers
+  const pointId = parsePointId(chunkId);
+  if (pointId === null) {
+    return null;
+  }
+
+  const { store } = await getActiveKB();
+  await store.ensureCollection();
+
+  const [point] = await store.retrieve([pointId]);
+  if (!point || point.payload.sessionId !== sessionId) {
+    return null;
+  }
+
+  const chunk = toDetail(point);
+  const indexes: number[] = [];
+  for (let offset = -radius; offset <= radius; offset++) {
+    if (offset !== 0 && chunk.chunkIndex + offset >= 0) indexes.push(chunk.chunkIndex + offset);
+  }
+
+  let neighbours: StoredPoint[];
+  if (chunk.documentId) {
+    neighbours = await store.retrieve(
+      indexes.map(index => getChunkPointId(sessionId, chunk.documentId!, chunk.version, index))
+    );
+  } else {
+    // Chunks stored before document ids: look neighbours up by filename
+    const pages = await Promise.all(indexes.map(index => store.scroll({
+      filter: { sessionId, filename: chunk.filename, chunkIndex: index, archived: { not: true } },
+      limit: 1,
+      withPayload: true,
+    })));
+    neighbours = pages.flatMap(page => page.points);
+  }
+
+  const details = neighbours
+    .filter(p => p.payload.sessionId === sessionId)
+    .map(toDetail)
+    .sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+  logger.debug('KB_CHUNK_CONTEXT', `Loaded chunk ${chunk.chunkIndex} of ${chunk.filename} with ${details.length} neighbours`, {
+    chunkId,
+    filename: chunk.filename,
+    chunkIndex: chunk.chunkIndex,
+    neighbours: details.length
+  });
+
+  return {
+    chunk,
+    previous: details.filter(d => d.chunkIndex < chunk.chunkIndex),
+    next: details.filter(d => d.chunkIndex > chunk.chunkIndex),
+  };
+}
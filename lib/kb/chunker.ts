@@ -1,241 +1,347 @@
 import { logger } from '../logger';
+import { buildSectionTree, flattenSections, formatSectionPath } from './sections';
+import {
+  DEFAULT_CHUNK_OPTIONS,
+  getChunkingStrategy,
+  loadTokenizer,
+  type ChunkingStrategy,
+  type ChunkOptions,
+  type Tokenizer,
+} from './chunking';
+import type { DocumentHeading } from './text-extractor';
 
-export interface ChunkOptions {
-  maxTokens: number;
-  overlap: number;
-  preserveSentences: boolean;
-  preserveContext: boolean; // New: Keep financial context together
+export type { ChunkOptions } from './chunking';
+
+export type ChunkingMode = 'sections' | 'flat';
+
+/** A chunk of one section (or run of small sibling sections) */
+export interface SectionChunk {
+  content: string; // Heading path line + body: what is embedded and stored
+  body: string; // The chunk as it appears in the text, for locating it
+  sectionPath: string[];
 }
 
 /**
- * Intelligently chunk text while preserving sentence boundaries and financial context
- * Optimized for financial documents with special handling for:
- * - Lists (numbered/bulleted)
- * - Tables and structured data
- * - Definitions and explanations
- * - Examples and case studies
+ * Chunk text with a chunking strategy (CHUNKING_STRATEGY, by default the
+ * sentence packer, which is tuned for financial documents: lists,
+ * definitions and examples are kept together). Tables are chunked
+ * separately, whole or by rows with the header repeated.
  */
 export async function chunkText(
   text: string, 
-  options: ChunkOptions = {
-    maxTokens: 600, // Increased from 500 for better context
-    overlap: 100, // Increased from 50 for better continuity
-    preserveSentences: true,
-    preserveContext: true
-  }
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS,
+  strategy: ChunkingStrategy = getChunkingStrategy()
 ): Promise<string[]> {
   const startTime = Date.now();
   
   logger.info('CHUNKING_START', 'Starting text chunking', {
     textLength: text.length,
+    strategy: strategy.name,
     maxTokens: options.maxTokens,
     overlap: options.overlap,
     preserveContext: options.preserveContext
   });
   
-  // Try to use tiktoken, fallback to character-based chunking if it fails
-  let encoder: any = null;
+  const tokenizer = await loadTokenizer();
   try {
-    const tiktoken = await import('tiktoken');
-    encoder = tiktoken.encoding_for_model('gpt-4');
-    logger.debug('CHUNKING_ENCODER', 'Using tiktoken encoder');
-  } catch (error) {
-    logger.warn('CHUNKING_ENCODER_FALLBACK', 'Tiktoken not available, using character-based estimation', {
-      error: error instanceof Error ? error.message : 'Unknown error'
+    const { chunks: merged, tables: tableCount } = await chunkBlocks(text, options, strategy, tokenizer);
+    
+    logger.info('CHUNKING_COMPLETE', `Chunking completed in ${Date.now() - startTime}ms`, {
+      totalTime: Date.now() - startTime,
+      strategy: strategy.name,
+      inputLength: text.length,
+      outputChunks: merged.length,
+      tables: tableCount,
+      avgChunkLength: merged.length > 0 
+        ? Math.round(merged.reduce((sum, c) => sum + c.length, 0) / merged.length)
+        : 0,
+      chunkSizes: merged.map(c => c.length)
     });
-    // encoder will remain null, triggering fallback logic
+    
+    return merged;
+  } finally {
+    // Free encoder after all processing is done
+    tokenizer.free();
   }
-  
-  // Pre-process text to identify structural elements
-  const preprocessStart = Date.now();
-  const preprocessed = preprocessFinancialText(text);
-  logger.debug('CHUNKING_PREPROCESS', `Preprocessed text in ${Date.now() - preprocessStart}ms`, {
-    originalLength: text.length,
-    preprocessedLength: preprocessed.length
+}
+
+/**
+ * Structure-aware chunking: chunk each section of the document's heading tree
+ * on its own (chunks never straddle a heading) and lead every chunk with its
+ * heading path, e.g. "Income Tax › Section 4 › 4.2 Deductions". Consecutive
+ * small sibling sections are chunked together under their parent's path.
+ */
+export async function chunkSections(
+  text: string,
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS,
+  headings?: DocumentHeading[],
+  strategy: ChunkingStrategy = getChunkingStrategy()
+): Promise<SectionChunk[]> {
+  const startTime = Date.now();
+  const tree = buildSectionTree(text, headings);
+  const sections = flattenSections(tree, text);
+
+  logger.info('CHUNKING_START', 'Starting structure-aware chunking', {
+    textLength: text.length,
+    strategy: strategy.name,
+    maxTokens: options.maxTokens,
+    overlap: options.overlap,
+    headings: headings ? headings.length : 'markdown',
+    sections: sections.length
   });
-  
-  // Split by sentences while preserving structure
-  const sentences = preprocessed.match(/[^.!?]+[.!?]+/g) || [preprocessed];
-  
-  const chunks: string[] = [];
-  let currentChunk = '';
-  let currentTokens = 0;
-  let inList = false;
-  let listBuffer = '';
-  
-  for (let i = 0; i < sentences.length; i++) {
-    const sentence = sentences[i];
-    const sentenceTokens = encoder 
-      ? encoder.encode(sentence).length 
-      : estimateTokens(sentence);
-    
-    // Detect if we're in a list or structured content
-    const isListItem = /^\s*[-•*\d+.]\s/.test(sentence);
-    const isHeader = /^#{1,6}\s/.test(sentence) || /^[A-Z][^.!?]*:$/.test(sentence.trim());
-    
-    // Keep lists together
-    if (isListItem) {
-      if (!inList) {
-        inList = true;
-        listBuffer = sentence;
-      } else {
-        listBuffer += ' ' + sentence;
-      }
-      continue;
-    } else if (inList) {
-      // End of list, add it to current chunk
-      inList = false;
-      const listTokens = encoder 
-        ? encoder.encode(listBuffer).length 
-        : estimateTokens(listBuffer);
-      
-      if (currentTokens + listTokens > options.maxTokens && currentChunk) {
-        chunks.push(currentChunk.trim());
-        currentChunk = listBuffer;
-        currentTokens = listTokens;
-      } else {
-        currentChunk += ' ' + listBuffer;
-        currentTokens += listTokens;
-      }
-      listBuffer = '';
-    }
-    
-    // Start new chunk on headers if current chunk is substantial
-    if (isHeader && currentTokens > options.maxTokens * 0.5 && currentChunk) {
-      chunks.push(currentChunk.trim());
-      currentChunk = sentence;
-      currentTokens = sentenceTokens;
-      continue;
-    }
-    
-    // Normal sentence processing
-    if (currentTokens + sentenceTokens > options.maxTokens && currentChunk) {
-      chunks.push(currentChunk.trim());
-      
-      // Smart overlap: include previous context
-      if (options.overlap > 0) {
-        const overlapSentences = currentChunk
-          .split(/[.!?]+/)
-          .slice(-3) // Keep last 3 sentences for context
-          .join('. ') + '.';
-        currentChunk = overlapSentences + ' ' + sentence;
-        currentTokens = encoder 
-          ? encoder.encode(currentChunk).length 
-          : estimateTokens(currentChunk);
-      } else {
-        currentChunk = sentence;
-        currentTokens = sentenceTokens;
+
+  const tokenizer = await loadTokenizer();
+  const minTokens = options.maxTokens * 0.3;
+  const chunks: SectionChunk[] = [];
+  let tableCount = 0;
+
+  try {
+    for (let i = 0; i < sections.length; i++) {
+      let { path, charStart, bodyStart, bodyEnd } = sections[i];
+      let tokens = tokenizer.count(text.slice(bodyStart, bodyEnd));
+
+      // Fold following small siblings into a small section; the run keeps every heading line
+      while (tokens < minTokens && i + 1 < sections.length) {
+        const next = sections[i + 1];
+        const parent = path.slice(0, -1);
+        const isSibling = next.path.length === path.length && formatSectionPath(next.path.slice(0, -1)) === formatSectionPath(parent);
+        const nextTokens = tokenizer.count(text.slice(next.bodyStart, next.bodyEnd));
+        if (path.length === 0 || !isSibling || tokens + nextTokens > options.maxTokens) break;
+
+        path = parent;
+        bodyStart = charStart;
+        bodyEnd = next.bodyEnd;
+        tokens += nextTokens;
+        i++;
       }
-    } else {
-      currentChunk += ' ' + sentence;
-      currentTokens += sentenceTokens;
+
+      const result = await chunkBlocks(text.slice(bodyStart, bodyEnd), options, strategy, tokenizer);
+      tableCount += result.tables;
+      const prefix = path.length > 0 ? `${formatSectionPath(path)}\n\n` : '';
+      chunks.push(...result.chunks.map(body => ({ content: prefix + body, body, sectionPath: path })));
     }
+  } finally {
+    tokenizer.free();
   }
-  
-  // Add any remaining list buffer
-  if (inList && listBuffer) {
-    currentChunk += ' ' + listBuffer;
-  }
-  
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
-  }
-  
-  logger.debug('CHUNKING_INITIAL', `Created ${chunks.length} initial chunks`, {
-    chunkCount: chunks.length,
-    avgChunkSize: chunks.length > 0 
-      ? Math.round(chunks.reduce((sum, c) => sum + c.length, 0) / chunks.length)
-      : 0
-  });
-  
-  // Post-process: merge very small chunks (before freeing encoder)
-  const mergeStart = Date.now();
-  const merged = mergeSmallChunks(chunks, options.maxTokens * 0.3, encoder);
-  logger.debug('CHUNKING_MERGE', `Merged small chunks in ${Date.now() - mergeStart}ms`, {
-    before: chunks.length,
-    after: merged.length,
-    minTokens: Math.round(options.maxTokens * 0.3)
-  });
-  
-  // Free encoder after all processing is done
-  if (encoder) {
-    encoder.free();
-  }
-  
-  logger.info('CHUNKING_COMPLETE', `Chunking completed in ${Date.now() - startTime}ms`, {
+
+  logger.info('CHUNKING_COMPLETE', `Structure-aware chunking completed in ${Date.now() - startTime}ms`, {
     totalTime: Date.now() - startTime,
+    strategy: strategy.name,
     inputLength: text.length,
-    outputChunks: merged.length,
-    avgChunkLength: merged.length > 0 
-      ? Math.round(merged.reduce((sum, c) => sum + c.length, 0) / merged.length)
-      : 0,
-    chunkSizes: merged.map(c => c.length)
+    sections: sections.length,
+    outputChunks: chunks.length,
+    tables: tableCount,
+    avgChunkLength: chunks.length > 0
+      ? Math.round(chunks.reduce((sum, c) => sum + c.content.length, 0) / chunks.length)
+      : 0
   });
-  
-  return merged;
+
+  return chunks;
 }
 
 /**
- * Pre-process financial text to preserve structure
+ * CHUNKING_MODE: 'sections' (default) follows the heading structure;
+ * 'flat' chunks the whole text at once, ignoring headings
  */
-function preprocessFinancialText(text: string): string {
-  // Normalize line breaks
-  let processed = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-  
-  // Preserve table structures
-  processed = processed.replace(/\|(.+)\|/g, (match) => {
-    return match.replace(/\n/g, ' [NEWLINE] ');
-  });
-  
-  // Preserve numbered lists
-  processed = processed.replace(/(\d+\.)\s/g, '\n$1 ');
-  
-  // Preserve bullet points
-  processed = processed.replace(/([•\-*])\s/g, '\n$1 ');
-  
-  return processed;
+export function getChunkingMode(): ChunkingMode {
+  return process.env.CHUNKING_MODE === 'flat' ? 'flat' : 'sections';
 }
 
 /**
- * Estimate token count from character count (rough approximation)
- * Average: 1 token ≈ 4 characters for English text
+ * Tables become dedicated chunks; the text around them goes to the strategy
  */
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
+async function chunkBlocks(
+  text: string,
+  options: ChunkOptions,
+  strategy: ChunkingStrategy,
+  tokenizer: Tokenizer
+): Promise<{ chunks: string[]; tables: number }> {
+  const normalised = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+  const blocks = splitTableBlocks(normalised);
+  const chunks: string[] = [];
+  let tables = 0;
+
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    if (block.type === 'table') {
+      tables++;
+      chunks.push(...chunkTable(block.content, tableCaption(blocks[i - 1]), options.maxTokens, tokenizer));
+    } else if (block.content.trim()) {
+      // A lone title line goes into the table's chunks instead
+      const isCaptionOnly = blocks[i + 1]?.type === 'table' && tableCaption(block) === block.content.trim();
+      if (!isCaptionOnly) chunks.push(...await strategy.chunk(block.content, options, tokenizer));
+    }
+  }
+
+  return { chunks, tables };
+}
+
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|(?:\s*:?-{3,}:?\s*\|)+\s*$/;
+
+// A line right above a table shorter than this is taken as its title
+const MAX_CAPTION_LENGTH = 120;
+
+interface TextBlock {
+  type: 'text' | 'table';
+  content: string;
 }
 
 /**
- * Merge chunks that are too small
+ * Split text into running text and Markdown pipe tables (two or more
+ * consecutive `| ... |` lines, as the extractor emits them)
  */
-function mergeSmallChunks(chunks: string[], minTokens: number, encoder: any): string[] {
-  const merged: string[] = [];
-  let buffer = '';
-  
-  for (const chunk of chunks) {
-    const tokens = encoder 
-      ? encoder.encode(chunk).length 
-      : estimateTokens(chunk);
-    
-    if (tokens < minTokens && buffer) {
-      buffer += ' ' + chunk;
-    } else if (tokens < minTokens) {
-      buffer = chunk;
+function splitTableBlocks(text: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const lines = text.split('\n');
+  let prose: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    let end = i;
+    while (end < lines.length && TABLE_ROW.test(lines[end])) end++;
+
+    if (end - i >= 2) {
+      if (prose.length > 0) blocks.push({ type: 'text', content: prose.join('\n') });
+      prose = [];
+      blocks.push({ type: 'table', content: lines.slice(i, end).map(line => line.trim()).join('\n') });
+      i = end - 1;
     } else {
-      if (buffer) {
-        merged.push(buffer);
-        buffer = '';
-      }
-      merged.push(chunk);
+      prose.push(lines[i]);
     }
   }
-  
-  if (buffer) {
-    if (merged.length > 0) {
-      merged[merged.length - 1] += ' ' + buffer;
-    } else {
-      merged.push(buffer);
+
+  if (prose.length > 0) blocks.push({ type: 'text', content: prose.join('\n') });
+  return blocks;
+}
+
+function tableCaption(previous: TextBlock | undefined): string | null {
+  if (!previous || previous.type !== 'text') return null;
+  const lastLine = previous.content.trim().split('\n').pop()?.trim() || '';
+  return lastLine && lastLine.length <= MAX_CAPTION_LENGTH ? lastLine : null;
+}
+
+/**
+ * One chunk per table when it fits; otherwise runs of whole rows, each
+ * repeating the caption and header row so every piece reads on its own
+ */
+function chunkTable(table: string, caption: string | null, maxTokens: number, tokenizer: Tokenizer): string[] {
+  const count = (value: string) => tokenizer.count(value);
+  const rows = table.split('\n');
+  const headerLength = rows.length > 2 && TABLE_SEPARATOR.test(rows[1]) ? 2 : 1;
+  const header = [...(caption ? [caption] : []), ...rows.slice(0, headerLength)].join('\n');
+  const body = rows.slice(headerLength);
+
+  if (count(`${header}\n${body.join('\n')}`) <= maxTokens) {
+    return [`${header}\n${body.join('\n')}`];
+  }
+
+  const chunks: string[] = [];
+  const headerTokens = count(header);
+  let current: string[] = [];
+  let currentTokens = headerTokens;
+
+  for (const row of body) {
+    const rowTokens = count(row);
+    if (current.length > 0 && currentTokens + rowTokens > maxTokens) {
+      chunks.push(`${header}\n${current.join('\n')}`);
+      current = [];
+      currentTokens = headerTokens;
     }
+    current.push(row); // A single oversized row still goes in whole
+    currentTokens += rowTokens;
   }
-  
-  return merged;
+  if (current.length > 0) chunks.push(`${header}\n${current.join('\n')}`);
+
+  logger.debug('CHUNKING_TABLE_SPLIT', `Split a ${body.length}-row table into ${chunks.length} chunks`, {
+    rows: body.length,
+    chunks: chunks.length
+  });
+
+  return chunks;
+}
+
+/**
+ * Rows of a table chunk without its caption, header and separator
+ */
+function tableBody(chunk: string): string {
+  const lines = chunk.split('\n');
+  const separator = lines.findIndex(line => TABLE_SEPARATOR.test(line));
+  const firstRow = lines.findIndex(line => TABLE_ROW.test(line));
+  return lines.slice(separator !== -1 ? separator + 1 : firstRow + 1).join('\n');
+}
+
+/**
+ * Whether a chunk is a table chunk (pipe rows, optionally under a caption line)
+ */
+export function isTableChunk(chunk: string): boolean {
+  const lines = chunk.split('\n').filter(line => line.trim());
+  const body = TABLE_ROW.test(lines[0] || '') ? lines : lines.slice(1);
+  return body.length >= 2 && body.every(line => TABLE_ROW.test(line));
+}
+
+/**
+ * Character range of a chunk in the extracted text
+ */
+export interface ChunkSpan {
+  charStart: number;
+  charEnd: number; // Exclusive
+}
+
+// Long enough to be unique in practice, short enough to survive chunk joins
+const ANCHOR_LENGTH = 48;
+
+/**
+ * Text without whitespace and ASCII punctuation, lower-cased, with each kept
+ * character's index in the source. Chunking rewrites whitespace and the
+ * punctuation of overlaps, but never the words themselves.
+ */
+function alignmentKey(text: string): { key: string; offsets: number[] } {
+  let key = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i].toLowerCase();
+    if (!/[\s!-\/:-@[-`{-~]/.test(char)) {
+      key += char;
+      offsets.push(i);
+    }
+  }
+  return { key, offsets };
+}
+
+/**
+ * Find each chunk's character range in the text it was chunked from.
+ * Chunks are in document order and may overlap their predecessor; merged
+ * chunks can repeat that overlap, so unmatched chunks are anchored by their
+ * first and last words. Returns null for a chunk that cannot be placed.
+ */
+export function locateChunks(text: string, chunks: string[]): Array<ChunkSpan | null> {
+  const source = alignmentKey(text);
+  let searchFrom = 0;
+
+  const find = (key: string, from: number): [number, number] | null => {
+    const exact = source.key.indexOf(key, from);
+    if (exact !== -1) return [exact, exact + key.length];
+
+    const start = source.key.indexOf(key.slice(0, ANCHOR_LENGTH), from);
+    const tail = key.slice(-ANCHOR_LENGTH);
+    const tailAt = start === -1 ? -1 : source.key.indexOf(tail, start);
+    return tailAt === -1 ? null : [start, tailAt + tail.length];
+  };
+
+  const locate = (key: string) => find(key, searchFrom) || find(key, 0);
+
+  return chunks.map(chunk => {
+    const { key } = alignmentKey(chunk);
+    if (!key) return null;
+
+    // List buffering can move text out of order, so fall back to a full search.
+    // Later pieces of a split table repeat a header that isn't next to their rows.
+    const found = locate(key) || (isTableChunk(chunk) ? locate(alignmentKey(tableBody(chunk)).key) : null);
+    if (!found) return null;
+    const [start, end] = found;
+
+    // The next chunk starts after this one's start (overlap never reaches further back)
+    searchFrom = start + 1;
+    return { charStart: source.offsets[start], charEnd: source.offsets[end - 1] + 1 };
+  });
 }
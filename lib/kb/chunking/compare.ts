@@ -0,0 +1,153 @@
+import { chunkSections, chunkText } from '../chunker';
+import { generateEmbeddings, getEmbeddingModelId, type EmbeddingProvider } from '../embeddings';
+import type { DocumentHeading } from '../text-extractor';
+import { logger } from '../../logger';
+import { CHUNKING_STRATEGY_NAMES, getChunkingStrategy, loadTokenizer } from './index';
+import { cosineSimilarity } from './semantic';
+import type { ChunkingStrategyName, ChunkOptions } from './types';
+
+/**
+ * Chunking comparison harness: runs one document through several strategies
+ * and reports chunk counts, token size distribution and how often a question's
+ * answer is in the top-k chunks retrieved for it. Retrieval is plain vector
+ * similarity over the document's chunks, in memory (nothing is stored).
+ */
+
+export interface ChunkingQuestion {
+  question: string;
+  expected: string | string[]; // Answer text; a chunk containing any of them is relevant (case and spacing ignored)
+}
+
+export interface SizeDistribution {
+  min: number;
+  p50: number;
+  p90: number;
+  max: number;
+  mean: number;
+}
+
+export interface StrategyReport {
+  strategy: ChunkingStrategyName;
+  chunkCount: number;
+  tokens: SizeDistribution;
+  hitRate: number; // Share of questions with a relevant chunk in the top k
+  mrr: number; // Mean reciprocal rank of the first relevant chunk (0 when none)
+  misses: string[]; // Questions without a relevant chunk in the top k
+  chunkingTime: number;
+}
+
+export interface ChunkingComparison {
+  embeddingModel: string;
+  mode: 'sections' | 'flat';
+  topK: number;
+  options: ChunkOptions;
+  questions: number;
+  strategies: StrategyReport[];
+}
+
+export interface ComparisonInput {
+  text: string;
+  headings?: DocumentHeading[];
+  questions: ChunkingQuestion[];
+  provider: EmbeddingProvider;
+  options: ChunkOptions;
+  strategies?: ChunkingStrategyName[];
+  mode?: 'sections' | 'flat'; // Flat by default: sections under the window chunk the same under every strategy
+  topK?: number;
+}
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function distribution(values: number[]): SizeDistribution {
+  if (values.length === 0) return { min: 0, p50: 0, p90: 0, max: 0, mean: 0 };
+  const sorted = values.slice().sort((a, b) => a - b);
+  const at = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  return {
+    min: sorted[0],
+    p50: at(0.5),
+    p90: at(0.9),
+    max: sorted[sorted.length - 1],
+    mean: Math.round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+  };
+}
+
+export async function compareChunkingStrategies(input: ComparisonInput): Promise<ChunkingComparison> {
+  const {
+    text,
+    headings,
+    questions,
+    provider,
+    options,
+    strategies = CHUNKING_STRATEGY_NAMES,
+    mode = 'flat',
+    topK = 3,
+  } = input;
+
+  const questionEmbeddings = await generateEmbeddings(questions.map(q => q.question), provider);
+  const expected = questions.map(q => (Array.isArray(q.expected) ? q.expected : [q.expected]).map(normalise));
+  const tokenizer = await loadTokenizer();
+  const reports: StrategyReport[] = [];
+
+  try {
+    for (const name of strategies) {
+      const strategy = getChunkingStrategy(name);
+      const startTime = Date.now();
+      const chunks = mode === 'sections'
+        ? (await chunkSections(text, options, headings, strategy)).map(chunk => chunk.content)
+        : await chunkText(text, options, strategy);
+      const chunkingTime = Date.now() - startTime;
+
+      const chunkEmbeddings = chunks.length > 0 ? await generateEmbeddings(chunks, provider) : [];
+      const normalisedChunks = chunks.map(normalise);
+      const misses: string[] = [];
+      let hits = 0;
+      let reciprocalRanks = 0;
+
+      questions.forEach((question, i) => {
+        const ranked = chunkEmbeddings
+          .map((embedding, index) => ({ index, score: cosineSimilarity(questionEmbeddings[i], embedding) }))
+          .sort((a, b) => b.score - a.score);
+        const rank = ranked.findIndex(r => expected[i].some(answer => normalisedChunks[r.index].includes(answer)));
+
+        if (rank !== -1) reciprocalRanks += 1 / (rank + 1);
+        if (rank !== -1 && rank < topK) {
+          hits++;
+        } else {
+          misses.push(question.question);
+        }
+      });
+
+      const report: StrategyReport = {
+        strategy: name,
+        chunkCount: chunks.length,
+        tokens: distribution(chunks.map(chunk => tokenizer.count(chunk))),
+        hitRate: questions.length > 0 ? hits / questions.length : 0,
+        mrr: questions.length > 0 ? reciprocalRanks / questions.length : 0,
+        misses,
+        chunkingTime,
+      };
+      reports.push(report);
+
+      logger.info('CHUNKING_COMPARISON_STRATEGY', `${name}: ${chunks.length} chunks, hit rate ${(report.hitRate * 100).toFixed(0)}%`, {
+        strategy: name,
+        chunkCount: report.chunkCount,
+        hitRate: report.hitRate,
+        mrr: report.mrr,
+        chunkingTime
+      });
+    }
+  } finally {
+    tokenizer.free();
+  }
+
+  return {
+    embeddingModel: getEmbeddingModelId(provider),
+    mode,
+    topK,
+    options,
+    questions: questions.length,
+    strategies: reports,
+  };
+}
@@ -0,0 +1,54 @@
+import type { ChunkingStrategy, ChunkOptions, Tokenizer } from './types';
+
+// Sentence-final punctuation (plus closing quotes / brackets) followed by whitespace
+const SENTENCE_END = /[.!?]["')\]]*\s+/g;
+
+/**
+ * Offset just past the last sentence end in the text, or -1
+ */
+function lastSentenceEnd(text: string): number {
+  const ends = Array.from(text.matchAll(SENTENCE_END));
+  const last = ends[ends.length - 1];
+  return last ? last.index! + last[0].length : -1;
+}
+
+/**
+ * Windows of maxTokens tokens, each starting `overlap` tokens before the end
+ * of the previous one. With preserveSentences a window ends at its last
+ * sentence end instead, when that keeps at least half of the window.
+ */
+export function tokenWindows(text: string, options: ChunkOptions, tokenizer: Tokenizer): string[] {
+  const offsets = tokenizer.offsets(text);
+  if (offsets.length <= options.maxTokens) {
+    return text.trim() ? [text.trim()] : [];
+  }
+
+  const windows: string[] = [];
+  let start = 0;
+
+  while (start < offsets.length) {
+    let end = Math.min(start + options.maxTokens, offsets.length);
+    let charEnd = end < offsets.length ? offsets[end] : text.length;
+
+    if (options.preserveSentences && end < offsets.length) {
+      const cut = lastSentenceEnd(text.slice(offsets[start], charEnd));
+      if (cut > (charEnd - offsets[start]) / 2) {
+        charEnd = offsets[start] + cut;
+        end = offsets.findIndex(offset => offset >= charEnd);
+      }
+    }
+
+    const window = text.slice(offsets[start], charEnd).trim();
+    if (window) windows.push(window);
+    if (end >= offsets.length) break;
+    start = Math.max(end - options.overlap, start + 1);
+  }
+
+  return windows;
+}
+
+export const fixedStrategy: ChunkingStrategy = {
+  name: 'fixed',
+  description: 'Fixed token windows with the configured overlap, ignoring paragraphs and headers',
+  chunk: async (text, options, tokenizer) => tokenWindows(text, options, tokenizer),
+};
@@ -0,0 +1,93 @@
+import { KBError, ErrorCode } from '../error-handler';
+import { fixedStrategy } from './fixed';
+import { recursiveStrategy } from './recursive';
+import { createSemanticStrategy } from './semantic';
+import { sentenceStrategy } from './sentence';
+import type { ChunkingSettings, ChunkingStrategy, ChunkingStrategyName, ChunkOptions } from './types';
+
+export type { ChunkingSettings, ChunkingStrategy, ChunkingStrategyName, ChunkOptions, Tokenizer } from './types';
+export { loadTokenizer } from './tokenizer';
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxTokens: 600, // Increased from 500 for better context
+  overlap: 100, // Increased from 50 for better continuity
+  preserveSentences: true,
+  preserveContext: true
+};
+
+// Bounds for per-upload chunk sizes
+export const MIN_CHUNK_TOKENS = 100;
+export const MAX_CHUNK_TOKENS = 2000;
+
+const strategies: Record<string, ChunkingStrategy> = {
+  sentence: sentenceStrategy,
+  fixed: fixedStrategy,
+  recursive: recursiveStrategy,
+  semantic: createSemanticStrategy(),
+};
+
+export const CHUNKING_STRATEGY_NAMES = Object.keys(strategies) as ChunkingStrategyName[];
+
+export function isChunkingStrategyName(name: string): name is ChunkingStrategyName {
+  return name in strategies;
+}
+
+/**
+ * Strategy by name; defaults to CHUNKING_STRATEGY, else the sentence packer
+ */
+export function getChunkingStrategy(name: string = process.env.CHUNKING_STRATEGY || 'sentence'): ChunkingStrategy {
+  const strategy = strategies[name];
+  if (!strategy) {
+    throw new Error(`Unknown chunking strategy: ${name} (available: ${CHUNKING_STRATEGY_NAMES.join(', ')})`);
+  }
+  return strategy;
+}
+
+/**
+ * Chunk options for an upload: its settings over the defaults
+ */
+export function resolveChunkOptions(settings: ChunkingSettings = {}): ChunkOptions {
+  const maxTokens = settings.maxTokens ?? DEFAULT_CHUNK_OPTIONS.maxTokens;
+  return {
+    ...DEFAULT_CHUNK_OPTIONS,
+    maxTokens,
+    overlap: Math.min(settings.overlap ?? DEFAULT_CHUNK_OPTIONS.overlap, Math.floor(maxTokens / 2)),
+  };
+}
+
+/**
+ * Read chunking settings from upload fields (strategy, chunk size, overlap);
+ * empty fields are left to the defaults
+ */
+export function parseChunkingSettings(fields: { strategy?: unknown; maxTokens?: unknown; overlap?: unknown }): ChunkingSettings {
+  const settings: ChunkingSettings = {};
+  const text = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim());
+
+  const strategy = text(fields.strategy);
+  if (strategy) {
+    if (!isChunkingStrategyName(strategy)) {
+      throw new KBError('Unknown chunking strategy', ErrorCode.INVALID_CHUNKING_SETTINGS, { strategy }, false);
+    }
+    settings.strategy = strategy;
+  }
+
+  const maxTokens = text(fields.maxTokens);
+  if (maxTokens) {
+    const value = Number(maxTokens);
+    if (!Number.isInteger(value) || value < MIN_CHUNK_TOKENS || value > MAX_CHUNK_TOKENS) {
+      throw new KBError('Chunk size out of range', ErrorCode.INVALID_CHUNKING_SETTINGS, { maxTokens }, false);
+    }
+    settings.maxTokens = value;
+  }
+
+  const overlap = text(fields.overlap);
+  if (overlap) {
+    const value = Number(overlap);
+    if (!Number.isInteger(value) || value < 0 || value >= (settings.maxTokens ?? DEFAULT_CHUNK_OPTIONS.maxTokens)) {
+      throw new KBError('Chunk overlap out of range', ErrorCode.INVALID_CHUNKING_SETTINGS, { overlap }, false);
+    }
+    settings.overlap = value;
+  }
+
+  return settings;
+}
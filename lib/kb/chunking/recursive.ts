@@ -0,0 +1,94 @@
+import { tokenWindows } from './fixed';
+import type { ChunkingStrategy, ChunkOptions, Tokenizer } from './types';
+
+// Coarsest first: paragraphs, lines, sentences, words
+const SEPARATORS = [/\n\s*\n/g, /\n/g, /[.!?]["')\]]*\s+/g, /\s+/g];
+const SENTENCE_LEVEL = 2;
+
+interface Piece {
+  text: string; // Includes its trailing separator, so pieces join back losslessly
+  tokens: number;
+}
+
+/**
+ * Cut after every match of the separator
+ */
+function splitAfter(text: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (const match of Array.from(text.matchAll(separator))) {
+    const end = match.index! + match[0].length;
+    if (end > start && end < text.length) {
+      parts.push(text.slice(start, end));
+      start = end;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/**
+ * Split on the coarsest separator that occurs, recursing into pieces that
+ * are still over the limit. Below sentences only when they may be cut.
+ */
+function splitRecursive(text: string, level: number, options: ChunkOptions, tokenizer: Tokenizer): Piece[] {
+  const tokens = tokenizer.count(text);
+  if (tokens <= options.maxTokens) {
+    return [{ text, tokens }];
+  }
+  if (level >= SEPARATORS.length || (options.preserveSentences && level > SENTENCE_LEVEL)) {
+    return options.preserveSentences
+      ? [{ text, tokens }]
+      : tokenWindows(text, { ...options, overlap: 0 }, tokenizer).map(window => ({ text: `${window} `, tokens: tokenizer.count(window) }));
+  }
+
+  const parts = splitAfter(text, SEPARATORS[level]);
+  return parts.length > 1
+    ? parts.flatMap(part => splitRecursive(part, level + 1, options, tokenizer))
+    : splitRecursive(text, level + 1, options, tokenizer);
+}
+
+/**
+ * Pack pieces up to the token limit; each chunk after the first repeats the
+ * trailing pieces of the previous one that fit in the overlap
+ */
+export function recursiveSplit(text: string, options: ChunkOptions, tokenizer: Tokenizer): string[] {
+  const pieces = splitRecursive(text, 0, options, tokenizer);
+  const chunks: string[] = [];
+  let current: Piece[] = [];
+  let currentTokens = 0;
+  let fresh = 0; // Pieces in current that are not overlap
+
+  for (const piece of pieces) {
+    if (currentTokens + piece.tokens > options.maxTokens && fresh > 0) {
+      chunks.push(current.map(p => p.text).join('').trim());
+
+      const overlap: Piece[] = [];
+      let overlapTokens = 0;
+      for (let i = current.length - 1; i >= 0 && overlapTokens + current[i].tokens <= options.overlap; i--) {
+        overlap.unshift(current[i]);
+        overlapTokens += current[i].tokens;
+      }
+      while (overlap.length > 0 && overlapTokens + piece.tokens > options.maxTokens) {
+        overlapTokens -= overlap.shift()!.tokens;
+      }
+      current = overlap;
+      currentTokens = overlapTokens;
+      fresh = 0;
+    }
+    current.push(piece);
+    currentTokens += piece.tokens;
+    fresh++;
+  }
+
+  if (fresh > 0) {
+    chunks.push(current.map(p => p.text).join('').trim());
+  }
+  return chunks.filter(Boolean);
+}
+
+export const recursiveStrategy: ChunkingStrategy = {
+  name: 'recursive',
+  description: 'Splits on paragraphs, then lines, then sentences (then words) until pieces fit, and packs them back up to the limit',
+  chunk: async (text, options, tokenizer) => recursiveSplit(text, options, tokenizer),
+};
@@ -0,0 +1,77 @@
+import { getConfiguredEmbeddingProvider, generateEmbeddings, type EmbeddingProvider } from '../embeddings';
+import { logger } from '../../logger';
+import { mergeSmallChunks, packSentences, splitSentences } from './sentence';
+import type { ChunkingStrategy } from './types';
+
+/**
+ * Semantic splitter: embeds every sentence (with its neighbours, to smooth
+ * out short ones) and starts a new chunk where the distance between
+ * consecutive sentences is in the top (100 - percentile)%. Groups over the
+ * token limit are packed by sentence; small groups are merged. No overlap:
+ * breaks fall on topic shifts. One embedding per sentence, so this is the
+ * slowest (and, with a paid provider, costliest) strategy.
+ */
+
+// Distances above this percentile are breakpoints (SEMANTIC_BREAKPOINT_PERCENTILE, default 90)
+function getBreakpointPercentile(): number {
+  const value = parseFloat(process.env.SEMANTIC_BREAKPOINT_PERCENTILE || '');
+  return isNaN(value) || value <= 0 || value >= 100 ? 90 : value;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+}
+
+export function createSemanticStrategy(provider?: EmbeddingProvider): ChunkingStrategy {
+  return {
+    name: 'semantic',
+    description: 'Breaks where the embedding similarity of consecutive sentences drops, then fits the groups to the token limit',
+    chunk: async (text, options, tokenizer) => {
+      const sentences = splitSentences(text).map(s => s.trim()).filter(Boolean);
+      if (sentences.length < 3 || tokenizer.count(text) <= options.maxTokens) {
+        return packSentences(text, options, tokenizer);
+      }
+
+      const windows = sentences.map((_, i) => sentences.slice(Math.max(0, i - 1), i + 2).join(' '));
+      const embeddings = await generateEmbeddings(windows, provider ?? getConfiguredEmbeddingProvider());
+      const distances = embeddings.slice(1).map((embedding, i) => 1 - cosineSimilarity(embeddings[i], embedding));
+      const threshold = percentile(distances, getBreakpointPercentile());
+
+      const groups: string[] = [];
+      let group: string[] = [sentences[0]];
+      distances.forEach((distance, i) => {
+        if (distance > threshold) {
+          groups.push(group.join(' '));
+          group = [];
+        }
+        group.push(sentences[i + 1]);
+      });
+      groups.push(group.join(' '));
+
+      logger.debug('CHUNKING_SEMANTIC_BREAKPOINTS', `${groups.length - 1} breakpoint(s) in ${sentences.length} sentences`, {
+        sentences: sentences.length,
+        groups: groups.length,
+        threshold: threshold.toFixed(3)
+      });
+
+      const fitted = groups.flatMap(g => tokenizer.count(g) > options.maxTokens
+        ? packSentences(g, { ...options, overlap: 0 }, tokenizer)
+        : [g]);
+      return mergeSmallChunks(fitted, options.maxTokens * 0.3, options.maxTokens, tokenizer);
+    },
+  };
+}
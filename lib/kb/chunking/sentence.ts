@@ -0,0 +1,188 @@
+import { logger } from '../../logger';
+import { tokenWindows } from './fixed';
+import type { ChunkingStrategy, ChunkOptions, Tokenizer } from './types';
+
+/**
+ * Split by sentences while preserving structure. Punctuation followed by a
+ * non-space (1,234.56, U.S., example.com) does not end a sentence.
+ */
+export function splitSentences(text: string): string[] {
+  return text.match(/(?:[^.!?]|[.!?](?=[^\s.!?]))+[.!?]*/g) || [text];
+}
+
+/**
+ * Sentence-packing chunker for running text (everything but tables)
+ */
+export function packSentences(text: string, options: ChunkOptions, tokenizer: Tokenizer): string[] {
+  // Pre-process text to identify structural elements
+  const preprocessStart = Date.now();
+  const preprocessed = options.preserveContext
+    ? preprocessFinancialText(text)
+    : text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+  logger.debug('CHUNKING_PREPROCESS', `Preprocessed text in ${Date.now() - preprocessStart}ms`, {
+    originalLength: text.length,
+    preprocessedLength: preprocessed.length
+  });
+  
+  // A sentence longer than a chunk is kept whole unless sentences may be cut
+  const sentences = splitSentences(preprocessed).flatMap(sentence =>
+    options.preserveSentences || tokenizer.count(sentence) <= options.maxTokens
+      ? [sentence]
+      : tokenWindows(sentence, { ...options, overlap: 0 }, tokenizer)
+  );
+  
+  const chunks: string[] = [];
+  let currentChunk = '';
+  let currentTokens = 0;
+  let inList = false;
+  let listBuffer = '';
+  
+  for (let i = 0; i < sentences.length; i++) {
+    const sentence = sentences[i];
+    // Counted as appended after a space, so the running total never undercounts the chunk
+    const sentenceTokens = tokenizer.count(' ' + sentence);
+    
+    // Detect if we're in a list or structured content
+    const isListItem = options.preserveContext && /^\s*[-•*\d+.]\s/.test(sentence);
+    const isHeader = options.preserveContext && (/^#{1,6}\s/.test(sentence) || /^[A-Z][^.!?]*:$/.test(sentence.trim()));
+    
+    // Keep lists together
+    if (isListItem) {
+      if (!inList) {
+        inList = true;
+        listBuffer = sentence;
+      } else {
+        listBuffer += ' ' + sentence;
+      }
+      continue;
+    } else if (inList) {
+      // End of list, add it to current chunk
+      inList = false;
+      const listTokens = tokenizer.count(' ' + listBuffer);
+      
+      if (currentTokens + listTokens > options.maxTokens && currentChunk) {
+        chunks.push(currentChunk.trim());
+        currentChunk = listBuffer;
+        currentTokens = listTokens;
+      } else {
+        currentChunk += ' ' + listBuffer;
+        currentTokens += listTokens;
+      }
+      listBuffer = '';
+    }
+    
+    // Start new chunk on headers if current chunk is substantial
+    if (isHeader && currentTokens > options.maxTokens * 0.5 && currentChunk) {
+      chunks.push(currentChunk.trim());
+      currentChunk = sentence;
+      currentTokens = sentenceTokens;
+      continue;
+    }
+    
+    // Normal sentence processing
+    if (currentTokens + sentenceTokens > options.maxTokens && currentChunk) {
+      chunks.push(currentChunk.trim());
+      
+      // Smart overlap: include previous context
+      if (options.overlap > 0) {
+        const overlapSentences = currentChunk
+          .split(/[.!?]+(?=\s|$)/)
+          .slice(-3) // Keep last 3 sentences for context
+          .join('. ') + '.';
+        currentChunk = overlapSentences + ' ' + sentence;
+        currentTokens = tokenizer.count(currentChunk);
+      } else {
+        currentChunk = sentence;
+        currentTokens = sentenceTokens;
+      }
+    } else {
+      currentChunk += ' ' + sentence;
+      currentTokens += sentenceTokens;
+    }
+  }
+  
+  // Add any remaining list buffer
+  if (inList && listBuffer) {
+    currentChunk += ' ' + listBuffer;
+  }
+  
+  if (currentChunk.trim()) {
+    chunks.push(currentChunk.trim());
+  }
+  
+  logger.debug('CHUNKING_INITIAL', `Created ${chunks.length} initial chunks`, {
+    chunkCount: chunks.length,
+    avgChunkSize: chunks.length > 0 
+      ? Math.round(chunks.reduce((sum, c) => sum + c.length, 0) / chunks.length)
+      : 0
+  });
+  
+  // Post-process: merge very small chunks
+  const mergeStart = Date.now();
+  const merged = mergeSmallChunks(chunks, options.maxTokens * 0.3, options.maxTokens, tokenizer);
+  logger.debug('CHUNKING_MERGE', `Merged small chunks in ${Date.now() - mergeStart}ms`, {
+    before: chunks.length,
+    after: merged.length,
+    minTokens: Math.round(options.maxTokens * 0.3)
+  });
+  
+  return merged;
+}
+
+/**
+ * Pre-process financial text to preserve structure
+ */
+function preprocessFinancialText(text: string): string {
+  // Normalize line breaks
+  let processed = text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+  
+  // Preserve numbered lists (not numbers ending a sentence, as in "rises to 80,000.")
+  processed = processed.replace(/(^|[ \t])(\d{1,2}\.)\s/gm, '$1\n$2 ');
+  
+  // Preserve bullet points
+  processed = processed.replace(/([•\-*])\s/g, '\n$1 ');
+  
+  return processed;
+}
+
+/**
+ * Merge chunks that are too small, as long as the result stays within maxTokens
+ */
+export function mergeSmallChunks(chunks: string[], minTokens: number, maxTokens: number, tokenizer: Tokenizer): string[] {
+  const merged: string[] = [];
+  let buffer = '';
+  
+  for (const chunk of chunks) {
+    const tokens = tokenizer.count(chunk);
+    
+    if (tokens < minTokens && buffer && tokenizer.count(buffer + ' ' + chunk) <= maxTokens) {
+      buffer += ' ' + chunk;
+    } else if (tokens < minTokens) {
+      if (buffer) merged.push(buffer);
+      buffer = chunk;
+    } else {
+      if (buffer) {
+        merged.push(buffer);
+        buffer = '';
+      }
+      merged.push(chunk);
+    }
+  }
+  
+  if (buffer) {
+    const last = merged.length > 0 ? merged[merged.length - 1] + ' ' + buffer : '';
+    if (last && tokenizer.count(last) <= maxTokens) {
+      merged[merged.length - 1] = last;
+    } else {
+      merged.push(buffer);
+    }
+  }
+  
+  return merged;
+}
+
+export const sentenceStrategy: ChunkingStrategy = {
+  name: 'sentence',
+  description: 'Packs whole sentences up to the token limit; keeps lists together and starts chunks at headers',
+  chunk: async (text, options, tokenizer) => packSentences(text, options, tokenizer),
+};
@@ -0,0 +1,57 @@
+import { logger } from '../../logger';
+import type { Tokenizer } from './types';
+
+// Without tiktoken: 1 token ≈ 4 characters of English text
+const CHARS_PER_TOKEN = 4;
+
+const estimator: Tokenizer = {
+  count: text => Math.ceil(text.length / CHARS_PER_TOKEN),
+  offsets: text => Array.from({ length: Math.ceil(text.length / CHARS_PER_TOKEN) }, (_, i) => i * CHARS_PER_TOKEN),
+};
+
+/**
+ * Character offset of every UTF-8 byte offset (tiktoken tokens are byte ranges)
+ */
+function byteToCharOffsets(text: string): number[] {
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.codePointAt(i)!;
+    const bytes = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    for (let b = 0; b < bytes; b++) offsets.push(i);
+    if (code >= 0x10000) i++; // Surrogate pair
+  }
+  offsets.push(text.length);
+  return offsets;
+}
+
+/**
+ * tiktoken's GPT-4 encoding, or a character-based estimate when tiktoken is
+ * unavailable. Call free() when done (the encoder is WASM memory).
+ */
+export async function loadTokenizer(): Promise<Tokenizer & { free(): void }> {
+  try {
+    const tiktoken = await import('tiktoken');
+    const encoder = tiktoken.encoding_for_model('gpt-4');
+    logger.debug('CHUNKING_ENCODER', 'Using tiktoken encoder');
+
+    return {
+      count: text => encoder.encode(text).length,
+      offsets: text => {
+        const charAt = byteToCharOffsets(text);
+        const offsets: number[] = [];
+        let byte = 0;
+        for (const token of Array.from(encoder.encode(text))) {
+          offsets.push(charAt[byte]);
+          byte += encoder.decode_single_token_bytes(token).length;
+        }
+        return offsets;
+      },
+      free: () => encoder.free(),
+    };
+  } catch (error) {
+    logger.warn('CHUNKING_ENCODER_FALLBACK', 'Tiktoken not available, using character-based estimation', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return { ...estimator, free: () => {} };
+  }
+}
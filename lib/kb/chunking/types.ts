@@ -0,0 +1,33 @@
+/**
+ * Chunking strategies: how running text (everything but tables, which the
+ * table chunker keeps whole) is cut into chunks. chunker.ts owns tables and
+ * section structure; a strategy only splits the prose it is handed.
+ */
+
+export interface ChunkOptions {
+  maxTokens: number;
+  overlap: number; // Tokens repeated from the end of the previous chunk
+  preserveSentences: boolean; // Never cut inside a sentence (oversized sentences stay whole)
+  preserveContext: boolean; // Keep lists and their lead-in together, start chunks at headers
+}
+
+export type ChunkingStrategyName = 'sentence' | 'fixed' | 'recursive' | 'semantic';
+
+/** Per-upload chunking choices; unset fields fall back to the defaults */
+export interface ChunkingSettings {
+  strategy?: ChunkingStrategyName;
+  maxTokens?: number;
+  overlap?: number;
+}
+
+export interface Tokenizer {
+  count(text: string): number;
+  /** Character offset at which each token of the text starts */
+  offsets(text: string): number[];
+}
+
+export interface ChunkingStrategy {
+  name: ChunkingStrategyName;
+  description: string;
+  chunk(text: string, options: ChunkOptions, tokenizer: Tokenizer): Promise<string[]>;
+}
@@ -0,0 +1,158 @@
+import { createHash } from 'crypto';
+import type { PointId } from './stores';
+import { getActiveKB } from './active-kb';
+import { getChunkPointId } from './point-ids';
+import { logger } from '../logger';
+
+/**
+ * Read-only consistency check over the active collection: finds duplicated
+ * chunks and points that no document version can ever surface.
+ */
+
+export interface DocumentRef {
+  sessionId: string;
+  filename: string;
+}
+
+export interface ConsistencyReport {
+  collection: string;
+  totalPoints: number;
+  duplicates: {
+    /** Visible points of one document with identical content (e.g. legacy double uploads) */
+    sameContent: Array<DocumentRef & { pointIds: PointId[] }>;
+    /** Documents with more than one version visible at once */
+    multipleCurrentVersions: Array<DocumentRef & { versions: number[] }>;
+  };
+  orphans: {
+    /** Points missing content, filename or sessionId */
+    missingFields: PointId[];
+    /** Documents whose every version is archived, so nothing is searchable */
+    noCurrentVersion: DocumentRef[];
+    /** Archived versions newer than the current one: uploads that stored chunks but never published */
+    unpublishedVersions: Array<DocumentRef & { version: number; pointIds: PointId[] }>;
+  };
+  /** Points whose id is not the deterministic chunk id (stored before deterministic ids) */
+  nonDeterministicIds: number;
+  ok: boolean;
+}
+
+const SCROLL_PAGE_SIZE = 500;
+
+interface VersionState {
+  pointIds: PointId[];
+  current: boolean;
+}
+
+export async function checkConsistency(): Promise<ConsistencyReport> {
+  const startTime = Date.now();
+  const { store } = await getActiveKB();
+  await store.ensureCollection();
+
+  const missingFields: PointId[] = [];
+  // documentKey → version → state
+  const documents = new Map<string, Map<number, VersionState>>();
+  // documentKey + content hash → visible point ids
+  const contentGroups = new Map<string, PointId[]>();
+  let nonDeterministicIds = 0;
+  let totalPoints = 0;
+
+  let offset: PointId | null = null;
+  do {
+    const page = await store.scroll({
+      limit: SCROLL_PAGE_SIZE,
+      offset,
+      withPayload: true,
+      withVector: false,
+    });
+
+    for (const point of page.points) {
+      totalPoints++;
+      const { content, filename, sessionId, documentId, chunkIndex } = point.payload;
+
+      if (typeof content !== 'string' || !filename || !sessionId) {
+        missingFields.push(point.id);
+        continue;
+      }
+
+      const version = (point.payload.version as number) ?? 0;
+      const current = point.payload.archived !== true;
+      const documentKey = JSON.stringify([sessionId, filename]);
+
+      if (!documentId || String(point.id) !== getChunkPointId(sessionId, documentId, version, chunkIndex)) {
+        nonDeterministicIds++;
+      }
+
+      const versions = documents.get(documentKey) || new Map<number, VersionState>();
+      const state = versions.get(version) || { pointIds: [], current: false };
+      state.pointIds.push(point.id);
+      state.current = state.current || current;
+      versions.set(version, state);
+      documents.set(documentKey, versions);
+
+      if (current) {
+        const contentKey = `${documentKey}:${createHash('sha256').update(content).digest('hex')}`;
+        contentGroups.set(contentKey, [...(contentGroups.get(contentKey) || []), point.id]);
+      }
+    }
+
+    offset = page.nextOffset;
+  } while (offset !== null);
+
+  const report: ConsistencyReport = {
+    collection: store.collection,
+    totalPoints,
+    duplicates: { sameContent: [], multipleCurrentVersions: [] },
+    orphans: { missingFields, noCurrentVersion: [], unpublishedVersions: [] },
+    nonDeterministicIds,
+    ok: true,
+  };
+
+  for (const [contentKey, pointIds] of Array.from(contentGroups.entries())) {
+    if (pointIds.length < 2) continue;
+    const [sessionId, filename] = JSON.parse(contentKey.slice(0, contentKey.lastIndexOf(':')));
+    report.duplicates.sameContent.push({ sessionId, filename, pointIds });
+  }
+
+  for (const [documentKey, versions] of Array.from(documents.entries())) {
+    const [sessionId, filename] = JSON.parse(documentKey);
+    const entries = Array.from(versions.entries());
+    const currentVersions = entries.filter(([, state]) => state.current).map(([version]) => version);
+
+    if (currentVersions.length === 0) {
+      report.orphans.noCurrentVersion.push({ sessionId, filename });
+      continue;
+    }
+    if (currentVersions.length > 1) {
+      report.duplicates.multipleCurrentVersions.push({ sessionId, filename, versions: currentVersions.sort((a, b) => a - b) });
+    }
+
+    const newestCurrent = Math.max(...currentVersions);
+    for (const [version, state] of entries) {
+      if (!state.current && version > newestCurrent) {
+        report.orphans.unpublishedVersions.push({ sessionId, filename, version, pointIds: state.pointIds });
+      }
+    }
+  }
+
+  report.ok =
+    report.duplicates.sameContent.length === 0 &&
+    report.duplicates.multipleCurrentVersions.length === 0 &&
+    report.orphans.missingFields.length === 0 &&
+    report.orphans.noCurrentVersion.length === 0 &&
+    report.orphans.unpublishedVersions.length === 0;
+
+  logger.info('KB_CONSISTENCY_CHECK', `Checked ${totalPoints} points in ${Date.now() - startTime}ms`, {
+    collection: store.collection,
+    totalPoints,
+    ok: report.ok,
+    sameContentDuplicates: report.duplicates.sameContent.length,
+    multipleCurrentVersions: report.duplicates.multipleCurrentVersions.length,
+    missingFields: report.orphans.missingFields.length,
+    noCurrentVersion: report.orphans.noCurrentVersion.length,
+    unpublishedVersions: report.orphans.unpublishedVersions.length,
+    nonDeterministicIds,
+    totalTime: Date.now() - startTime
+  });
+
+  return report;
+}
@@ -0,0 +1,237 @@
+import { join } from 'path';
+import type { DataType, PreTrainedModel, PreTrainedTokenizer, Tensor } from '@huggingface/transformers';
+import { logger } from '../logger';
+import type { RerankCandidate, RerankResult } from './reranker';
+
+/**
+ * Local cross-encoder reranking (transformers.js, ONNX on CPU). The model reads
+ * the query and a chunk together and scores how well the chunk answers it, so
+ * no hosted API is involved. Models are read from CROSS_ENCODER_MODEL_PATH
+ * (<path>/<model id>/, as laid out on the Hugging Face hub: tokenizer.json,
+ * tokenizer_config.json, config.json, onnx/model_quantized.onnx for q8). Nothing
+ * is downloaded unless CROSS_ENCODER_ALLOW_DOWNLOAD=true.
+ */
+
+export interface CrossEncoderConfig {
+  model: string;
+  modelPath: string;
+  allowDownload: boolean;
+  dtype: DataType;
+  batchSize: number; // Pairs scored per inference call
+  maxLength: number; // Tokens per (query, chunk) pair; longer chunks are truncated
+  budgetMs: number; // Whole rerank, model load included; past it the caller falls back to the heuristic
+}
+
+const DEFAULT_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+const DTYPES: DataType[] = ['auto', 'fp32', 'fp16', 'q8', 'int8', 'uint8', 'q4', 'bnb4', 'q4f16'];
+
+// A model that failed to load is not retried for this long (every search would pay for it)
+const LOAD_RETRY_MS = 60_000;
+
+interface LoadedCrossEncoder {
+  tokenizer: PreTrainedTokenizer;
+  model: PreTrainedModel;
+}
+
+/** Output of a sequence-classification model: one row of label logits per pair */
+interface ClassifierOutput {
+  logits: Tensor;
+}
+
+let loading: { key: string; promise: Promise<LoadedCrossEncoder>; failedAt?: number } | null = null;
+
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return isNaN(parsed) || parsed < 1 ? fallback : parsed;
+}
+
+export function getCrossEncoderConfig(): CrossEncoderConfig {
+  const dtype = process.env.CROSS_ENCODER_DTYPE as DataType | undefined;
+  return {
+    model: process.env.CROSS_ENCODER_MODEL || DEFAULT_MODEL,
+    modelPath: process.env.CROSS_ENCODER_MODEL_PATH || join(process.cwd(), '.data', 'models'),
+    allowDownload: process.env.CROSS_ENCODER_ALLOW_DOWNLOAD?.toLowerCase() === 'true',
+    dtype: dtype && DTYPES.includes(dtype) ? dtype : 'q8',
+    batchSize: positiveInt(process.env.CROSS_ENCODER_BATCH_SIZE, 8),
+    maxLength: positiveInt(process.env.CROSS_ENCODER_MAX_LENGTH, 512),
+    budgetMs: positiveInt(process.env.CROSS_ENCODER_BUDGET_MS, 1500),
+  };
+}
+
+/**
+ * Load (once) the tokenizer and model. The promise is shared, so a load that
+ * outlives one search's budget keeps going and serves the next search.
+ */
+function loadCrossEncoder(config: CrossEncoderConfig): Promise<LoadedCrossEncoder> {
+  const key = `${config.modelPath}:${config.model}:${config.dtype}`;
+  if (loading?.key === key && (loading.failedAt === undefined || Date.now() - loading.failedAt < LOAD_RETRY_MS)) {
+    return loading.promise;
+  }
+
+  const promise = (async () => {
+    const startTime = Date.now();
+    const { AutoTokenizer, AutoModelForSequenceClassification, env } = await import('@huggingface/transformers');
+    env.localModelPath = config.modelPath;
+    env.cacheDir = config.modelPath; // Downloads land where local lookups find them
+    env.allowLocalModels = true;
+    env.allowRemoteModels = config.allowDownload;
+
+    let tokenizer, model;
+    try {
+      [tokenizer, model] = await Promise.all([
+        AutoTokenizer.from_pretrained(config.model),
+        AutoModelForSequenceClassification.from_pretrained(config.model, { dtype: config.dtype, device: 'cpu' }),
+      ]);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      const hint = config.allowDownload
+        ? ''
+        : ` (downloads disabled: place the model files under ${join(config.modelPath, config.model)} or set CROSS_ENCODER_ALLOW_DOWNLOAD=true)`;
+      throw new Error(`Could not load cross-encoder ${config.model} from ${config.modelPath}${hint}: ${reason}`);
+    }
+
+    logger.info('CROSS_ENCODER_LOADED', `Loaded ${config.model} (${config.dtype}) in ${Date.now() - startTime}ms`, {
+      model: config.model,
+      modelPath: config.modelPath,
+      dtype: config.dtype,
+      loadTime: Date.now() - startTime
+    });
+
+    return { tokenizer, model };
+  })();
+
+  const entry: { key: string; promise: Promise<LoadedCrossEncoder>; failedAt?: number } = { key, promise };
+  promise.catch(error => {
+    entry.failedAt = Date.now();
+    logger.error('CROSS_ENCODER_LOAD_ERROR', error instanceof Error ? error.message : 'Could not load cross-encoder', {
+      model: config.model,
+      modelPath: config.modelPath,
+      allowDownload: config.allowDownload,
+      retryInMs: LOAD_RETRY_MS
+    });
+  });
+  loading = entry;
+  return promise;
+}
+
+/**
+ * Load the model without a latency budget, e.g. before timing searches
+ */
+export async function preloadCrossEncoder(): Promise<void> {
+  await loadCrossEncoder(getCrossEncoderConfig());
+}
+
+/**
+ * Reject once the deadline passes; the underlying work is left to finish on its own
+ */
+function beforeDeadline<T>(promise: Promise<T>, deadline: number, budgetMs: number, stage: string): Promise<T> {
+  const remaining = deadline - Date.now();
+  const overBudget = () => new Error(`Cross-encoder ${stage} exceeded the ${budgetMs}ms latency budget`);
+  if (remaining <= 0) return Promise.reject(overBudget());
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(overBudget()), remaining);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Relevance in 0-1 per pair: sigmoid of a single logit (MS MARCO style models),
+ * otherwise the softmax probability of the last ("relevant") label
+ */
+function toRelevance(logits: Tensor): number[] {
+  const [rows, labels = 1] = logits.dims;
+  const data = logits.data as Float32Array;
+  const scores: number[] = [];
+  for (let i = 0; i < rows; i++) {
+    const row = Array.from(data.subarray(i * labels, (i + 1) * labels));
+    if (labels === 1) {
+      scores.push(1 / (1 + Math.exp(-row[0])));
+    } else {
+      const max = Math.max(...row);
+      const exps = row.map(v => Math.exp(v - max));
+      scores.push(exps[exps.length - 1] / exps.reduce((sum, v) => sum + v, 0));
+    }
+  }
+  return scores;
+}
+
+/**
+ * Relevance of each text to the query, from one inference call. _call is what
+ * calling the tokenizer / model instance runs; the typings only declare _call.
+ */
+async function scorePairs(encoder: LoadedCrossEncoder, query: string, texts: string[], maxLength: number): Promise<number[]> {
+  const inputs = encoder.tokenizer._call(texts.map(() => query), {
+    text_pair: texts,
+    padding: true,
+    truncation: true,
+    max_length: maxLength,
+  });
+  const output: ClassifierOutput = await encoder.model._call(inputs);
+  return toRelevance(output.logits);
+}
+
+/**
+ * Score every (query, chunk) pair in batches and keep the topK. Throws when the
+ * model is unavailable or the latency budget runs out, so rerankResults can
+ * fall back to the heuristic.
+ */
+export async function crossEncoderRerank<T extends RerankCandidate>(
+  query: string,
+  results: T[],
+  topK: number = 3
+): Promise<Array<T & RerankResult>> {
+  const config = getCrossEncoderConfig();
+  const startTime = Date.now();
+  const deadline = startTime + config.budgetMs;
+
+  logger.info('CROSS_ENCODER_RERANK_START', 'Starting cross-encoder reranking', {
+    query: query.substring(0, 100),
+    model: config.model,
+    inputCount: results.length,
+    batchSize: config.batchSize,
+    budgetMs: config.budgetMs,
+    topK
+  });
+
+  try {
+    const encoder = await beforeDeadline(loadCrossEncoder(config), deadline, config.budgetMs, 'model load');
+
+    const scores: number[] = [];
+    for (let i = 0; i < results.length; i += config.batchSize) {
+      const batch = results.slice(i, i + config.batchSize).map(r => r.content);
+      const batchScores = scorePairs(encoder, query, batch, config.maxLength);
+      scores.push(...await beforeDeadline(batchScores, deadline, config.budgetMs, `batch ${i / config.batchSize + 1}`));
+    }
+
+    const reranked: Array<T & RerankResult> = results
+      .map((result, i) => ({
+        ...result,
+        rerankScore: scores[i],
+        relevanceReasoning: `Cross-encoder relevance: ${(scores[i] * 100).toFixed(1)}%`
+      }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, topK);
+
+    logger.info('CROSS_ENCODER_RERANK_COMPLETE', `Cross-encoder reranking completed in ${Date.now() - startTime}ms`, {
+      totalTime: Date.now() - startTime,
+      inputCount: results.length,
+      batches: Math.ceil(results.length / config.batchSize),
+      topResults: reranked.map(r => ({
+        source: r.source,
+        vectorScore: r.score.toFixed(3),
+        rerankScore: r.rerankScore.toFixed(3)
+      }))
+    });
+
+    return reranked;
+  } catch (error: any) {
+    logger.error('CROSS_ENCODER_RERANK_ERROR', 'Cross-encoder reranking failed', {
+      error: error.message,
+      elapsed: Date.now() - startTime,
+      query: query.substring(0, 100)
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,155 @@
+import type { KBDocument } from './vector-db';
+
+/**
+ * Sorting, filtering and cursor pagination over the (cached) document list
+ * for GET /api/kb. Cursors are keyset-based - the sort value and filename of
+ * the last item served - so deletes and uploads between requests never skip
+ * or repeat documents.
+ */
+
+export type DocumentSortField = 'uploadDate' | 'filename' | 'avgValidation' | 'chunks';
+export type SortOrder = 'asc' | 'desc';
+
+export interface DocumentQuery {
+  limit: number;
+  cursor?: string;
+  sort: DocumentSortField;
+  order: SortOrder;
+  fileTypes?: string[];
+  uploadedFrom?: string; // ISO date, inclusive
+  uploadedTo?: string; // ISO date, inclusive
+  minValidation?: number;
+  maxValidation?: number;
+}
+
+export interface DocumentPage {
+  documents: KBDocument[];
+  nextCursor: string | null;
+  total: number; // Documents matching the filters, across all pages
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const SORT_FIELDS: DocumentSortField[] = ['uploadDate', 'filename', 'avgValidation', 'chunks'];
+
+function sortValue(doc: KBDocument, field: DocumentSortField): string | number {
+  switch (field) {
+    case 'uploadDate':
+      return new Date(doc.uploadDate).getTime() || 0;
+    case 'filename':
+      return doc.filename.toLowerCase();
+    case 'avgValidation':
+      return doc.avgValidationScore;
+    case 'chunks':
+      return doc.chunkCount;
+  }
+}
+
+function compare(a: [string | number, string], b: [string | number, string], order: SortOrder): number {
+  const direction = order === 'asc' ? 1 : -1;
+  if (a[0] < b[0]) return -direction;
+  if (a[0] > b[0]) return direction;
+  // Filename tie-break keeps the order total, so cursors are unambiguous
+  return a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+}
+
+function encodeCursor(key: [string | number, string]): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [string | number, string] | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    return Array.isArray(key) && key.length === 2 && typeof key[1] === 'string' ? key as [string | number, string] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse /api/kb query parameters; returns an error message for invalid input
+ */
+export function parseDocumentQuery(params: URLSearchParams): DocumentQuery | { error: string } {
+  const limit = params.has('limit') ? parseInt(params.get('limit')!, 10) : DEFAULT_PAGE_SIZE;
+  if (!Number.isFinite(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const sort = (params.get('sort') || 'uploadDate') as DocumentSortField;
+  if (!SORT_FIELDS.includes(sort)) {
+    return { error: `sort must be one of ${SORT_FIELDS.join(', ')}` };
+  }
+
+  const order = (params.get('order') || (sort === 'filename' ? 'asc' : 'desc')) as SortOrder;
+  if (order !== 'asc' && order !== 'desc') {
+    return { error: 'order must be asc or desc' };
+  }
+
+  const query: DocumentQuery = { limit, sort, order };
+
+  if (params.get('cursor')) {
+    if (!decodeCursor(params.get('cursor')!)) {
+      return { error: 'Invalid cursor' };
+    }
+    query.cursor = params.get('cursor')!;
+  }
+
+  if (params.get('fileType')) {
+    query.fileTypes = params.get('fileType')!.split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+  }
+
+  for (const [param, key] of [['from', 'uploadedFrom'], ['to', 'uploadedTo']] as const) {
+    const value = params.get(param);
+    if (!value) continue;
+    if (isNaN(new Date(value).getTime())) {
+      return { error: `${param} must be an ISO date` };
+    }
+    query[key] = value;
+  }
+
+  for (const [param, key] of [['minValidation', 'minValidation'], ['maxValidation', 'maxValidation']] as const) {
+    const value = params.get(param);
+    if (!value) continue;
+    const score = parseFloat(value);
+    if (isNaN(score) || score < 0 || score > 1) {
+      return { error: `${param} must be between 0 and 1` };
+    }
+    query[key] = score;
+  }
+
+  return query;
+}
+
+/**
+ * Apply filters, sort and one page of the cursor to a document list
+ */
+export function queryDocuments(documents: KBDocument[], query: DocumentQuery): DocumentPage {
+  const from = query.uploadedFrom ? new Date(query.uploadedFrom).getTime() : -Infinity;
+  // A bare date ("2024-05-31") includes the whole day
+  const to = query.uploadedTo
+    ? new Date(query.uploadedTo).getTime() + (/^\d{4}-\d{2}-\d{2}$/.test(query.uploadedTo) ? 24 * 60 * 60 * 1000 - 1 : 0)
+    : Infinity;
+
+  const matching = documents.filter(doc => {
+    const uploaded = new Date(doc.uploadDate).getTime();
+    return (!query.fileTypes || query.fileTypes.includes((doc.fileType || '').toLowerCase())) &&
+      uploaded >= from && uploaded <= to &&
+      (query.minValidation === undefined || doc.avgValidationScore >= query.minValidation) &&
+      (query.maxValidation === undefined || doc.avgValidationScore <= query.maxValidation);
+  });
+
+  const keyed = matching
+    .map(doc => ({ doc, key: [sortValue(doc, query.sort), doc.filename] as [string | number, string] }))
+    .sort((a, b) => compare(a.key, b.key, query.order));
+
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  const start = after ? keyed.findIndex(item => compare(item.key, after, query.order) > 0) : 0;
+  const page = start === -1 ? [] : keyed.slice(start, start + query.limit);
+  const hasMore = start !== -1 && start + query.limit < keyed.length;
+
+  return {
+    documents: page.map(item => item.doc),
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1].key) : null,
+    total: matching.length,
+  };
+}
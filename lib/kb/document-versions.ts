@@ -0,0 +1,241 @@
+import { createHash, randomUUID } from 'crypto';
+import type { PayloadUpdate, StoredPoint, VectorStore } from './stores';
+import { getActiveKB } from './active-kb';
+import { invalidateSessionCaches } from './vector-db';
+import { KBError, ErrorCode } from './error-handler';
+import { logger } from '../logger';
+
+/**
+ * Document identity and versioning.
+ *
+ * Every chunk carries `documentId` (stable across re-uploads of the same
+ * filename in a session), `version` and `contentHash`. A new version is
+ * written with `archived: true`, then published by flipping the `archived`
+ * flags in one payload batch: the old versions are archived before the new
+ * one is un-archived, so searches (which filter on `archived`) never see two
+ * versions at once - at worst, briefly, neither. Older
+ * versions stay stored for rollback up to MAX_DOCUMENT_VERSIONS.
+ *
+ * Chunks stored before versioning have no version fields; they count as
+ * version 0 and are stamped as such when the document is next re-uploaded.
+ */
+
+export interface DocumentVersion {
+  documentId: string | null;
+  version: number;
+  contentHash: string | null;
+  uploadDate: string;
+  chunkCount: number;
+  avgValidationScore: number;
+  current: boolean;
+}
+
+export interface VersionTarget {
+  documentId: string;
+  version: number;
+  previousVersion: number | null; // Current version being replaced, if any
+}
+
+export interface DuplicateMatch {
+  filename: string;
+  version: number;
+}
+
+const MAX_DOCUMENT_VERSIONS = parseInt(process.env.KB_MAX_DOCUMENT_VERSIONS || '5', 10);
+const SCROLL_PAGE_SIZE = 500;
+
+// Hides archived versions; points without the flag (legacy chunks) stay visible
+export const CURRENT_VERSION_FILTER = { archived: { not: true } };
+
+// What search may return: current versions minus chunks quarantined by the injection guard
+export const SEARCHABLE_FILTER = { ...CURRENT_VERSION_FILTER, quarantined: { not: true } };
+
+/**
+ * SHA-256 of the uploaded bytes, used for duplicate detection
+ */
+export function hashContent(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+async function scrollDocumentPoints(store: VectorStore, filename: string, sessionId: string): Promise<StoredPoint[]> {
+  const points: StoredPoint[] = [];
+  let offset: string | number | null = null;
+  do {
+    const page = await store.scroll({
+      filter: { filename, sessionId },
+      limit: SCROLL_PAGE_SIZE,
+      offset,
+      withPayload: true,
+      withVector: false,
+    });
+    points.push(...page.points);
+    offset = page.nextOffset;
+  } while (offset !== null);
+  return points;
+}
+
+/**
+ * All stored versions of a document, newest first
+ */
+export async function listDocumentVersions(filename: string, sessionId: string): Promise<DocumentVersion[]> {
+  const { store } = await getActiveKB();
+  await store.ensureCollection();
+
+  const versions = new Map<number, DocumentVersion>();
+  for (const point of await scrollDocumentPoints(store, filename, sessionId)) {
+    const version = (point.payload.version as number) ?? 0;
+    const validationScore = (point.payload.validationScore as number) || 0;
+    const existing = versions.get(version);
+
+    if (!existing) {
+      versions.set(version, {
+        documentId: (point.payload.documentId as string) ?? null,
+        version,
+        contentHash: (point.payload.contentHash as string) ?? null,
+        uploadDate: point.payload.uploadDate as string,
+        chunkCount: 1,
+        avgValidationScore: validationScore,
+        current: point.payload.archived !== true,
+      });
+    } else {
+      const totalScore = existing.avgValidationScore * existing.chunkCount + validationScore;
+      existing.chunkCount++;
+      existing.avgValidationScore = totalScore / existing.chunkCount;
+    }
+  }
+
+  return Array.from(versions.values()).sort((a, b) => b.version - a.version);
+}
+
+/**
+ * Find a current document in the session with exactly the same content,
+ * chunked with the same settings (re-uploading with other settings re-indexes).
+ * Chunks stored before chunkingKey existed count as chunked with `legacyChunkingKey`.
+ */
+export async function findDuplicateDocument(
+  contentHash: string,
+  chunkingKey: string,
+  legacyChunkingKey: string,
+  sessionId: string
+): Promise<DuplicateMatch | null> {
+  const { store } = await getActiveKB();
+  await store.ensureCollection();
+
+  const page = await store.scroll({
+    filter: { sessionId, contentHash, chunkingKey, ...CURRENT_VERSION_FILTER },
+    limit: 1,
+    withPayload: true,
+    withVector: false,
+  });
+  let point: StoredPoint | undefined = page.points[0];
+
+  if (!point && chunkingKey === legacyChunkingKey) {
+    let offset: string | number | null = null;
+    do {
+      const legacy = await store.scroll({
+        filter: { sessionId, contentHash, ...CURRENT_VERSION_FILTER },
+        limit: SCROLL_PAGE_SIZE,
+        offset,
+        withPayload: true,
+        withVector: false,
+      });
+      point = legacy.points.find(p => p.payload.chunkingKey === undefined);
+      offset = legacy.nextOffset;
+    } while (!point && offset !== null);
+  }
+
+  return point
+    ? { filename: point.payload.filename as string, version: (point.payload.version as number) ?? 0 }
+    : null;
+}
+
+/**
+ * Identity for the next upload of `filename`: the existing documentId (or a
+ * new one) and the version after the highest stored one. A retry of an upload
+ * that stored its chunks but never got published reuses that version, so the
+ * deterministic point ids overwrite the earlier attempt.
+ */
+export async function getNextVersion(filename: string, sessionId: string, contentHash: string): Promise<VersionTarget> {
+  const versions = await listDocumentVersions(filename, sessionId);
+  const documentId = versions.find(v => v.documentId)?.documentId || randomUUID();
+  const latest = versions[0];
+  const unpublishedRetry = !!latest && !latest.current && latest.contentHash === contentHash;
+  return {
+    documentId,
+    version: unpublishedRetry ? latest.version : (latest ? latest.version : 0) + 1,
+    previousVersion: versions.find(v => v.current)?.version ?? null,
+  };
+}
+
+/**
+ * Payload updates that make `version` the only visible version of a document.
+ * Applied in order, so the other versions are hidden before `version` appears.
+ */
+function switchVersionUpdates(filename: string, sessionId: string, version: number): PayloadUpdate[] {
+  return [
+    { filter: { filename, sessionId, version: { not: version } }, payload: { archived: true } },
+    { filter: { filename, sessionId, version }, payload: { archived: false } },
+  ];
+}
+
+/**
+ * Publish a freshly stored (archived) version and prune the oldest ones
+ */
+export async function publishDocumentVersion(filename: string, sessionId: string, target: VersionTarget) {
+  const { store } = await getActiveKB({ fresh: true });
+
+  await store.setPayload([
+    // Stamp legacy chunks (no documentId) as version 0 so they can be archived and restored
+    {
+      filter: { filename, sessionId, documentId: { not: target.documentId } },
+      payload: { documentId: target.documentId, version: 0 },
+    },
+    ...switchVersionUpdates(filename, sessionId, target.version),
+  ]);
+  invalidateSessionCaches(sessionId);
+
+  const versions = await listDocumentVersions(filename, sessionId);
+  const expired = versions.slice(MAX_DOCUMENT_VERSIONS).filter(v => !v.current);
+  for (const old of expired) {
+    await store.deleteByFilter({ filename, sessionId, version: old.version });
+  }
+
+  logger.info('DOCUMENT_VERSION_PUBLISHED', `${filename} is now at version ${target.version}`, {
+    filename,
+    documentId: target.documentId,
+    version: target.version,
+    storedVersions: versions.length - expired.length,
+    prunedVersions: expired.map(v => v.version)
+  });
+}
+
+/**
+ * Restore a previously stored version of a document
+ */
+export async function rollbackDocument(filename: string, sessionId: string, version: number): Promise<DocumentVersion> {
+  const versions = await listDocumentVersions(filename, sessionId);
+  const target = versions.find(v => v.version === version);
+
+  if (!target) {
+    throw new KBError(
+      'Document version not found',
+      ErrorCode.VERSION_NOT_FOUND,
+      { filename, version, available: versions.map(v => v.version) },
+      false
+    );
+  }
+
+  if (!target.current) {
+    const { store } = await getActiveKB({ fresh: true });
+    await store.setPayload(switchVersionUpdates(filename, sessionId, version));
+    invalidateSessionCaches(sessionId);
+  }
+
+  logger.info('DOCUMENT_ROLLBACK', `Rolled back ${filename} to version ${version}`, {
+    filename,
+    version,
+    previousVersion: versions.find(v => v.current)?.version
+  });
+
+  return { ...target, current: true };
+}
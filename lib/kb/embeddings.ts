@@ -1,29 +1,172 @@
 import { openai } from '@ai-sdk/openai';
+import { mistral } from '@ai-sdk/mistral';
+import { embedMany } from 'ai';
 import { logger } from '../logger';
 
+export interface EmbeddingProvider {
+  name: string; // Registry key (openai, mistral, local)
+  model: string;
+  dimension: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+type EmbeddingProviderFactory = (model?: string, dimension?: number) => EmbeddingProvider;
+
+// Known output sizes for models that do not support a dimensions override
+const MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+  'mistral-embed': 1024,
+};
+
+/**
+ * OpenAI text-embedding-3 family (supports shortened dimensions)
+ */
+const createOpenAIProvider: EmbeddingProviderFactory = (
+  model = 'text-embedding-3-small',
+  dimension
+) => {
+  const nativeDimension = MODEL_DIMENSIONS[model] ?? 1536;
+  const embeddingModel = openai.embedding(model, dimension && dimension !== nativeDimension ? { dimensions: dimension } : {});
+  return {
+    name: 'openai',
+    model,
+    dimension: dimension ?? nativeDimension,
+    embed: async (texts) => (await embedMany({ model: embeddingModel, values: texts })).embeddings,
+  };
+};
+
+/**
+ * Mistral embeddings (fixed 1024 dimensions)
+ */
+const createMistralProvider: EmbeddingProviderFactory = (model = 'mistral-embed') => {
+  const embeddingModel = mistral.embedding(model);
+  return {
+    name: 'mistral',
+    model,
+    dimension: MODEL_DIMENSIONS[model] ?? 1024,
+    embed: async (texts) => (await embedMany({ model: embeddingModel, values: texts })).embeddings,
+  };
+};
+
+/**
+ * Offline feature-hashing embeddings (unigrams + bigrams, signed buckets).
+ * No semantic understanding, but deterministic and network-free - lets dev
+ * boxes, CI and air-gapped deployments run the full pipeline.
+ */
+const createLocalProvider: EmbeddingProviderFactory = (model = 'feature-hash-v1', dimension = 384) => ({
+  name: 'local',
+  model,
+  dimension,
+  embed: async (texts) => texts.map(text => hashEmbedding(text, dimension)),
+});
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hashEmbedding(text: string, dimension: number): number[] {
+  const vector = new Array(dimension).fill(0);
+  const terms: string[] = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+  const features = terms.concat(terms.slice(1).map((term, i) => `${terms[i]} ${term}`));
+
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    vector[hash % dimension] += (hash & 0x80000000) ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+const providerFactories: Record<string, EmbeddingProviderFactory> = {
+  openai: createOpenAIProvider,
+  mistral: createMistralProvider,
+  local: createLocalProvider,
+};
+
+/**
+ * Register an additional embedding provider (e.g. a self-hosted model)
+ */
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory) {
+  providerFactories[name] = factory;
+}
+
+let configuredProvider: EmbeddingProvider | null = null;
+
+/**
+ * Resolve a provider by name. Defaults come from EMBEDDING_PROVIDER,
+ * EMBEDDING_MODEL and EMBEDDING_DIMENSIONS.
+ */
+export function getEmbeddingProvider(
+  name: string = process.env.EMBEDDING_PROVIDER || 'openai',
+  model: string | undefined = process.env.EMBEDDING_MODEL || undefined,
+  dimension: number | undefined = process.env.EMBEDDING_DIMENSIONS ? parseInt(process.env.EMBEDDING_DIMENSIONS, 10) : undefined
+): EmbeddingProvider {
+  const factory = providerFactories[name];
+  if (!factory) {
+    throw new Error(`Unknown embedding provider: ${name} (available: ${Object.keys(providerFactories).join(', ')})`);
+  }
+  return factory(model, dimension);
+}
+
+/**
+ * Provider configured via env (cached). The provider actually serving the KB
+ * comes from getActiveKB(), which honours a migrated collection's manifest.
+ */
+export function getConfiguredEmbeddingProvider(): EmbeddingProvider {
+  if (!configuredProvider) {
+    configuredProvider = getEmbeddingProvider();
+    logger.info('EMBEDDING_PROVIDER_SELECTED', `Using ${configuredProvider.name}/${configuredProvider.model}`, {
+      provider: configuredProvider.name,
+      model: configuredProvider.model,
+      dimension: configuredProvider.dimension
+    });
+  }
+  return configuredProvider;
+}
+
+// Points stored before provider selection carry no model id; they are text-embedding-3-small
+export const LEGACY_EMBEDDING_MODEL_ID = 'openai/text-embedding-3-small@1536';
+
+/**
+ * Stable identifier stored with every vector so collections never mix models
+ */
+export function getEmbeddingModelId(provider: EmbeddingProvider): string {
+  return `${provider.name}/${provider.model}@${provider.dimension}`;
+}
+
 /**
  * Generate embedding for a single text
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
+export async function generateEmbedding(
+  text: string,
+  provider: EmbeddingProvider
+): Promise<number[]> {
   const startTime = Date.now();
-  
+
   logger.debug('EMBEDDING_SINGLE_START', 'Generating single embedding', {
     textLength: text.length,
-    textPreview: text.substring(0, 100)
+    textPreview: text.substring(0, 100),
+    model: provider.model
   });
-  
+
   try {
-    const response = await openai.embedding('text-embedding-3-small').doEmbed({
-      values: [text]
-    });
-    
+    const [embedding] = await provider.embed([text]);
+
     logger.info('EMBEDDING_SINGLE_COMPLETE', `Generated embedding in ${Date.now() - startTime}ms`, {
       textLength: text.length,
-      embeddingDim: response.embeddings[0].length,
+      embeddingDim: embedding.length,
       time: Date.now() - startTime
     });
-    
-    return response.embeddings[0];
+
+    return embedding;
   } catch (error: any) {
     logger.error('EMBEDDING_SINGLE_ERROR', 'Failed to generate embedding', {
       error: error.message,
@@ -37,28 +180,30 @@ export async function generateEmbedding(text: string): Promise<number[]> {
 /**
  * Generate embeddings for multiple texts (batch processing)
  */
-export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+export async function generateEmbeddings(
+  texts: string[],
+  provider: EmbeddingProvider
+): Promise<number[][]> {
   const startTime = Date.now();
-  
+
   logger.info('EMBEDDING_BATCH_START', 'Generating batch embeddings', {
     batchSize: texts.length,
     totalChars: texts.reduce((sum, t) => sum + t.length, 0),
-    avgLength: Math.round(texts.reduce((sum, t) => sum + t.length, 0) / texts.length)
+    avgLength: Math.round(texts.reduce((sum, t) => sum + t.length, 0) / texts.length),
+    model: provider.model
   });
-  
+
   try {
-    const response = await openai.embedding('text-embedding-3-small').doEmbed({
-      values: texts
-    });
-    
+    const embeddings = await provider.embed(texts);
+
     logger.info('EMBEDDING_BATCH_COMPLETE', `Generated ${texts.length} embeddings in ${Date.now() - startTime}ms`, {
       batchSize: texts.length,
-      embeddingDim: response.embeddings[0].length,
+      embeddingDim: embeddings[0]?.length,
       time: Date.now() - startTime,
       avgTimePerEmbedding: Math.round((Date.now() - startTime) / texts.length)
     });
-    
-    return response.embeddings;
+
+    return embeddings;
   } catch (error: any) {
     logger.error('EMBEDDING_BATCH_ERROR', 'Failed to generate batch embeddings', {
       error: error.message,
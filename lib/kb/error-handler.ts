@@ -17,16 +17,23 @@ export enum ErrorCode {
   FILE_TOO_LARGE = 'FILE_TOO_LARGE',
   UNSUPPORTED_FORMAT = 'UNSUPPORTED_FORMAT',
   EXTRACTION_FAILED = 'EXTRACTION_FAILED',
+  UPLOAD_CANCELLED = 'UPLOAD_CANCELLED',
+  JOB_NOT_FOUND = 'JOB_NOT_FOUND',
+  INVALID_URL = 'INVALID_URL',
+  URL_FETCH_FAILED = 'URL_FETCH_FAILED',
+  INVALID_CHUNKING_SETTINGS = 'INVALID_CHUNKING_SETTINGS',
   
   // Processing errors
   CHUNKING_FAILED = 'CHUNKING_FAILED',
   VALIDATION_FAILED = 'VALIDATION_FAILED',
   EMBEDDING_FAILED = 'EMBEDDING_FAILED',
+  EMBEDDING_MODEL_MISMATCH = 'EMBEDDING_MODEL_MISMATCH',
   
   // Storage errors
   STORAGE_FAILED = 'STORAGE_FAILED',
   RETRIEVAL_FAILED = 'RETRIEVAL_FAILED',
   DELETE_FAILED = 'DELETE_FAILED',
+  VERSION_NOT_FOUND = 'VERSION_NOT_FOUND',
   
   // Search errors
   SEARCH_FAILED = 'SEARCH_FAILED',
@@ -39,6 +46,7 @@ export enum ErrorCode {
   // Data quality errors
   NO_VALID_CHUNKS = 'NO_VALID_CHUNKS',
   LOW_QUALITY_CONTENT = 'LOW_QUALITY_CONTENT',
+  NO_TRANSACTIONS_FOUND = 'NO_TRANSACTIONS_FOUND',
 }
 
 export interface ErrorContext {
@@ -115,18 +123,26 @@ function getUserFriendlyMessage(code: string, context: ErrorContext): string {
     [ErrorCode.FILE_TOO_LARGE]: 'File is too large. Maximum size is 10MB.',
     [ErrorCode.UNSUPPORTED_FORMAT]: 'File format not supported. Please upload PDF, DOCX, TXT, or MD files.',
     [ErrorCode.EXTRACTION_FAILED]: `Unable to extract text from ${context.filename}. The file may be corrupted or password-protected.`,
+    [ErrorCode.UPLOAD_CANCELLED]: `Upload of ${context.filename} was cancelled.`,
+    [ErrorCode.JOB_NOT_FOUND]: 'Upload job not found. It may have expired.',
+    [ErrorCode.INVALID_URL]: 'Enter a public http(s) web address.',
+    [ErrorCode.URL_FETCH_FAILED]: `Could not fetch ${context.filename}. Check the address and that the page is publicly reachable.`,
+    [ErrorCode.INVALID_CHUNKING_SETTINGS]: 'Invalid chunking settings. Use sentence, fixed, recursive or semantic chunking, a chunk size of 100-2000 tokens and an overlap smaller than the chunk size.',
     [ErrorCode.CHUNKING_FAILED]: 'Failed to process document content. Please try again.',
     [ErrorCode.VALIDATION_FAILED]: 'Unable to validate document quality. Upload will proceed without validation.',
     [ErrorCode.EMBEDDING_FAILED]: 'Failed to generate embeddings. Please try again.',
+    [ErrorCode.EMBEDDING_MODEL_MISMATCH]: 'Knowledge base was built with a different embedding model. Run the embedding migration before uploading.',
     [ErrorCode.STORAGE_FAILED]: 'Failed to store document in knowledge base. Please try again.',
     [ErrorCode.RETRIEVAL_FAILED]: 'Failed to retrieve documents. Please try again.',
     [ErrorCode.DELETE_FAILED]: `Failed to delete ${context.filename}. Please try again.`,
+    [ErrorCode.VERSION_NOT_FOUND]: `That version of ${context.filename} is no longer stored.`,
     [ErrorCode.SEARCH_FAILED]: 'Search failed. Please try again with a different query.',
     [ErrorCode.RERANK_FAILED]: 'Failed to rank results. Showing results by similarity instead.',
     [ErrorCode.DB_CONNECTION_FAILED]: 'Unable to connect to knowledge base. Please check your connection.',
     [ErrorCode.API_RATE_LIMIT]: 'Too many requests. Please wait a moment and try again.',
     [ErrorCode.NO_VALID_CHUNKS]: `No content in ${context.filename} met quality standards. File uploaded but not indexed.`,
     [ErrorCode.LOW_QUALITY_CONTENT]: 'Document quality is low. Some content may not be indexed.',
+    [ErrorCode.NO_TRANSACTIONS_FOUND]: `No transactions could be read from ${context.filename}. Statements need a date and an amount (or debit/credit) for each transaction.`,
   };
   
   return messages[code] || 'An error occurred. Please try again.';
@@ -169,11 +185,13 @@ export async function retryWithBackoff<T>(
 }
 
 /**
- * Validate file before processing
+ * Validate file before processing (K-Base document types unless `allowedTypes` is given)
  */
-export function validateFile(file: File): void {
+export function validateFile(
+  file: File,
+  allowedTypes: string[] = ['pdf', 'docx', 'txt', 'md', 'csv', 'tsv', 'xlsx', 'png', 'jpg', 'jpeg', 'html', 'htm', 'epub']
+): void {
   const maxSize = 10 * 1024 * 1024; // 10MB
-  const allowedTypes = ['pdf', 'docx', 'txt', 'md'];
   
   if (file.size > maxSize) {
     throw new KBError(
@@ -0,0 +1,121 @@
+import type { BaselineComparison, BaselineQuestion, ConfigDiff, EvalBaseline, EvalReport, QuestionChange } from './types';
+
+// Metric drops smaller than this are noise from float formatting, not regressions
+const EPSILON = 1e-6;
+
+export function toBaseline(report: EvalReport): EvalBaseline {
+  const configs: EvalBaseline['configs'] = {};
+  for (const config of report.configs) {
+    const questions: Record<string, BaselineQuestion> = {};
+    for (const q of config.questions) {
+      questions[q.id] = { firstRelevantRank: q.firstRelevantRank, ndcg: round(q.ndcg) };
+    }
+    configs[config.config] = { metrics: config.metrics, questions };
+  }
+  return {
+    suite: report.suite,
+    embeddingModel: report.embeddingModel,
+    chunking: report.chunking,
+    topK: report.topK,
+    createdAt: report.createdAt,
+    configs,
+  };
+}
+
+/**
+ * Merge a new baseline into an existing one so re-baselining a subset of
+ * configurations keeps the others
+ */
+export function mergeBaseline(previous: EvalBaseline | null, next: EvalBaseline): EvalBaseline {
+  if (!previous || previous.embeddingModel !== next.embeddingModel || previous.topK !== next.topK) return next;
+  return { ...next, configs: { ...previous.configs, ...next.configs } };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
+
+function rankValue(rank: number | null): number {
+  return rank === null ? Number.POSITIVE_INFINITY : rank;
+}
+
+function compareQuestion(before: BaselineQuestion, after: BaselineQuestion): QuestionChange['change'] | null {
+  const rankDelta = rankValue(after.firstRelevantRank) - rankValue(before.firstRelevantRank);
+  if (rankDelta < 0 || (rankDelta === 0 && after.ndcg > before.ndcg + EPSILON)) return 'improved';
+  if (rankDelta > 0 || (rankDelta === 0 && after.ndcg < before.ndcg - EPSILON)) return 'regressed';
+  return null;
+}
+
+/**
+ * Diff a report against the stored baseline: metric deltas per configuration
+ * and every question whose first relevant rank or nDCG moved
+ */
+export function compareToBaseline(report: EvalReport, baseline: EvalBaseline): BaselineComparison {
+  const warnings: string[] = [];
+  if (baseline.suite !== report.suite) warnings.push(`Baseline is for suite ${baseline.suite}, not ${report.suite}`);
+  if (baseline.embeddingModel !== report.embeddingModel) {
+    warnings.push(`Baseline used ${baseline.embeddingModel}; this run uses ${report.embeddingModel}`);
+  }
+  if (baseline.topK !== report.topK) warnings.push(`Baseline used top ${baseline.topK}; this run uses top ${report.topK}`);
+  if (JSON.stringify(baseline.chunking) !== JSON.stringify(report.chunking)) {
+    warnings.push(`Baseline chunking ${JSON.stringify(baseline.chunking)} differs from ${JSON.stringify(report.chunking)}`);
+  }
+
+  const configs: ConfigDiff[] = report.configs.map(config => {
+    const stored = baseline.configs[config.config];
+    if (!stored) {
+      return { config: config.config, inBaseline: false, changes: [], newQuestions: [] };
+    }
+
+    const recall: Record<string, number> = {};
+    for (const k of Object.keys(config.metrics.recall)) {
+      recall[k] = config.metrics.recall[k] - (stored.metrics.recall[k] ?? 0);
+    }
+
+    const changes: QuestionChange[] = [];
+    const newQuestions: string[] = [];
+    for (const q of config.questions) {
+      const before = stored.questions[q.id];
+      if (!before) {
+        newQuestions.push(q.id);
+        continue;
+      }
+      const after = { firstRelevantRank: q.firstRelevantRank, ndcg: round(q.ndcg) };
+      const change = compareQuestion(before, after);
+      if (change) changes.push({ id: q.id, question: q.question, before, after, change });
+    }
+
+    return {
+      config: config.config,
+      inBaseline: true,
+      metrics: {
+        recall,
+        mrr: config.metrics.mrr - stored.metrics.mrr,
+        ndcg: config.metrics.ndcg - stored.metrics.ndcg,
+      },
+      changes,
+      newQuestions,
+    };
+  });
+
+  return { baselineCreatedAt: baseline.createdAt, warnings, configs };
+}
+
+/**
+ * Aggregate metrics that dropped by more than `tolerance` against the baseline
+ */
+export function findRegressions(comparison: BaselineComparison, tolerance: number = 0.01): string[] {
+  const regressions: string[] = [];
+  for (const diff of comparison.configs) {
+    if (!diff.metrics) continue;
+    const deltas: Array<[string, number]> = [
+      ['MRR', diff.metrics.mrr],
+      ['nDCG', diff.metrics.ndcg],
+      ...Object.entries(diff.metrics.recall).map(([k, delta]) => [`recall@${k}`, delta] as [string, number]),
+    ];
+    for (const [metric, delta] of deltas) {
+      if (delta < -tolerance) regressions.push(`${diff.config}: ${metric} ${delta.toFixed(3)}`);
+    }
+  }
+  return regressions;
+}
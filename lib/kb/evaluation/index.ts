@@ -0,0 +1,137 @@
+import { hybridSearch } from '../hybrid-search';
+import { getActiveKB } from '../active-kb';
+import { getEmbeddingModelId } from '../embeddings';
+import { getChunkingMode } from '../chunker';
+import { getChunkingStrategy, resolveChunkOptions, type ChunkingSettings } from '../chunking';
+import { preloadCrossEncoder } from '../cross-encoder';
+import { logger } from '../../logger';
+import { aggregateMetrics, scoreRanking } from './metrics';
+import { indexEvalCorpus, type LoadedSuite } from './suite';
+import type { ConfigReport, EvalConfig, EvalReport, QuestionResult } from './types';
+
+/**
+ * Offline retrieval evaluation: index a labelled fixture corpus, run every
+ * question through hybridSearch under several configurations and score the
+ * rankings with recall@k, MRR and nDCG (see metrics.ts).
+ */
+
+export type {
+  BaselineComparison,
+  ConfigDiff,
+  ConfigReport,
+  EvalBaseline,
+  EvalConfig,
+  EvalMetrics,
+  EvalQuestion,
+  EvalReport,
+  EvalSuite,
+  QuestionResult,
+  RelevanceLabel,
+} from './types';
+export { loadEvalSuite, type LoadedSuite } from './suite';
+export { compareToBaseline, findRegressions, mergeBaseline, toBaseline } from './baseline';
+
+const NO_RERANK = { useReranking: false, diversityBoost: false };
+
+export const EVAL_CONFIGS: EvalConfig[] = [
+  { name: 'vector', description: 'Vector similarity only', options: { ...NO_RERANK, vectorWeight: 1, keywordWeight: 0 } },
+  { name: 'keyword', description: 'BM25 only', options: { ...NO_RERANK, vectorWeight: 0, keywordWeight: 1 } },
+  { name: 'hybrid', description: 'RRF fusion + fast rerank', options: NO_RERANK },
+  { name: 'hybrid-diversity', description: 'RRF fusion + fast rerank + diversity boost', options: { useReranking: false, diversityBoost: true } },
+  { name: 'heuristic', description: 'Full pipeline, heuristic reranker', options: { rerankerType: 'heuristic' } },
+  {
+    name: 'cross-encoder',
+    description: 'Full pipeline, local cross-encoder reranker',
+    options: { rerankerType: 'cross-encoder' },
+    prepare: preloadCrossEncoder,
+  },
+  { name: 'cohere', description: 'Full pipeline, Cohere reranker', options: { rerankerType: 'cohere' }, requiresNetwork: true },
+  { name: 'llm', description: 'Full pipeline, LLM reranker', options: { rerankerType: 'llm' }, requiresNetwork: true },
+];
+
+export const DEFAULT_CUTOFFS = [1, 3, 5];
+
+/**
+ * Configurations by name; without names, every one that runs offline
+ */
+export function getEvalConfigs(names?: string[]): EvalConfig[] {
+  if (!names) return EVAL_CONFIGS.filter(config => !config.requiresNetwork);
+  return names.map(name => {
+    const config = EVAL_CONFIGS.find(c => c.name === name);
+    if (!config) {
+      throw new Error(`Unknown evaluation config: ${name} (available: ${EVAL_CONFIGS.map(c => c.name).join(', ')})`);
+    }
+    return config;
+  });
+}
+
+export interface EvalRunInput {
+  suite: LoadedSuite;
+  sessionId: string; // Session the corpus is indexed into; use a throwaway store
+  configs?: EvalConfig[];
+  chunking?: ChunkingSettings;
+  topK?: number;
+  cutoffs?: number[];
+}
+
+export async function runRetrievalEval(input: EvalRunInput): Promise<EvalReport> {
+  const {
+    suite,
+    sessionId,
+    configs = getEvalConfigs(),
+    chunking = {},
+    topK = 5,
+  } = input;
+  const cutoffs = (input.cutoffs ?? DEFAULT_CUTOFFS).filter(k => k <= topK);
+
+  const corpus = await indexEvalCorpus(suite, sessionId, chunking);
+  const { provider } = await getActiveKB();
+  const chunkOptions = resolveChunkOptions(chunking);
+  const reports: ConfigReport[] = [];
+  const skipped: EvalReport['skipped'] = [];
+
+  for (const config of configs) {
+    if (config.prepare) {
+      try {
+        await config.prepare();
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        logger.warn('EVAL_CONFIG_SKIPPED', `Skipping ${config.name}: ${reason}`, { config: config.name });
+        skipped.push({ config: config.name, reason });
+        continue;
+      }
+    }
+
+    const questions: QuestionResult[] = [];
+    for (const question of suite.questions) {
+      const startTime = Date.now();
+      const results = await hybridSearch(question.question, { ...config.options, topK }, sessionId);
+      questions.push({ ...scoreRanking(question, results, topK, cutoffs), latencyMs: Date.now() - startTime });
+    }
+
+    const metrics = aggregateMetrics(questions, cutoffs);
+    reports.push({ config: config.name, description: config.description, metrics, questions });
+
+    logger.info('EVAL_CONFIG_COMPLETE', `${config.name}: MRR ${metrics.mrr.toFixed(3)}, nDCG@${topK} ${metrics.ndcg.toFixed(3)}`, {
+      config: config.name,
+      ...metrics
+    });
+  }
+
+  return {
+    suite: suite.name,
+    embeddingModel: getEmbeddingModelId(provider),
+    chunking: {
+      strategy: getChunkingStrategy(chunking.strategy).name,
+      maxTokens: chunkOptions.maxTokens,
+      overlap: chunkOptions.overlap,
+      mode: getChunkingMode(),
+    },
+    topK,
+    cutoffs,
+    corpus,
+    createdAt: new Date().toISOString(),
+    configs: reports,
+    skipped,
+  };
+}
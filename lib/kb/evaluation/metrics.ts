@@ -0,0 +1,105 @@
+import type { HybridSearchResult } from '../hybrid-search';
+import { formatSectionPath } from '../sections';
+import type { EvalMetrics, EvalQuestion, QuestionResult, RankedResult, RelevanceLabel } from './types';
+
+export function normalise(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function labelGrade(label: RelevanceLabel): number {
+  return label.grade ?? 1;
+}
+
+export function matchesLabel(source: string, content: string, label: RelevanceLabel): boolean {
+  if (source !== label.source) return false;
+  return !label.contains || normalise(content).includes(normalise(label.contains));
+}
+
+function gain(grade: number): number {
+  return Math.pow(2, grade) - 1;
+}
+
+/**
+ * Judge one ranking against the question's labels. Each label counts once, for
+ * the highest-ranked chunk that satisfies it, and a chunk satisfies at most one
+ * label (the highest-graded one still open), so repeated or overlapping chunks
+ * cannot inflate recall or nDCG.
+ */
+export function scoreRanking(
+  question: EvalQuestion,
+  results: HybridSearchResult[],
+  topK: number,
+  cutoffs: number[]
+): Omit<QuestionResult, 'latencyMs'> {
+  const open = question.relevant.map((label, index) => ({ label, index }));
+  const matchedAt = new Map<number, number>(); // label index -> 0-based rank
+  const seen = new Set<string>();
+
+  const ranking: RankedResult[] = results.map((result, rank) => {
+    const duplicate = seen.has(result.id);
+    seen.add(result.id);
+    let grade = 0;
+    if (!duplicate) {
+      const candidates = open
+        .filter(({ index, label }) => !matchedAt.has(index) && matchesLabel(result.source, result.content, label))
+        .sort((a, b) => labelGrade(b.label) - labelGrade(a.label));
+      if (candidates.length > 0) {
+        matchedAt.set(candidates[0].index, rank);
+        grade = labelGrade(candidates[0].label);
+      }
+    }
+    return {
+      source: result.source,
+      ...(result.sectionPath && result.sectionPath.length > 0 ? { section: formatSectionPath(result.sectionPath) } : {}),
+      grade,
+      duplicate,
+    };
+  });
+
+  const firstRelevant = ranking.findIndex(r => r.grade > 0);
+  const matchedRanks = Array.from(matchedAt.values());
+  const recall: Record<string, number> = {};
+  for (const k of cutoffs) {
+    recall[k] = question.relevant.length > 0
+      ? matchedRanks.filter(rank => rank < k).length / question.relevant.length
+      : 0;
+  }
+
+  const dcg = ranking
+    .slice(0, topK)
+    .reduce((sum, r, i) => sum + gain(r.grade) / Math.log2(i + 2), 0);
+  const idcg = question.relevant
+    .map(labelGrade)
+    .sort((a, b) => b - a)
+    .slice(0, topK)
+    .reduce((sum, grade, i) => sum + gain(grade) / Math.log2(i + 2), 0);
+
+  return {
+    id: question.id,
+    question: question.question,
+    ranking,
+    firstRelevantRank: firstRelevant === -1 ? null : firstRelevant + 1,
+    recall,
+    reciprocalRank: firstRelevant === -1 ? 0 : 1 / (firstRelevant + 1),
+    ndcg: idcg > 0 ? dcg / idcg : 0,
+    duplicates: ranking.filter(r => r.duplicate).length,
+    fallback: results.some(r => r.relevanceReasoning.startsWith('Fallback')),
+  };
+}
+
+export function aggregateMetrics(results: QuestionResult[], cutoffs: number[]): EvalMetrics {
+  const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  const slots = results.reduce((sum, r) => sum + r.ranking.length, 0);
+  const recall: Record<string, number> = {};
+  for (const k of cutoffs) {
+    recall[k] = mean(results.map(r => r.recall[k]));
+  }
+  return {
+    recall,
+    mrr: mean(results.map(r => r.reciprocalRank)),
+    ndcg: mean(results.map(r => r.ndcg)),
+    duplicateRate: slots > 0 ? results.reduce((sum, r) => sum + r.duplicates, 0) / slots : 0,
+    fallbacks: results.filter(r => r.fallback).length,
+    meanLatencyMs: Math.round(mean(results.map(r => r.latencyMs))),
+  };
+}
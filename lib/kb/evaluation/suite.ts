@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import { basename, dirname, extname, resolve } from 'path';
+import { ingestDocument } from '../ingestion';
+import { getActiveKB } from '../active-kb';
+import { SEARCHABLE_FILTER } from '../document-versions';
+import type { ChunkingSettings } from '../chunking';
+import type { PointId } from '../stores';
+import { logger } from '../../logger';
+import { matchesLabel } from './metrics';
+import type { CorpusStats, EvalSuite } from './types';
+
+const SCROLL_PAGE_SIZE = 256;
+
+export interface LoadedSuite extends EvalSuite {
+  baseDir: string; // Directory the document paths are relative to
+}
+
+/**
+ * Read a suite file and check its shape, so a typo in the fixture fails
+ * loudly instead of silently scoring zero.
+ */
+export async function loadEvalSuite(path: string): Promise<LoadedSuite> {
+  const suite = JSON.parse(await fs.readFile(path, 'utf-8')) as EvalSuite;
+  const problems: string[] = [];
+
+  if (!Array.isArray(suite.documents) || suite.documents.length === 0) problems.push('no documents');
+  if (!Array.isArray(suite.questions) || suite.questions.length === 0) problems.push('no questions');
+
+  const ids = new Set<string>();
+  const names = new Set((suite.documents || []).map(doc => doc.name || basename(doc.path)));
+  for (const question of suite.questions || []) {
+    if (!question.id || ids.has(question.id)) problems.push(`missing or duplicate question id "${question.id}"`);
+    ids.add(question.id);
+    if (!Array.isArray(question.relevant) || question.relevant.length === 0) {
+      problems.push(`${question.id}: no relevant chunks`);
+      continue;
+    }
+    for (const label of question.relevant) {
+      if (!names.has(label.source)) problems.push(`${question.id}: unknown source ${label.source}`);
+      if (label.grade !== undefined && (!Number.isInteger(label.grade) || label.grade < 1 || label.grade > 3)) {
+        problems.push(`${question.id}: grade must be 1-3`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid evaluation suite ${path}: ${problems.join('; ')}`);
+  }
+
+  return { ...suite, name: suite.name || basename(path, '.json'), baseDir: dirname(resolve(path)) };
+}
+
+/**
+ * Index the suite's documents into the given session through the normal
+ * ingestion pipeline (extraction, chunking, embedding, storage), skipping only
+ * the LLM validation step. Returns corpus stats, including labels no stored
+ * chunk can satisfy — those would count as misses for every configuration.
+ */
+export async function indexEvalCorpus(
+  suite: LoadedSuite,
+  sessionId: string,
+  chunking?: ChunkingSettings
+): Promise<CorpusStats> {
+  const startTime = Date.now();
+
+  for (const doc of suite.documents) {
+    const path = resolve(suite.baseDir, doc.path);
+    const result = await ingestDocument({
+      buffer: await fs.readFile(path),
+      filename: doc.name || basename(doc.path),
+      fileType: extname(path).slice(1).toLowerCase(),
+      sessionId,
+      chunking,
+      trusted: true,
+    }, {
+      progress() {},
+      checkCancelled() {},
+    });
+    logger.debug('EVAL_DOCUMENT_INDEXED', `Indexed ${result.filename}: ${result.chunks} chunks`, {
+      filename: result.filename,
+      chunks: result.chunks
+    });
+  }
+
+  const { store } = await getActiveKB();
+  const chunks: Array<{ source: string; content: string }> = [];
+  let offset: PointId | null = null;
+  do {
+    const page = await store.scroll({
+      filter: { sessionId, ...SEARCHABLE_FILTER },
+      limit: SCROLL_PAGE_SIZE,
+      offset,
+      withPayload: true,
+      withVector: false,
+    });
+    for (const point of page.points) {
+      chunks.push({ source: point.payload.filename as string, content: (point.payload.content as string) || '' });
+    }
+    offset = page.nextOffset;
+  } while (offset !== null);
+
+  const unreachableLabels = suite.questions.flatMap(question =>
+    question.relevant
+      .filter(label => !chunks.some(chunk => matchesLabel(chunk.source, chunk.content, label)))
+      .map(label => `${question.id}: ${label.source}${label.contains ? ` / "${label.contains}"` : ''}`)
+  );
+
+  logger.info('EVAL_CORPUS_INDEXED', `Indexed ${suite.documents.length} documents (${chunks.length} chunks) in ${Date.now() - startTime}ms`, {
+    suite: suite.name,
+    documents: suite.documents.length,
+    chunks: chunks.length,
+    unreachableLabels: unreachableLabels.length
+  });
+
+  return { documents: suite.documents.length, chunks: chunks.length, unreachableLabels };
+}
@@ -0,0 +1,134 @@
+import type { HybridSearchOptions } from '../hybrid-search';
+import type { ChunkingSettings } from '../chunking';
+import type { ChunkingMode } from '../chunker';
+
+/** Chunking the corpus was indexed with, fully resolved */
+export type EvalChunking = Required<ChunkingSettings> & { mode: ChunkingMode };
+
+/**
+ * A chunk that should be retrieved for a question: any chunk of `source` whose
+ * content contains `contains` (case and spacing ignored), or any chunk of the
+ * source when `contains` is omitted. Grades run 1 (related) to 3 (answers it).
+ */
+export interface RelevanceLabel {
+  source: string;
+  contains?: string;
+  grade?: number;
+}
+
+export interface EvalQuestion {
+  id: string;
+  question: string;
+  relevant: RelevanceLabel[];
+}
+
+export interface EvalDocument {
+  path: string; // Relative to the suite file
+  name?: string; // Filename to index it under (defaults to the path's basename)
+}
+
+export interface EvalSuite {
+  name: string;
+  description?: string;
+  documents: EvalDocument[];
+  questions: EvalQuestion[];
+}
+
+export interface EvalConfig {
+  name: string;
+  description: string;
+  options: HybridSearchOptions;
+  requiresNetwork?: boolean; // Calls a hosted API; only run when asked for by name
+  prepare?: () => Promise<void>; // One-off setup (e.g. model load) kept out of the timings; failing skips the config
+}
+
+export interface RankedResult {
+  source: string;
+  section?: string;
+  grade: number; // Grade of the label this result satisfied (0 = not relevant)
+  duplicate: boolean; // Same chunk already appeared higher in the ranking
+}
+
+export interface QuestionResult {
+  id: string;
+  question: string;
+  ranking: RankedResult[];
+  firstRelevantRank: number | null; // 1-based
+  recall: Record<string, number>; // By cutoff k
+  reciprocalRank: number;
+  ndcg: number; // At the search's topK
+  duplicates: number;
+  fallback: boolean; // The reranker fell back to the heuristic
+  latencyMs: number;
+}
+
+export interface EvalMetrics {
+  recall: Record<string, number>; // Mean recall@k by cutoff
+  mrr: number;
+  ndcg: number;
+  duplicateRate: number; // Share of returned slots taken by repeated chunks
+  fallbacks: number; // Questions where the reranker fell back to the heuristic
+  meanLatencyMs: number;
+}
+
+export interface ConfigReport {
+  config: string;
+  description: string;
+  metrics: EvalMetrics;
+  questions: QuestionResult[];
+}
+
+export interface CorpusStats {
+  documents: number;
+  chunks: number;
+  unreachableLabels: string[]; // "<question id>: <source> / <contains>" with no matching chunk in the corpus
+}
+
+export interface EvalReport {
+  suite: string;
+  embeddingModel: string;
+  chunking: EvalChunking;
+  topK: number;
+  cutoffs: number[];
+  corpus: CorpusStats;
+  createdAt: string;
+  configs: ConfigReport[];
+  skipped: Array<{ config: string; reason: string }>; // Configs whose prepare step failed
+}
+
+export interface BaselineQuestion {
+  firstRelevantRank: number | null;
+  ndcg: number;
+}
+
+/** What gets stored as the baseline: metrics plus enough per question to diff */
+export interface EvalBaseline {
+  suite: string;
+  embeddingModel: string;
+  chunking: EvalChunking;
+  topK: number;
+  createdAt: string;
+  configs: Record<string, { metrics: EvalMetrics; questions: Record<string, BaselineQuestion> }>;
+}
+
+export interface QuestionChange {
+  id: string;
+  question: string;
+  before: BaselineQuestion;
+  after: BaselineQuestion;
+  change: 'improved' | 'regressed';
+}
+
+export interface ConfigDiff {
+  config: string;
+  inBaseline: boolean;
+  metrics?: { recall: Record<string, number>; mrr: number; ndcg: number }; // Deltas (current - baseline)
+  changes: QuestionChange[];
+  newQuestions: string[];
+}
+
+export interface BaselineComparison {
+  baselineCreatedAt: string;
+  warnings: string[]; // Settings that differ from the baseline, making deltas less meaningful
+  configs: ConfigDiff[];
+}
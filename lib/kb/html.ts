@@ -0,0 +1,284 @@
+import JSZip from 'jszip';
+import { DOMParser } from '@xmldom/xmldom';
+
+/**
+ * HTML and EPUB extraction for ingestion.
+ *
+ * Page chrome (navigation, site header and footer, cookie banners, share
+ * buttons, scripts) is dropped and headings come out as Markdown `#` lines,
+ * so web pages and book chapters keep their section structure. Tables become
+ * Markdown pipe rows, as for DOCX.
+ */
+
+export interface HtmlDocument {
+  title: string | null;
+  text: string;
+}
+
+interface ElementRange {
+  start: number; // Opening tag
+  innerStart: number;
+  innerEnd: number;
+  end: number; // After the closing tag
+}
+
+// Never page content
+const DROPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'object', 'canvas', 'button', 'select', 'dialog', 'nav', 'aside', 'form']);
+// Site chrome when outside <main> / <article> (inside, they hold the article's own title and notes)
+const CHROME_TAGS = new Set(['header', 'footer']);
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+// class / id tokens of navigation and page furniture, e.g. "site-nav", "cookie-banner", "share_buttons"
+const BOILERPLATE_TOKEN = /^(?:[\w-]*[-_])?(?:nav|navbar|navigation|menu|breadcrumbs?|sidebar|cookies?|consent|share|sharing|social|ads?|advert|advertisement|promo|newsletter|subscribe|related|comments?|skip|toolbar|pagination)(?:[-_][\w-]*)?$/i;
+const CHROME_TOKEN = /^(?:[\w-]*[-_])?(?:header|footer|masthead)(?:[-_][\w-]*)?$/i;
+const BOILERPLATE_ROLES = /^(?:navigation|banner|contentinfo|complementary|search|dialog|alert)$/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  bull: '•', middot: '·', copy: '©', reg: '®', trade: '™', deg: '°', times: '×', divide: '÷',
+  euro: '€', pound: '£', yen: '¥', cent: '¢', sect: '§', para: '¶', laquo: '«', raquo: '»',
+};
+
+export function decodeEntities(html: string): string {
+  return html.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+export function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Replace every <table> with its rows as Markdown pipe rows (first row as
+ * header), wrapped in <pre> and escaped so later tag stripping leaves them
+ * alone
+ */
+export function tablesToPipeRows(html: string): string {
+  return html.replace(/<table[^>]*>([\s\S]*?)<\/table>/gi, (_, table: string) => {
+    const rows = Array.from(table.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi))
+      .map(row => Array.from(row[1].matchAll(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi)).map(cell => stripTags(cell[1]).replace(/\|/g, '/')))
+      .filter(cells => cells.length > 0);
+    if (rows.length === 0) return '';
+
+    const columns = Math.max(...rows.map(cells => cells.length));
+    const line = (cells: string[]) => `| ${cells.concat(Array(columns - cells.length).fill('')).join(' | ')} |`;
+    const lines = [line(rows[0]), `| ${Array(columns).fill('---').join(' | ')} |`, ...rows.slice(1).map(line)];
+    return `<pre>${lines.join('\n').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')}</pre>`;
+  });
+}
+
+function attribute(attrs: string, name: string): string {
+  const match = attrs.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3] ?? '') : '';
+}
+
+/**
+ * Outermost elements matching the test, with their extent found by counting
+ * nested tags of the same name. An unclosed element runs to the end of the
+ * input (for void and self-closing elements: just the tag).
+ */
+function findElements(html: string, test: (tag: string, attrs: string) => boolean): ElementRange[] {
+  const ranges: ElementRange[] = [];
+  const openTag = /<([a-zA-Z][\w-]*)(\s[^>]*)?>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = openTag.exec(html))) {
+    const tag = match[1].toLowerCase();
+    const attrs = match[2] || '';
+    if (!test(tag, attrs)) continue;
+
+    const start = match.index;
+    const innerStart = openTag.lastIndex;
+    if (VOID_TAGS.has(tag) || attrs.endsWith('/')) {
+      ranges.push({ start, innerStart, innerEnd: innerStart, end: innerStart });
+      continue;
+    }
+
+    const nested = new RegExp(`<(/?)${tag}(?=[\\s>/])[^>]*>`, 'gi');
+    nested.lastIndex = innerStart;
+    let depth = 1;
+    let range: ElementRange = { start, innerStart, innerEnd: html.length, end: html.length };
+    let inner: RegExpExecArray | null;
+    while ((inner = nested.exec(html))) {
+      if (inner[1]) {
+        depth--;
+      } else if (!inner[0].endsWith('/>')) {
+        depth++;
+      }
+      if (depth === 0) {
+        range = { start, innerStart, innerEnd: inner.index, end: nested.lastIndex };
+        break;
+      }
+    }
+
+    ranges.push(range);
+    openTag.lastIndex = range.end;
+  }
+
+  return ranges;
+}
+
+function removeElements(html: string, test: (tag: string, attrs: string) => boolean): string {
+  const ranges = findElements(html, test);
+  if (ranges.length === 0) return html;
+
+  let out = '';
+  let position = 0;
+  for (const range of ranges) {
+    out += html.slice(position, range.start) + ' ';
+    position = range.end;
+  }
+  return out + html.slice(position);
+}
+
+function isBoilerplate(attrs: string, withChrome: boolean): boolean {
+  if (BOILERPLATE_ROLES.test(attribute(attrs, 'role'))) return true;
+  if (/^true$/i.test(attribute(attrs, 'aria-hidden')) || /\shidden(?![\w-])/i.test(attrs.replace(/"[^"]*"|'[^']*'/g, '""'))) return true;
+
+  const tokens = `${attribute(attrs, 'class')} ${attribute(attrs, 'id')}`.split(/\s+/).filter(Boolean);
+  return tokens.some(token => BOILERPLATE_TOKEN.test(token) || (withChrome && CHROME_TOKEN.test(token)));
+}
+
+/**
+ * The main content: <main> (or role="main"), otherwise the page's
+ * <article>s, otherwise <body>
+ */
+function contentRoot(html: string): { html: string; isBody: boolean } {
+  const main = findElements(html, (tag, attrs) => tag === 'main' || /^main$/i.test(attribute(attrs, 'role')))[0];
+  if (main) {
+    return { html: html.slice(main.innerStart, main.innerEnd), isBody: false };
+  }
+
+  const articles = findElements(html, tag => tag === 'article');
+  if (articles.length > 0) {
+    return { html: articles.map(range => html.slice(range.innerStart, range.innerEnd)).join('\n'), isBody: false };
+  }
+
+  const body = findElements(html, tag => tag === 'body')[0];
+  return { html: body ? html.slice(body.innerStart, body.innerEnd) : html, isBody: true };
+}
+
+function blocksToText(html: string): string {
+  return tablesToPipeRows(html)
+    .split(/(<pre(?:\s[^>]*)?>[\s\S]*?<\/pre>)/i)
+    .map(part => {
+      if (/^<pre(?:\s[^>]*)?>/i.test(part)) {
+        // Preformatted text and tables keep their line breaks
+        return `\n\n${decodeEntities(part.replace(/^<pre[^>]*>|<\/pre>$/gi, '').replace(/<[^>]+>/g, ''))}\n\n`;
+      }
+      return decodeEntities(part
+        .replace(/\s+/g, ' ')
+        .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+          `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim()}\n\n`)
+        .replace(/<li[^>]*>\s*(?:<p(?:\s[^>]*)?>)?/gi, '\n- ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/?(?:p|div|section|article|header|footer|main|blockquote|ul|ol|dl|dt|dd|figure|figcaption|address|hr|details|summary)(?:\s[^>]*)?>/gi, '\n\n')
+        .replace(/<[^>]+>/g, ''));
+    })
+    .join('')
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/^- *$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Decode an HTML file by its declared charset (<meta charset>), UTF-8 otherwise
+ */
+export function decodeHtml(buffer: Buffer): string {
+  const head = buffer.subarray(0, 2048).toString('latin1');
+  const declared = head.match(/<meta[^>]+charset\s*=\s*["']?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(declared || 'utf-8').decode(buffer);
+  } catch {
+    return buffer.toString('utf-8');
+  }
+}
+
+function titleOf(html: string): string | null {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i) || html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
+  const text = title ? stripTags(title[1]) : '';
+  return text || null;
+}
+
+/**
+ * Readable text of an HTML page or XHTML chapter
+ */
+export function htmlToText(html: string): HtmlDocument {
+  const title = titleOf(html);
+  const cleaned = removeElements(html.replace(/<!--[\s\S]*?-->/g, ''), tag => DROPPED_TAGS.has(tag) || tag === 'head');
+  const root = contentRoot(cleaned);
+  const content = removeElements(root.html, (tag, attrs) =>
+    DROPPED_TAGS.has(tag) || (root.isBody && CHROME_TAGS.has(tag)) || isBoilerplate(attrs, root.isBody));
+
+  return { title, text: blocksToText(content) };
+}
+
+function resolvePath(base: string, href: string): string {
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of decodeURIComponent(href.split('#')[0]).split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+async function readXml(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  return new DOMParser().parseFromString(await file.async('string'), 'application/xml') as unknown as Document;
+}
+
+/**
+ * Text led by the document title as a top-level heading, unless it already starts with one
+ */
+export function withTitleHeading(document: HtmlDocument): string {
+  if (!document.title || /^# /.test(document.text)) return document.text;
+  return `# ${document.title}\n\n${document.text}`;
+}
+
+/**
+ * Chapters of an EPUB in reading (spine) order, each through htmlToText
+ */
+export async function parseEpub(buffer: Buffer): Promise<HtmlDocument> {
+  const zip = await JSZip.loadAsync(buffer);
+
+  if (zip.file('META-INF/encryption.xml') && zip.file('META-INF/rights.xml')) {
+    throw new Error('EPUB is DRM-protected');
+  }
+
+  const container = await readXml(zip, 'META-INF/container.xml');
+  const opfPath = container?.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  const opf = opfPath ? await readXml(zip, opfPath) : null;
+  if (!opfPath || !opf) {
+    throw new Error('Not an EPUB: no package document');
+  }
+
+  const manifest = new Map(Array.from(opf.getElementsByTagName('item')).map(item => [
+    item.getAttribute('id') || '',
+    { href: item.getAttribute('href') || '', properties: item.getAttribute('properties') || '' },
+  ]));
+
+  const chapters: string[] = [];
+  for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+    const item = manifest.get(itemref.getAttribute('idref') || '');
+    // The EPUB 3 navigation document repeats the table of contents
+    if (!item || /\bnav\b/.test(item.properties)) continue;
+
+    const file = zip.file(resolvePath(opfPath, item.href));
+    if (!file) continue;
+    const text = htmlToText(await file.async('string')).text;
+    if (text) chapters.push(text);
+  }
+
+  const title = opf.getElementsByTagNameNS('http://purl.org/dc/elements/1.1/', 'title')[0]?.textContent?.trim();
+  return { title: title || null, text: chapters.join('\n\n') };
+}
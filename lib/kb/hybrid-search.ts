@@ -1,6 +1,8 @@
 import { generateEmbedding } from './embeddings';
 import { searchKB, KBSearchResult } from './vector-db';
-import { rerankResults, fastRerank, RerankResult } from './reranker';
+import { keywordSearch } from './keyword-index';
+import { getActiveKB } from './active-kb';
+import { rerankResults, fastRerank, RerankResult, RerankerType } from './reranker';
 import { logger } from '../logger';
 
 export interface HybridSearchOptions {
@@ -8,14 +10,60 @@ export interface HybridSearchOptions {
   useReranking?: boolean;
   minValidationScore?: number;
   diversityBoost?: boolean;
+  vectorWeight?: number; // RRF weight for vector results (0 disables)
+  keywordWeight?: number; // RRF weight for BM25 results (0 disables)
+  rrfK?: number; // RRF rank constant (higher = flatter fusion)
+  rerankerType?: RerankerType; // Overrides RERANKER_TYPE for this search
 }
 
+export type SearchMethod = 'vector' | 'keyword' | 'hybrid';
+
 export interface HybridSearchResult extends RerankResult {
-  searchMethod: 'vector' | 'hybrid';
+  id: string;
+  searchMethod: SearchMethod; // Which retriever(s) surfaced this chunk
+  sourceUrl?: string; // Documents added by URL
+  sectionPath?: string[]; // Headings the chunk sits under
+}
+
+type FusedResult = KBSearchResult & { searchMethod: SearchMethod };
+
+/**
+ * Merge vector and keyword rankings with weighted reciprocal rank fusion.
+ * Scores are normalised by the best attainable fused score, so a chunk ranked
+ * first by both retrievers scores 1.0 and downstream thresholds keep working.
+ */
+function reciprocalRankFusion(
+  vectorResults: KBSearchResult[],
+  keywordResults: KBSearchResult[],
+  vectorWeight: number,
+  keywordWeight: number,
+  rrfK: number
+): FusedResult[] {
+  const fused = new Map<string, FusedResult>();
+  const maxScore = (vectorWeight + keywordWeight) / (rrfK + 1);
+
+  const addRanking = (results: KBSearchResult[], weight: number, method: 'vector' | 'keyword') => {
+    if (weight <= 0) return;
+    results.forEach((result, rank) => {
+      const contribution = weight / (rrfK + rank + 1) / maxScore;
+      const existing = fused.get(result.id);
+      if (existing) {
+        existing.score += contribution;
+        existing.searchMethod = existing.searchMethod === method ? method : 'hybrid';
+      } else {
+        fused.set(result.id, { ...result, score: contribution, searchMethod: method });
+      }
+    });
+  };
+
+  addRanking(vectorResults, vectorWeight, 'vector');
+  addRanking(keywordResults, keywordWeight, 'keyword');
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
 }
 
 /**
- * Hybrid search combining vector similarity with keyword matching and reranking
+ * Hybrid search combining vector similarity with BM25 keyword matching and reranking
  */
 export async function hybridSearch(
   query: string,
@@ -27,7 +75,11 @@ export async function hybridSearch(
     topK = 5,
     useReranking = true,
     minValidationScore = 0.7,
-    diversityBoost = true
+    diversityBoost = true,
+    vectorWeight = 0.7,
+    keywordWeight = 0.3,
+    rrfK = 60,
+    rerankerType
   } = options;
   
   logger.info('HYBRID_SEARCH_START', 'Starting hybrid search', {
@@ -35,37 +87,57 @@ export async function hybridSearch(
     topK,
     useReranking,
     minValidationScore,
-    diversityBoost
+    diversityBoost,
+    vectorWeight,
+    keywordWeight,
+    rerankerType
   });
   
   try {
-    // Step 1: Vector search
-    const embeddingStart = Date.now();
-    const queryEmbedding = await generateEmbedding(query);
-    logger.debug('HYBRID_SEARCH_EMBEDDING', `Generated embedding in ${Date.now() - embeddingStart}ms`);
-    
+    // Step 1: Vector and keyword search in parallel
     const vectorSearchStart = Date.now();
-    const vectorResults = await searchKB(queryEmbedding, topK * 2, sessionId); // Get more for reranking
-    logger.info('HYBRID_SEARCH_VECTOR', `Vector search returned ${vectorResults.length} results in ${Date.now() - vectorSearchStart}ms`, {
-      resultCount: vectorResults.length,
-      avgScore: vectorResults.length > 0 
+    const { provider } = await getActiveKB();
+    const [vectorResults, keywordResults] = await Promise.all([
+      vectorWeight > 0
+        ? generateEmbedding(query, provider).then(embedding => searchKB(embedding, topK * 2, sessionId)) // Get more for reranking
+        : Promise.resolve([] as KBSearchResult[]),
+      keywordWeight > 0
+        ? keywordSearch(query, topK * 2, sessionId)
+        : Promise.resolve([] as KBSearchResult[])
+    ]);
+    logger.info('HYBRID_SEARCH_RETRIEVE', `Vector + keyword search returned ${vectorResults.length} + ${keywordResults.length} results in ${Date.now() - vectorSearchStart}ms`, {
+      vectorCount: vectorResults.length,
+      keywordCount: keywordResults.length,
+      avgVectorScore: vectorResults.length > 0 
         ? (vectorResults.reduce((sum, r) => sum + r.score, 0) / vectorResults.length).toFixed(3)
         : 0,
-      sources: vectorResults.map(r => r.source)
+      vectorSources: vectorResults.map(r => r.source),
+      keywordSources: keywordResults.map(r => r.source)
+    });
+    
+    // Step 2: Reciprocal rank fusion
+    const fusedResults = reciprocalRankFusion(vectorResults, keywordResults, vectorWeight, keywordWeight, rrfK);
+    logger.debug('HYBRID_SEARCH_FUSION', `Fused into ${fusedResults.length} unique results`, {
+      fusedCount: fusedResults.length,
+      methods: fusedResults.slice(0, 5).map(r => ({
+        source: r.source,
+        method: r.searchMethod,
+        score: r.score.toFixed(3)
+      }))
     });
     
-    if (vectorResults.length === 0) {
-      logger.warn('HYBRID_SEARCH_NO_RESULTS', 'No vector results found');
+    if (fusedResults.length === 0) {
+      logger.warn('HYBRID_SEARCH_NO_RESULTS', 'No vector or keyword results found');
       return [];
     }
     
-    // Step 2: Filter by validation score
+    // Step 3: Filter by validation score
     const filterStart = Date.now();
-    const filteredResults = vectorResults.filter(
+    const filteredResults = fusedResults.filter(
       r => r.validationScore >= minValidationScore
     );
-    logger.debug('HYBRID_SEARCH_FILTER', `Filtered ${vectorResults.length} → ${filteredResults.length} results (threshold: ${minValidationScore}) in ${Date.now() - filterStart}ms`, {
-      before: vectorResults.length,
+    logger.debug('HYBRID_SEARCH_FILTER', `Filtered ${fusedResults.length} → ${filteredResults.length} results (threshold: ${minValidationScore}) in ${Date.now() - filterStart}ms`, {
+      before: fusedResults.length,
       after: filteredResults.length,
       threshold: minValidationScore
     });
@@ -73,12 +145,12 @@ export async function hybridSearch(
     if (filteredResults.length === 0) {
       logger.warn('HYBRID_SEARCH_NO_VALID', 'No results passed validation threshold', {
         threshold: minValidationScore,
-        scores: vectorResults.map(r => r.validationScore)
+        scores: fusedResults.map(r => r.validationScore)
       });
       return [];
     }
     
-    // Step 3: Fast reranking (keyword boost)
+    // Step 4: Fast reranking (keyword boost)
     const fastRerankStart = Date.now();
     const fastReranked = fastRerank(query, filteredResults);
     logger.debug('HYBRID_SEARCH_FAST_RERANK', `Fast reranking completed in ${Date.now() - fastRerankStart}ms`, {
@@ -89,7 +161,7 @@ export async function hybridSearch(
       }))
     });
     
-    // Step 4: Diversity boost (prefer different sources)
+    // Step 5: Diversity boost (prefer different sources)
     let diverseResults = fastReranked;
     if (diversityBoost) {
       const diversityStart = Date.now();
@@ -100,11 +172,11 @@ export async function hybridSearch(
       });
     }
     
-    // Step 5: LLM reranking (optional, more expensive)
-    let finalResults: RerankResult[];
+    // Step 6: LLM reranking (optional, more expensive)
+    let finalResults: Array<FusedResult & RerankResult>;
     if (useReranking && diverseResults.length > 1) {
       const llmRerankStart = Date.now();
-      finalResults = await rerankResults(query, diverseResults, topK);
+      finalResults = await rerankResults(query, diverseResults, topK, rerankerType);
       logger.info('HYBRID_SEARCH_LLM_RERANK', `LLM reranking completed in ${Date.now() - llmRerankStart}ms`, {
         inputCount: diverseResults.length,
         outputCount: finalResults.length,
@@ -126,17 +198,15 @@ export async function hybridSearch(
       });
     }
     
-    // Add search method metadata
-    const results = finalResults.map(r => ({
-      ...r,
-      searchMethod: 'hybrid' as const
-    }));
+    const results: HybridSearchResult[] = finalResults;
     
     logger.info('HYBRID_SEARCH_COMPLETE', `Hybrid search completed in ${Date.now() - startTime}ms`, {
       totalTime: Date.now() - startTime,
       finalResultCount: results.length,
       pipeline: {
         vector: vectorResults.length,
+        keyword: keywordResults.length,
+        fused: fusedResults.length,
         filtered: filteredResults.length,
         fastReranked: fastReranked.length,
         diverse: diverseResults.length,
@@ -159,32 +229,34 @@ export async function hybridSearch(
 /**
  * Apply diversity boost to prefer results from different sources
  */
-function applyDiversityBoost(
-  results: KBSearchResult[]
-): KBSearchResult[] {
+function applyDiversityBoost<T extends KBSearchResult>(
+  results: T[]
+): T[] {
   const seenSources = new Set<string>();
-  const boosted: KBSearchResult[] = [];
+  const boostedIndices = new Set<number>();
+  const boosted: T[] = [];
   
   // First pass: add one result from each unique source
-  for (const result of results) {
+  results.forEach((result, index) => {
     if (!seenSources.has(result.source)) {
       boosted.push({
         ...result,
         score: result.score * 1.2 // Boost first occurrence
       });
       seenSources.add(result.source);
+      boostedIndices.add(index);
     }
-  }
+  });
   
   // Second pass: add remaining results with slight penalty
-  for (const result of results) {
-    if (seenSources.has(result.source) && !boosted.includes(result)) {
+  results.forEach((result, index) => {
+    if (!boostedIndices.has(index)) {
       boosted.push({
         ...result,
         score: result.score * 0.9 // Slight penalty for duplicate sources
       });
     }
-  }
+  });
   
   return boosted.sort((a, b) => b.score - a.score);
 }
@@ -0,0 +1,224 @@
+import { randomUUID } from 'crypto';
+import {
+  ingestDocument,
+  STAGE_RANGES,
+  type IngestionInput,
+  type IngestionResult,
+  type IngestionStage,
+} from './ingestion';
+import { KBError, ErrorCode, handleKBError } from './error-handler';
+import { logger } from '../logger';
+
+/**
+ * Background ingestion jobs.
+ *
+ * POST /api/upload enqueues a job and returns immediately; the pipeline runs
+ * in-process and clients poll GET /api/upload/[jobId] for stage + percent.
+ * Jobs live in memory on the server instance that accepted the upload, so
+ * this needs a long-lived Node server (not per-request serverless functions).
+ * Jobs for the same document (session + filename) run one at a time, since
+ * each claims the next version number when it stores its chunks.
+ */
+
+export type JobStatus = 'queued' | IngestionStage | 'completed' | 'failed' | 'cancelled';
+
+export interface IngestionJob {
+  id: string;
+  sessionId: string;
+  filename: string;
+  status: JobStatus;
+  percent: number;
+  message?: string;
+  result?: IngestionResult;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface JobEntry {
+  job: IngestionJob;
+  input: IngestionInput;
+  cancelled: boolean;
+}
+
+const MAX_CONCURRENT_JOBS = parseInt(process.env.INGESTION_CONCURRENCY || '2', 10);
+
+// Finished jobs stay pollable for a while, then are dropped
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+interface JobRegistry {
+  jobs: Map<string, JobEntry>;
+  queue: string[];
+  running: number;
+  runningDocuments: Set<string>; // documentKey of every running job
+}
+
+// Survive Next.js dev hot reloads, which re-evaluate this module
+const registry = globalThis as typeof globalThis & { __ingestionJobs?: JobRegistry };
+const state: JobRegistry = registry.__ingestionJobs ??= { jobs: new Map(), queue: [], running: 0, runningDocuments: new Set() };
+state.runningDocuments ??= new Set(); // Registries created before the field existed
+
+function documentKey(input: IngestionInput): string {
+  return `${input.sessionId}\n${input.filename}`;
+}
+
+function isFinished(status: JobStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+function update(entry: JobEntry, changes: Partial<IngestionJob>) {
+  entry.job = { ...entry.job, ...changes, updatedAt: new Date().toISOString() };
+}
+
+function pruneExpired() {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const [id, entry] of Array.from(state.jobs.entries())) {
+    if (isFinished(entry.job.status) && new Date(entry.job.updatedAt).getTime() < cutoff) {
+      state.jobs.delete(id);
+    }
+  }
+}
+
+async function runJob(entry: JobEntry) {
+  const { job } = entry;
+  const startTime = Date.now();
+
+  try {
+    const result = await ingestDocument(entry.input, {
+      progress: (stage, fraction, message) => {
+        if (entry.cancelled) return;
+        const [from, to] = STAGE_RANGES[stage];
+        const percent = Math.round(from + (to - from) * Math.min(1, Math.max(0, fraction)));
+        update(entry, { status: stage, percent: Math.max(entry.job.percent, percent), message });
+      },
+      checkCancelled: () => {
+        if (entry.cancelled) {
+          throw new KBError('Upload cancelled', ErrorCode.UPLOAD_CANCELLED, { jobId: job.id }, false);
+        }
+      },
+    });
+
+    update(entry, { status: 'completed', percent: 100, message: undefined, result });
+    logger.info('INGESTION_JOB_COMPLETE', `Job ${job.id} completed in ${Date.now() - startTime}ms`, {
+      jobId: job.id,
+      filename: job.filename,
+      totalTime: Date.now() - startTime
+    });
+  } catch (error) {
+    if (error instanceof KBError && error.code === ErrorCode.UPLOAD_CANCELLED) {
+      update(entry, { status: 'cancelled', message: undefined });
+      logger.info('INGESTION_JOB_CANCELLED', `Job ${job.id} cancelled`, {
+        jobId: job.id,
+        filename: job.filename
+      });
+      return;
+    }
+
+    const handled = handleKBError(error, { operation: 'upload', filename: job.filename });
+    update(entry, {
+      status: 'failed',
+      message: undefined,
+      // Recoverable failures get a generic retry prompt, as the synchronous route did
+      error: handled.recoverable ? 'Upload failed. Please try again.' : handled.message,
+    });
+  } finally {
+    // Input buffers can be large - release them as soon as the job ends
+    entry.input = { ...entry.input, buffer: Buffer.alloc(0) };
+  }
+}
+
+/**
+ * Start queued jobs up to the concurrency limit, in order, skipping (for now)
+ * jobs whose document already has a job running
+ */
+function drainQueue() {
+  let index = 0;
+  while (state.running < MAX_CONCURRENT_JOBS && index < state.queue.length) {
+    const entry = state.jobs.get(state.queue[index]);
+    if (!entry || entry.cancelled) {
+      state.queue.splice(index, 1);
+      continue;
+    }
+
+    const key = documentKey(entry.input);
+    if (state.runningDocuments.has(key)) {
+      index++;
+      continue;
+    }
+
+    state.queue.splice(index, 1);
+    state.runningDocuments.add(key);
+    state.running++;
+    runJob(entry).finally(() => {
+      state.running--;
+      state.runningDocuments.delete(key);
+      drainQueue();
+    });
+  }
+}
+
+/**
+ * Queue a document for ingestion and return the job record
+ */
+export function enqueueIngestion(input: IngestionInput): IngestionJob {
+  pruneExpired();
+
+  const now = new Date().toISOString();
+  const entry: JobEntry = {
+    job: {
+      id: randomUUID(),
+      sessionId: input.sessionId,
+      filename: input.filename,
+      status: 'queued',
+      percent: 0,
+      createdAt: now,
+      updatedAt: now,
+    },
+    input,
+    cancelled: false,
+  };
+
+  state.jobs.set(entry.job.id, entry);
+  state.queue.push(entry.job.id);
+
+  logger.info('INGESTION_JOB_QUEUED', `Queued ${input.filename} as job ${entry.job.id}`, {
+    jobId: entry.job.id,
+    filename: input.filename,
+    queueLength: state.queue.length,
+    running: state.running
+  });
+
+  drainQueue();
+  return entry.job;
+}
+
+/**
+ * Look up a job, scoped to the session that created it
+ */
+export function getIngestionJob(jobId: string, sessionId: string): IngestionJob | null {
+  const entry = state.jobs.get(jobId);
+  return entry && entry.job.sessionId === sessionId ? entry.job : null;
+}
+
+/**
+ * Request cancellation. Running jobs stop at the next stage boundary, before
+ * anything is written; a job that is already storing runs to completion.
+ */
+export function cancelIngestionJob(jobId: string, sessionId: string): IngestionJob {
+  const entry = state.jobs.get(jobId);
+  if (!entry || entry.job.sessionId !== sessionId) {
+    throw new KBError('Job not found', ErrorCode.JOB_NOT_FOUND, { jobId }, false);
+  }
+
+  if (!isFinished(entry.job.status) && entry.job.status !== 'storing') {
+    entry.cancelled = true;
+    if (entry.job.status === 'queued') {
+      state.queue = state.queue.filter(id => id !== jobId);
+      update(entry, { status: 'cancelled' });
+    } else {
+      update(entry, { message: 'Cancelling...' });
+    }
+  }
+
+  return entry.job;
+}
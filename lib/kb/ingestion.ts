@@ -0,0 +1,432 @@
+import { extractDocument, ocrConfidenceForSpan, pagesForSpan } from './text-extractor';
+import { getOcrMinConfidence } from './ocr';
+import { chunkSections, chunkText, getChunkingMode, isTableChunk, locateChunks } from './chunker';
+import { getChunkingStrategy, resolveChunkOptions, type ChunkingSettings, type ChunkOptions } from './chunking';
+import { validateChunk } from './validator';
+import { generateEmbeddings } from './embeddings';
+import { storeChunks } from './vector-db';
+import { getActiveKB } from './active-kb';
+import {
+  hashContent,
+  findDuplicateDocument,
+  getNextVersion,
+  publishDocumentVersion,
+} from './document-versions';
+import { retryWithBackoff, KBError, ErrorCode } from './error-handler';
+import { getInjectionAction, neutraliseInjection, scanForInjection } from '../guards/injection-guard';
+import { describeRedactions, getRedactionTypes, mapRedactedOffset, redactPII, type RedactionCounts } from '../guards/pii-redactor';
+import { logger } from '../logger';
+
+/**
+ * Document ingestion pipeline: extract → chunk → validate → embed → store.
+ * Runs inside an ingestion job (see ingestion-jobs.ts) and reports progress per stage.
+ */
+
+export type IngestionStage = 'extracting' | 'chunking' | 'validating' | 'embedding' | 'storing';
+
+export interface IngestionInput {
+  buffer: Buffer;
+  filename: string;
+  fileType: string;
+  sessionId: string;
+  sourceUrl?: string; // Documents added by URL: the page they were fetched from
+  chunking?: ChunkingSettings; // Strategy / size chosen for this upload
+  trusted?: boolean; // Curated content (e.g. evaluation fixtures): skip LLM validation
+}
+
+export interface IngestionResult {
+  success: true;
+  filename: string;
+  documentId?: string;
+  version?: number;
+  duplicateOf?: string; // Set when identical content is already in the KB; nothing was stored
+  chunks: number;
+  validChunks: number;
+  totalChunks: number;
+  avgValidation: number;
+  flaggedChunks?: number; // Stored chunks the injection guard neutralised or quarantined
+  redactions?: RedactionCounts; // PII values replaced before chunking, per entity type
+  warnings?: string[];
+}
+
+export interface IngestionReporter {
+  /** Report progress within a stage (0-1) */
+  progress(stage: IngestionStage, fraction: number, message?: string): void;
+  /** Throws if the job was cancelled */
+  checkCancelled(): void;
+}
+
+// Overall percent range covered by each stage (validation dominates: one LLM call per chunk)
+export const STAGE_RANGES: Record<IngestionStage, [number, number]> = {
+  extracting: [0, 10],
+  chunking: [10, 20],
+  validating: [20, 75],
+  embedding: [75, 90],
+  storing: [90, 100],
+};
+
+function describePages(pages: number[]): string {
+  return pages.length === 1 ? `page ${pages[0]}` : `pages ${pages.join(', ')}`;
+}
+
+/**
+ * "strategy:maxTokens:overlap:mode", stored with each chunk and part of the duplicate-upload key
+ */
+function getChunkingKey(strategy: string, options: ChunkOptions, mode: string): string {
+  return `${strategy}:${options.maxTokens}:${options.overlap}:${mode}`;
+}
+
+export async function ingestDocument(
+  input: IngestionInput,
+  reporter: IngestionReporter
+): Promise<IngestionResult> {
+  const { buffer, filename, fileType, sessionId, sourceUrl, chunking, trusted } = input;
+
+  const chunkOptions = resolveChunkOptions(chunking);
+  const strategy = getChunkingStrategy(chunking?.strategy);
+  const chunkingMode = getChunkingMode();
+  const chunkingKey = getChunkingKey(strategy.name, chunkOptions, chunkingMode);
+
+  // Skip the whole pipeline when the exact same file is already current with the same chunking
+  // (documents stored before chunking keys existed were chunked with the defaults)
+  const contentHash = hashContent(buffer);
+  const legacyChunkingKey = getChunkingKey(getChunkingStrategy().name, resolveChunkOptions(), chunkingMode);
+  const duplicate = await findDuplicateDocument(contentHash, chunkingKey, legacyChunkingKey, sessionId);
+  if (duplicate) {
+    logger.info('DUPLICATE_DOCUMENT', `${filename} has the same content as ${duplicate.filename}, skipping`, {
+      filename,
+      duplicateOf: duplicate.filename,
+      version: duplicate.version
+    });
+    return {
+      success: true,
+      filename,
+      duplicateOf: duplicate.filename,
+      chunks: 0,
+      validChunks: 0,
+      totalChunks: 0,
+      avgValidation: 0,
+      warnings: [duplicate.filename === filename
+        ? `${filename} is unchanged since the current version; nothing was re-indexed.`
+        : `${filename} has the same content as ${duplicate.filename}, which is already in K-Base.`]
+    };
+  }
+
+  // Extract text with retry
+  reporter.progress('extracting', 0, 'Extracting text');
+  const extracted = await retryWithBackoff(async () => {
+    try {
+      return await extractDocument(buffer, fileType);
+    } catch (error) {
+      throw new KBError(
+        'Text extraction failed',
+        ErrorCode.EXTRACTION_FAILED,
+        { filename, error: error instanceof Error ? error.message : 'Unknown error' },
+        true
+      );
+    }
+  });
+
+  // Redact PII before anything is chunked, validated, embedded or stored
+  const redaction = redactPII(extracted.text, getRedactionTypes());
+  const text = redaction.text;
+  const pages = redaction.total > 0
+    ? extracted.pages?.map(page => ({
+      ...page,
+      charStart: mapRedactedOffset(page.charStart, redaction.edits),
+      charEnd: mapRedactedOffset(page.charEnd, redaction.edits)
+    }))
+    : extracted.pages;
+  const headings = redaction.total > 0
+    ? extracted.headings?.map(heading => ({
+      ...heading,
+      charStart: mapRedactedOffset(heading.charStart, redaction.edits),
+      charEnd: mapRedactedOffset(heading.charEnd, redaction.edits)
+    }))
+    : extracted.headings;
+
+  logger.info('TEXT_EXTRACTED', `Extracted ${text.length} characters`, {
+    filename,
+    textLength: text.length
+  });
+  if (redaction.total > 0) {
+    logger.info('PII_REDACTED', `Redacted ${redaction.total} PII value(s) from ${filename}`, {
+      filename,
+      counts: redaction.counts
+    });
+  }
+  reporter.checkCancelled();
+
+  // Chunk text with the upload's strategy and size, within sections unless CHUNKING_MODE=flat
+  reporter.progress('chunking', 0, 'Chunking text');
+  const pieces = await retryWithBackoff(async () => {
+    try {
+      return chunkingMode === 'sections'
+        ? await chunkSections(text, chunkOptions, headings, strategy)
+        : (await chunkText(text, chunkOptions, strategy)).map(chunk => ({ content: chunk, body: chunk, sectionPath: [] as string[] }));
+    } catch (error) {
+      throw new KBError(
+        'Chunking failed',
+        ErrorCode.CHUNKING_FAILED,
+        { filename, error: error instanceof Error ? error.message : 'Unknown error' },
+        true
+      );
+    }
+  });
+  const chunks = pieces.map(piece => piece.content);
+
+  // Where each chunk came from, for the source viewer (located by its text without the heading path)
+  const spans = locateChunks(text, pieces.map(piece => piece.body));
+
+  logger.info('TEXT_CHUNKED', `Created ${chunks.length} chunks`, {
+    filename,
+    chunkCount: chunks.length,
+    chunkingMode,
+    strategy: strategy.name,
+    maxTokens: chunkOptions.maxTokens,
+    overlap: chunkOptions.overlap,
+    sections: new Set(pieces.map(piece => piece.sectionPath.join('\n'))).size,
+    unlocatedChunks: spans.filter(span => !span).length
+  });
+  reporter.checkCancelled();
+
+  // Screen for prompt injection before anything else (the validator included) reads the chunks
+  const injectionAction = getInjectionAction();
+  const injections = chunks.map((chunk, i) => {
+    if (injectionAction === 'off') return null;
+    const scan = scanForInjection(chunk);
+    if (!scan.detected) return null;
+    if (injectionAction === 'neutralise') {
+      chunks[i] = neutraliseInjection(chunk, scan);
+    }
+    return {
+      action: injectionAction === 'neutralise' ? 'neutralised' as const : 'quarantined' as const,
+      patterns: scan.patterns
+    };
+  });
+  const flaggedChunks = injections.filter(Boolean).length;
+  const isQuarantined = (index: number) => injections[index]?.action === 'quarantined';
+
+  if (flaggedChunks > 0) {
+    logger.warn('INJECTION_DETECTED', `${flaggedChunks} chunk(s) of ${filename} contain instruction-like text`, {
+      source: 'upload',
+      filename,
+      action: injectionAction,
+      chunks: injections.flatMap((injection, i) => injection ? [{ chunkIndex: i, patterns: injection.patterns }] : [])
+    });
+  }
+
+  // Validate chunks (in parallel for speed) with error handling
+  let validated = 0;
+  reporter.progress('validating', 0, `Validating 0/${chunks.length} chunks`);
+  const validationResults = await Promise.all(
+    chunks.map(async (chunk, i) => {
+      let result;
+      try {
+        // Quarantined text never reaches the validator LLM; it is stored with a zero score
+        result = isQuarantined(i)
+          ? { isValid: false, confidence: 0, issues: ['Quarantined: instruction-like text'], reasoning: 'Validation skipped (quarantined)' }
+          : trusted
+            ? { isValid: true, confidence: 1, issues: [], reasoning: 'Validation skipped (trusted content)' }
+            : await validateChunk(chunk);
+      } catch (error) {
+        logger.warn('VALIDATION_ERROR', `Chunk validation failed, using default`, {
+          filename,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        // Return default validation on error
+        result = {
+          isValid: true,
+          confidence: 0.7,
+          issues: ['Validation failed, using default score'],
+          reasoning: 'Validation service unavailable'
+        };
+      }
+      validated++;
+      reporter.progress('validating', validated / chunks.length, `Validating ${validated}/${chunks.length} chunks`);
+      return result;
+    })
+  );
+  reporter.checkCancelled();
+
+  // Filter invalid chunks (keep only valid chunks with 0.7+ confidence)
+  const validChunksWithIndices = chunks
+    .map((chunk, i) => ({ chunk, index: i, validation: validationResults[i] }))
+    .filter(item => item.validation.isValid && item.validation.confidence >= 0.7);
+
+  const validChunks = validChunksWithIndices.map(item => item.chunk);
+
+  // Calculate average validation score (0 for invalid, confidence for valid); quarantined chunks were not validated
+  const validationScores = validationResults
+    .filter((_, i) => !isQuarantined(i))
+    .map(v => v.isValid ? v.confidence : 0);
+  const avgValidation = validationScores.length > 0
+    ? validationScores.reduce((a, b) => a + b, 0) / validationScores.length
+    : 0;
+
+  logger.info('VALIDATION_COMPLETE', `${validChunks.length}/${chunks.length} chunks passed validation`, {
+    filename,
+    totalChunks: chunks.length,
+    validChunks: validChunks.length,
+    avgValidation: avgValidation.toFixed(2)
+  });
+
+  // If no chunks passed validation, store the original chunks with 0 validation score
+  // This allows users to see rejected documents in K-Base with "Insufficient Quality" label
+  // Quarantined chunks are kept alongside the valid ones (search never returns them)
+  const quarantinedChunks = chunks
+    .map((chunk, i) => ({ chunk, index: i, validation: validationResults[i] }))
+    .filter(item => isQuarantined(item.index));
+  const chunksToStore = validChunks.length > 0
+    ? [...validChunksWithIndices, ...quarantinedChunks].sort((a, b) => a.index - b.index)
+    : chunks.map((chunk, i) => ({
+    chunk,
+    index: i,
+    validation: { confidence: 0, isValid: false, issues: validationResults[i].issues, reasoning: validationResults[i].reasoning }
+  }));
+
+  if (validChunks.length === 0) {
+    logger.warn('NO_VALID_CHUNKS', `No chunks passed validation for ${filename}, storing with 0 score`, {
+      avgValidation: avgValidation.toFixed(2),
+      issues: validationResults.flatMap(r => r.issues).slice(0, 5)
+    });
+  }
+
+  // Generate embeddings
+  reporter.progress('embedding', 0, 'Generating embeddings');
+  const { provider } = await getActiveKB({ fresh: true });
+  const embeddings = await generateEmbeddings(chunksToStore.map(item => item.chunk), provider);
+
+  logger.info('EMBEDDINGS_GENERATED', `Generated ${embeddings.length} embeddings`, {
+    filename,
+    embeddingCount: embeddings.length
+  });
+  // Last point of no return: nothing has been written yet
+  reporter.checkCancelled();
+
+  // Store in vector DB as a new (not yet visible) version
+  reporter.progress('storing', 0, 'Storing in K-Base');
+  const target = await getNextVersion(filename, sessionId, contentHash);
+  const kbChunks = chunksToStore.map((item, i) => {
+    const span = spans[item.index];
+    const pageRange = span && pages ? pagesForSpan(pages, span.charStart, span.charEnd) : null;
+    const ocrConfidence = span && pages ? ocrConfidenceForSpan(pages, span.charStart, span.charEnd) : undefined;
+    const { body, sectionPath } = pieces[item.index];
+    return {
+      id: `${filename}-${Date.now()}-${i}`,
+      content: item.chunk,
+      metadata: {
+        filename,
+        fileType,
+        uploadDate: new Date().toISOString(),
+        chunkIndex: i,
+        validationScore: item.validation.confidence,
+        sessionId: sessionId, // Add session ID for user isolation
+        ...(sourceUrl ? { sourceUrl } : {}),
+        documentId: target.documentId,
+        version: target.version,
+        contentHash,
+        archived: true, // Hidden until published below
+        validationReasoning: item.validation.reasoning,
+        chunkType: isTableChunk(body) ? 'table' as const : 'text' as const,
+        chunkingStrategy: strategy.name,
+        chunkingKey,
+        ...(sectionPath.length > 0 ? { sectionPath } : {}),
+        ...(injections[item.index] ? { injection: injections[item.index]! } : {}),
+        ...(span ? { charStart: span.charStart, charEnd: span.charEnd } : {}),
+        ...(pageRange || {}),
+        ...(ocrConfidence !== undefined ? { ocrConfidence } : {})
+      }
+    };
+  });
+
+  // Point ids are deterministic, so retrying a partially applied upsert is safe
+  await retryWithBackoff(async () => {
+    try {
+      return await storeChunks(kbChunks, embeddings, sessionId);
+    } catch (error) {
+      if (error instanceof KBError) throw error;
+      throw new KBError(
+        'Storing chunks failed',
+        ErrorCode.STORAGE_FAILED,
+        { filename, error: error instanceof Error ? error.message : 'Unknown error' },
+        true
+      );
+    }
+  });
+  // Swap the new version in for the old one
+  await publishDocumentVersion(filename, sessionId, target);
+  reporter.progress('storing', 1, 'Stored');
+
+  logger.info('DOCUMENT_UPLOADED', `Document ${filename} successfully processed and stored`, {
+    filename,
+    documentId: target.documentId,
+    version: target.version,
+    chunks: chunksToStore.length,
+    validChunks: validChunks.length,
+    avgValidation: avgValidation.toFixed(2)
+  });
+
+  // Collect warnings
+  const warnings: string[] = [];
+
+  if (target.previousVersion !== null) {
+    warnings.push(`Replaced version ${target.previousVersion} of ${filename} (now version ${target.version}).`);
+  }
+
+  if (redaction.total > 0) {
+    warnings.push(`Redacted ${describeRedactions(redaction.counts)} before indexing.`);
+  }
+
+  if (extracted.ocr) {
+    const minConfidence = getOcrMinConfidence();
+    const lowConfidence = extracted.ocr.pages.filter(p => p.confidence < minConfidence);
+    if (extracted.ocr.pages.length > 0) {
+      warnings.push(`Text of ${describePages(extracted.ocr.pages.map(p => p.page))} was read by OCR; check citations against the original.`);
+    }
+    if (lowConfidence.length > 0) {
+      logger.warn('OCR_LOW_CONFIDENCE', `Low OCR confidence on ${lowConfidence.length} page(s) of ${filename}`, {
+        filename,
+        pages: lowConfidence,
+        minConfidence
+      });
+      warnings.push(`OCR confidence is low on ${describePages(lowConfidence.map(p => p.page))} (${lowConfidence.map(p => `${Math.round(p.confidence * 100)}%`).join(', ')}); the text may contain recognition errors. A cleaner scan will give better answers.`);
+    }
+    if (extracted.ocr.unreadablePages.length > 0) {
+      warnings.push(`${describePages(extracted.ocr.unreadablePages)} ${extracted.ocr.unreadablePages.length === 1 ? 'is a scan that' : 'are scans that'} could not be read and ${extracted.ocr.unreadablePages.length === 1 ? 'was' : 'were'} skipped.`);
+    }
+  }
+
+  const storedFlagged = chunksToStore.filter(item => injections[item.index]).length;
+  if (storedFlagged > 0) {
+    warnings.push(injectionAction === 'quarantine'
+      ? `${storedFlagged} chunk(s) contain instruction-like text (possible prompt injection) and were quarantined: they are stored but never returned by search.`
+      : `${storedFlagged} chunk(s) contain instruction-like text (possible prompt injection); those passages were removed before indexing.`);
+  }
+
+  // Warn if no chunks passed validation
+  if (validChunks.length === 0) {
+    warnings.push('Document failed quality validation and is marked as "Insufficient Quality". Review and correct the content.');
+  }
+
+  // Warn for low-confidence chunks
+  const lowConfWarnings = validationResults
+    .filter(r => r.isValid && r.confidence >= 0.7 && r.confidence < 0.9)
+    .map(r => r.reasoning)
+    .slice(0, 2);
+  warnings.push(...lowConfWarnings);
+
+  return {
+    success: true,
+    filename,
+    documentId: target.documentId,
+    version: target.version,
+    chunks: chunksToStore.length,
+    validChunks: validChunks.length,
+    totalChunks: chunks.length,
+    avgValidation: parseFloat(avgValidation.toFixed(2)),
+    ...(storedFlagged > 0 ? { flaggedChunks: storedFlagged } : {}),
+    ...(redaction.total > 0 ? { redactions: redaction.counts } : {}),
+    warnings: warnings.length > 0 ? warnings : undefined
+  };
+}
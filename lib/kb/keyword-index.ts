@@ -0,0 +1,201 @@
+import { getActiveKB } from './active-kb';
+import { SEARCHABLE_FILTER } from './document-versions';
+import type { VectorStore } from './stores';
+import type { KBSearchResult } from './vector-db';
+import { logger } from '../logger';
+
+/**
+ * BM25 keyword index over stored KB chunks, built per session.
+ * Catches exact terms the embedding misses ("80C", "ELSS", tickers).
+ */
+
+interface IndexedChunk {
+  id: string;
+  content: string;
+  source: string;
+  validationScore: number;
+  sourceUrl?: string;
+  sectionPath?: string[];
+  termFreqs: Map<string, number>;
+  length: number;
+}
+
+interface BM25Index {
+  chunks: IndexedChunk[];
+  docFreqs: Map<string, number>;
+  avgLength: number;
+  builtAt: number;
+}
+
+// BM25 parameters (standard Okapi defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+// Indexes are rebuilt on writes; the TTL covers writes from other instances
+const INDEX_TTL_MS = 5 * 60 * 1000;
+const SCROLL_PAGE_SIZE = 500;
+
+const indexes = new Map<string, BM25Index>();
+
+const ALL_SESSIONS = '__all__';
+
+// Keyed by collection too, so a migration swap never serves a stale index
+function cacheKey(collection: string, sessionId?: string): string {
+  return `${collection}:${sessionId || ALL_SESSIONS}`;
+}
+
+/**
+ * Lowercase and split into terms, keeping alphanumeric codes ("80c", "nifty50")
+ * and decimal numbers ("1,234.56") intact
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+(?:[.,][0-9]+)*/g) || [];
+}
+
+/**
+ * Drop the cached index so the next search rebuilds it
+ */
+export function invalidateKeywordIndex(sessionId?: string) {
+  for (const key of Array.from(indexes.keys())) {
+    // The global index covers every session
+    if (key.endsWith(`:${sessionId || ALL_SESSIONS}`) || key.endsWith(`:${ALL_SESSIONS}`)) {
+      indexes.delete(key);
+    }
+  }
+}
+
+async function buildIndex(store: VectorStore, sessionId?: string): Promise<BM25Index> {
+  const startTime = Date.now();
+  await store.ensureCollection();
+
+  const chunks: IndexedChunk[] = [];
+  const docFreqs = new Map<string, number>();
+  let offset: string | number | null = null;
+  let totalLength = 0;
+
+  do {
+    const page = await store.scroll({
+      filter: sessionId ? { sessionId, ...SEARCHABLE_FILTER } : SEARCHABLE_FILTER,
+      limit: SCROLL_PAGE_SIZE,
+      offset,
+      withPayload: true,
+      withVector: false,
+    });
+
+    for (const point of page.points) {
+      const content = (point.payload.content as string) || '';
+      const terms = tokenize(content);
+      const termFreqs = new Map<string, number>();
+      for (const term of terms) {
+        termFreqs.set(term, (termFreqs.get(term) || 0) + 1);
+      }
+      for (const term of Array.from(termFreqs.keys())) {
+        docFreqs.set(term, (docFreqs.get(term) || 0) + 1);
+      }
+
+      chunks.push({
+        id: String(point.id),
+        content,
+        source: (point.payload.filename as string) || 'Unknown',
+        validationScore: (point.payload.validationScore as number) || 0,
+        ...(point.payload.sourceUrl ? { sourceUrl: point.payload.sourceUrl as string } : {}),
+        ...(point.payload.sectionPath ? { sectionPath: point.payload.sectionPath as string[] } : {}),
+        termFreqs,
+        length: terms.length,
+      });
+      totalLength += terms.length;
+    }
+
+    offset = page.nextOffset;
+  } while (offset !== null);
+
+  logger.info('KEYWORD_INDEX_BUILT', `Built BM25 index over ${chunks.length} chunks in ${Date.now() - startTime}ms`, {
+    sessionId,
+    chunkCount: chunks.length,
+    vocabularySize: docFreqs.size,
+    buildTime: Date.now() - startTime
+  });
+
+  return {
+    chunks,
+    docFreqs,
+    avgLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+    builtAt: Date.now(),
+  };
+}
+
+async function getIndex(sessionId?: string): Promise<BM25Index> {
+  const { store } = await getActiveKB();
+  const key = cacheKey(store.collection, sessionId);
+  const cached = indexes.get(key);
+  if (cached && Date.now() - cached.builtAt < INDEX_TTL_MS) {
+    return cached;
+  }
+  const index = await buildIndex(store, sessionId);
+  indexes.set(key, index);
+  return index;
+}
+
+/**
+ * Score chunks against the query with BM25 and return the top matches
+ */
+export async function keywordSearch(
+  query: string,
+  topK: number = 5,
+  sessionId?: string
+): Promise<KBSearchResult[]> {
+  const startTime = Date.now();
+
+  try {
+    const index = await getIndex(sessionId);
+    const queryTerms = Array.from(new Set(tokenize(query)));
+
+    if (index.chunks.length === 0 || queryTerms.length === 0) {
+      return [];
+    }
+
+    const n = index.chunks.length;
+    const scored = index.chunks.map(chunk => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = chunk.termFreqs.get(term);
+        if (!tf) continue;
+        const df = index.docFreqs.get(term) || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        const norm = tf + K1 * (1 - B + B * (chunk.length / (index.avgLength || 1)));
+        score += idf * ((tf * (K1 + 1)) / norm);
+      }
+      return { chunk, score };
+    });
+
+    // Same validation threshold as vector search
+    const results = scored
+      .filter(s => s.score > 0 && s.chunk.validationScore >= 0.7)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map(s => ({
+        id: s.chunk.id,
+        content: s.chunk.content,
+        source: s.chunk.source,
+        score: s.score,
+        validationScore: s.chunk.validationScore,
+        ...(s.chunk.sourceUrl ? { sourceUrl: s.chunk.sourceUrl } : {}),
+        ...(s.chunk.sectionPath ? { sectionPath: s.chunk.sectionPath } : {}),
+      }));
+
+    logger.debug('KEYWORD_SEARCH_COMPLETE', `BM25 search returned ${results.length} results in ${Date.now() - startTime}ms`, {
+      queryTerms,
+      resultCount: results.length,
+      topScores: results.slice(0, 3).map(r => r.score.toFixed(3))
+    });
+
+    return results;
+  } catch (error: any) {
+    logger.error('KEYWORD_SEARCH_ERROR', 'Keyword search failed', {
+      error: error.message,
+      stack: error.stack
+    });
+    // Keyword search is additive - never fail the whole hybrid search
+    return [];
+  }
+}
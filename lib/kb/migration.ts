@@ -0,0 +1,263 @@
+import {
+  getVectorStore,
+  getCollectionName,
+  type PointId,
+  type StoredPoint,
+  type VectorStore,
+} from './stores';
+import { getEmbeddingModelId, type EmbeddingProvider } from './embeddings';
+import {
+  activateCollection,
+  getActiveKB,
+  readMetaRecord,
+  writeMetaRecord,
+  MIGRATION_CHECKPOINT_POINT_ID,
+} from './active-kb';
+import { KBError, ErrorCode, retryWithBackoff } from './error-handler';
+import { logger } from '../logger';
+
+/**
+ * Re-embedding migration: copies every point of the active collection into a
+ * collection for the target model, re-embedding the stored content, then swaps
+ * the active manifest. Progress is checkpointed after every batch so a crashed
+ * run resumes where it stopped; point ids are preserved, so replaying the last
+ * batch is a harmless overwrite. Before the swap the target is reconciled with
+ * the source by point id, so uploads, deletes and version switches that hit the
+ * source during the run are carried over.
+ */
+
+export interface MigrationCheckpoint {
+  sourceCollection: string;
+  targetCollection: string;
+  targetModelId: string;
+  offset: PointId | null;
+  migrated: number;
+  total: number;
+  startedAt: string;
+  updatedAt: string;
+}
+
+export interface MigrationProgress {
+  migrated: number;
+  total: number;
+  percent: number;
+  batchTime: number;
+}
+
+export interface MigrationOptions {
+  batchSize?: number;
+  restart?: boolean; // Ignore an existing checkpoint
+  activate?: boolean; // Swap the active collection when done (default: true)
+  onProgress?: (progress: MigrationProgress) => void;
+}
+
+export interface MigrationResult {
+  sourceCollection: string;
+  targetCollection: string;
+  migrated: number;
+  resumed: boolean;
+  activated: boolean;
+}
+
+interface ReconcileResult {
+  copied: number; // Source points missing from the target, or changed since they were copied
+  removed: number; // Target points no longer in the source
+}
+
+/**
+ * Re-embed source points and upsert them into the target under the same ids
+ */
+async function copyPoints(points: StoredPoint[], target: EmbeddingProvider, targetStore: VectorStore, targetModelId: string) {
+  if (points.length === 0) return;
+
+  const texts = points.map(p => (p.payload.content as string) || '');
+  const vectors = await retryWithBackoff(async () => {
+    try {
+      return await target.embed(texts);
+    } catch (error) {
+      throw new KBError(
+        'Re-embedding failed',
+        ErrorCode.EMBEDDING_FAILED,
+        { error: error instanceof Error ? error.message : 'Unknown error' },
+        true
+      );
+    }
+  });
+
+  await targetStore.upsert(points.map((point, i) => ({
+    id: point.id,
+    vector: vectors[i],
+    payload: { ...point.payload, embeddingModel: targetModelId },
+  })));
+}
+
+// Payload equality, ignoring key order and the embeddingModel stamp
+function samePayload(source: Record<string, any>, target: Record<string, any>): boolean {
+  const keys = Object.keys(source).filter(key => key !== 'embeddingModel');
+  return keys.length === Object.keys(target).filter(key => key !== 'embeddingModel').length &&
+    keys.every(key => JSON.stringify(source[key]) === JSON.stringify(target[key]));
+}
+
+/**
+ * Make the target hold exactly the source's points: copy points that are
+ * missing or whose payload changed, and delete points the source no longer has
+ */
+async function reconcileTarget(
+  source: VectorStore,
+  targetStore: VectorStore,
+  target: EmbeddingProvider,
+  targetModelId: string,
+  batchSize: number
+): Promise<ReconcileResult> {
+  const sourceIds = new Set<string>();
+  let copied = 0;
+  let offset: PointId | null = null;
+  do {
+    const page = await source.scroll({ offset, limit: batchSize, withPayload: true, withVector: false });
+    const existing = new Map<string, StoredPoint>();
+    for (const point of await targetStore.retrieve(page.points.map(p => p.id))) {
+      existing.set(String(point.id), point);
+    }
+
+    const stale = page.points.filter(point => {
+      const copy = existing.get(String(point.id));
+      return !copy || !samePayload(point.payload, copy.payload);
+    });
+    await copyPoints(stale, target, targetStore, targetModelId);
+
+    page.points.forEach(point => sourceIds.add(String(point.id)));
+    copied += stale.length;
+    offset = page.nextOffset;
+  } while (offset !== null);
+
+  let removed = 0;
+  offset = null;
+  do {
+    const page = await targetStore.scroll({ offset, limit: batchSize, withPayload: false, withVector: false });
+    const extra = page.points.filter(point => !sourceIds.has(String(point.id))).map(point => point.id);
+    if (extra.length > 0) {
+      await targetStore.deleteByIds(extra);
+      removed += extra.length;
+    }
+    offset = page.nextOffset;
+  } while (offset !== null);
+
+  return { copied, removed };
+}
+
+export async function migrateEmbeddings(
+  target: EmbeddingProvider,
+  options: MigrationOptions = {}
+): Promise<MigrationResult> {
+  const startTime = Date.now();
+  const { batchSize = 64, restart = false, activate = true, onProgress } = options;
+
+  const { store: source, provider: sourceProvider } = await getActiveKB({ fresh: true });
+  const targetModelId = getEmbeddingModelId(target);
+  const targetCollection = getCollectionName(target);
+
+  if (targetModelId === getEmbeddingModelId(sourceProvider) || targetCollection === source.collection) {
+    throw new KBError(
+      'Target embedding model is already active',
+      ErrorCode.EMBEDDING_MODEL_MISMATCH,
+      { collection: source.collection, targetModelId },
+      false
+    );
+  }
+
+  const targetStore = getVectorStore(targetCollection, target.dimension);
+  await source.ensureCollection();
+  await targetStore.ensureCollection();
+
+  // Resume only a checkpoint for exactly this source → target pair
+  let checkpoint = restart ? null : await readMetaRecord<MigrationCheckpoint>(MIGRATION_CHECKPOINT_POINT_ID);
+  const resumed = !!checkpoint &&
+    checkpoint.sourceCollection === source.collection &&
+    checkpoint.targetModelId === targetModelId;
+
+  if (!resumed) {
+    checkpoint = {
+      sourceCollection: source.collection,
+      targetCollection,
+      targetModelId,
+      offset: null,
+      migrated: 0,
+      total: await source.count(),
+      startedAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+    await writeMetaRecord(MIGRATION_CHECKPOINT_POINT_ID, checkpoint);
+  }
+
+  let state = checkpoint!;
+
+  logger.info('MIGRATION_START', `${resumed ? 'Resuming' : 'Starting'} migration ${source.collection} → ${targetCollection}`, {
+    sourceCollection: source.collection,
+    targetCollection,
+    targetModelId,
+    total: state.total,
+    alreadyMigrated: state.migrated,
+    batchSize
+  });
+
+  let done = state.migrated > 0 && state.offset === null;
+
+  while (!done) {
+    const batchStart = Date.now();
+    const page = await source.scroll({
+      offset: state.offset,
+      limit: batchSize,
+      withPayload: true,
+      withVector: false,
+    });
+
+    await copyPoints(page.points, target, targetStore, targetModelId);
+
+    state = {
+      ...state,
+      offset: page.nextOffset,
+      migrated: state.migrated + page.points.length,
+      updatedAt: new Date().toISOString(),
+    };
+    await writeMetaRecord(MIGRATION_CHECKPOINT_POINT_ID, state);
+
+    const progress: MigrationProgress = {
+      migrated: state.migrated,
+      total: state.total,
+      percent: state.total > 0 ? Math.min(100, Math.round((state.migrated / state.total) * 100)) : 100,
+      batchTime: Date.now() - batchStart,
+    };
+    logger.info('MIGRATION_PROGRESS', `Migrated ${progress.migrated}/${progress.total} points (${progress.percent}%)`, progress);
+    onProgress?.(progress);
+
+    done = page.nextOffset === null;
+  }
+
+  // The scroll above misses writes to pages it had already passed - carry them over by point id
+  const reconciled = await reconcileTarget(source, targetStore, target, targetModelId, batchSize);
+  logger.info('MIGRATION_RECONCILED', `Reconciled target with source: ${reconciled.copied} copied, ${reconciled.removed} removed`, {
+    ...reconciled
+  });
+
+  const activated = activate;
+  if (activated) {
+    await activateCollection(targetCollection, target);
+    await writeMetaRecord(MIGRATION_CHECKPOINT_POINT_ID, null);
+  }
+
+  logger.info('MIGRATION_COMPLETE', `Migration finished in ${Date.now() - startTime}ms`, {
+    sourceCollection: source.collection,
+    targetCollection,
+    migrated: state.migrated,
+    activated,
+    totalTime: Date.now() - startTime
+  });
+
+  return {
+    sourceCollection: source.collection,
+    targetCollection,
+    migrated: state.migrated,
+    resumed,
+    activated,
+  };
+}
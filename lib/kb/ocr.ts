@@ -0,0 +1,125 @@
+import { join } from 'path';
+import { logger } from '../logger';
+import type { PdfImage } from './pdf-images';
+
+/**
+ * Local OCR (tesseract.js, WASM) for scanned PDF pages and image uploads.
+ * No network: the language data is read from OCR_LANG_PATH, by default the
+ * @tesseract.js-data/eng package. Images are converted to grayscale and
+ * small scans upscaled (sharp) before recognition.
+ */
+
+export interface OcrPage {
+  page: number; // 1-based
+  text: string;
+  confidence: number; // 0-1, tesseract's mean word confidence
+}
+
+// Scans narrower than this are upscaled; tesseract reads ~300 DPI text best
+const MIN_OCR_WIDTH = 1600;
+const MAX_UPSCALE = 3;
+
+export function isOcrEnabled(): boolean {
+  return process.env.OCR_ENABLED?.toLowerCase() !== 'false';
+}
+
+/** Pages below this confidence produce an upload warning (OCR_MIN_CONFIDENCE, 0-1, default 0.6) */
+export function getOcrMinConfidence(): number {
+  const value = parseFloat(process.env.OCR_MIN_CONFIDENCE || '');
+  return isNaN(value) ? 0.6 : value;
+}
+
+/** Most pages OCR'd per document (OCR_MAX_PAGES, default 50), to bound upload time */
+export function getOcrMaxPages(): number {
+  const value = parseInt(process.env.OCR_MAX_PAGES || '', 10);
+  return isNaN(value) || value < 1 ? 50 : value;
+}
+
+function getLangPath(): string {
+  return process.env.OCR_LANG_PATH || join(process.cwd(), 'node_modules', '@tesseract.js-data', 'eng', '4.0.0');
+}
+
+async function toOcrInput(image: PdfImage | Buffer): Promise<Buffer> {
+  const sharp = (await import('sharp')).default;
+  const input = Buffer.isBuffer(image)
+    ? sharp(image)
+    : image.kind === 'jpeg'
+    ? sharp(image.data)
+    : sharp(image.data, { raw: { width: image.width, height: image.height, channels: image.channels } });
+
+  const width = (await input.metadata()).width || MIN_OCR_WIDTH;
+  const scale = Math.min(MAX_UPSCALE, MIN_OCR_WIDTH / width);
+
+  return input
+    .rotate() // EXIF orientation of phone photos
+    .grayscale()
+    .resize(scale > 1 ? { width: Math.round(width * scale) } : undefined)
+    .withMetadata({ density: 300 }) // Scans rarely carry a usable DPI; tesseract warns and guesses otherwise
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Recognise the images of each page; a page's confidence is the mean over
+ * its images, weighted by how much text each produced
+ */
+export async function recognizePages(pages: Array<{ page: number; images: Array<PdfImage | Buffer> }>): Promise<OcrPage[]> {
+  const startTime = Date.now();
+  const { createWorker } = await import('tesseract.js');
+  const langs = process.env.OCR_LANGS || 'eng';
+
+  logger.info('OCR_START', `Running OCR on ${pages.length} page(s)`, {
+    pages: pages.map(p => p.page),
+    langs
+  });
+
+  const worker = await createWorker(langs, 1, {
+    langPath: getLangPath(),
+    cacheMethod: 'none',
+    gzip: true,
+  });
+
+  try {
+    const results: OcrPage[] = [];
+
+    for (const { page, images } of pages) {
+      const texts: string[] = [];
+      let weighted = 0;
+      let weight = 0;
+
+      for (const image of images) {
+        const { data } = await worker.recognize(await toOcrInput(image));
+        const text = data.text.trim();
+        if (!text) continue;
+        texts.push(text);
+        weighted += data.confidence * text.length;
+        weight += text.length;
+      }
+
+      const result = {
+        page,
+        text: texts.join('\n\n'),
+        confidence: weight > 0 ? Math.round(weighted / weight) / 100 : 0,
+      };
+      results.push(result);
+
+      logger.debug('OCR_PAGE', `OCR page ${page}: ${result.text.length} characters`, {
+        page,
+        images: images.length,
+        confidence: result.confidence
+      });
+    }
+
+    logger.info('OCR_COMPLETE', `OCR finished in ${Date.now() - startTime}ms`, {
+      pages: results.length,
+      avgConfidence: results.length > 0
+        ? (results.reduce((sum, r) => sum + r.confidence, 0) / results.length).toFixed(2)
+        : 0,
+      time: Date.now() - startTime
+    });
+
+    return results;
+  } finally {
+    await worker.terminate();
+  }
+}
@@ -0,0 +1,393 @@
+import { inflateSync } from 'zlib';
+
+/**
+ * Page images of a PDF, for OCR of scanned pages.
+ *
+ * pdf.js (via pdf-parse) can only decode JPEG images with a browser Image
+ * element, so image XObjects are read straight from the file instead: the
+ * page dictionary (by the object number pdf.js reports for the page) →
+ * its /Resources /XObject entries → image streams, following form XObjects
+ * and objects packed in object streams. JPEG (DCTDecode) data is returned
+ * as-is; Flate images are inflated, un-predicted and returned as raw pixels.
+ * CCITT, JBIG2 and JPEG 2000 images are reported as unsupported.
+ */
+
+export type PdfImage =
+  | { kind: 'jpeg'; width: number; height: number; data: Buffer }
+  | { kind: 'raw'; width: number; height: number; channels: 1 | 3; data: Buffer };
+
+export interface PageImages {
+  images: PdfImage[];
+  unsupported: number; // Image streams in an encoding we cannot decode
+}
+
+// Smaller images are logos, icons and rules rather than scanned text
+const MIN_IMAGE_PIXELS = 200 * 200;
+const MAX_FORM_DEPTH = 3;
+
+interface PdfObject {
+  dict: Map<string, string>;
+  stream?: Buffer;
+}
+
+const REF = /^(\d+)\s+(\d+)\s+R$/;
+
+function isWhitespace(char: string): boolean {
+  return char === ' ' || char === '\n' || char === '\r' || char === '\t' || char === '\f' || char === '\0';
+}
+
+/**
+ * End index (exclusive) of the PDF value starting at `start`
+ */
+function valueEnd(text: string, start: number): number {
+  const char = text[start];
+
+  if (text.startsWith('<<', start) || char === '[') {
+    const [open, close] = char === '[' ? ['[', ']'] : ['<<', '>>'];
+    let depth = 0;
+    let i = start;
+    while (i < text.length) {
+      if (text.startsWith(open, i)) {
+        depth++;
+        i += open.length;
+      } else if (text.startsWith(close, i)) {
+        depth--;
+        i += close.length;
+        if (depth === 0) return i;
+      } else if (text[i] === '(' || (text[i] === '<' && text[i + 1] !== '<') || (open === '[' && text.startsWith('<<', i))) {
+        i = valueEnd(text, i);
+      } else {
+        i++;
+      }
+    }
+    return i;
+  }
+
+  if (char === '(') {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+      if (text[i] === '\\') i++;
+      else if (text[i] === '(') depth++;
+      else if (text[i] === ')' && --depth === 0) return i + 1;
+    }
+    return text.length;
+  }
+
+  if (char === '<') {
+    const end = text.indexOf('>', start);
+    return end < 0 ? text.length : end + 1;
+  }
+
+  // Reference, name, number or keyword
+  const ref = text.slice(start, start + 32).match(/^\d+\s+\d+\s+R(?![A-Za-z])/);
+  if (ref) return start + ref[0].length;
+  let i = start + 1;
+  while (i < text.length && !isWhitespace(text[i]) && !'/<>[]()'.includes(text[i])) i++;
+  return i;
+}
+
+/**
+ * Top-level entries of the dictionary starting at `start` ("<<"), values as raw text
+ */
+function parseDict(text: string, start: number): { dict: Map<string, string>; end: number } {
+  const dict = new Map<string, string>();
+  let i = start + 2;
+
+  while (i < text.length) {
+    while (i < text.length && isWhitespace(text[i])) i++;
+    if (text.startsWith('>>', i)) return { dict, end: i + 2 };
+    if (text[i] !== '/') {
+      i++;
+      continue;
+    }
+
+    const keyEnd = valueEnd(text, i);
+    const key = text.slice(i + 1, keyEnd);
+    i = keyEnd;
+    while (i < text.length && isWhitespace(text[i])) i++;
+    const end = valueEnd(text, i);
+    dict.set(key, text.slice(i, end).trim());
+    i = end;
+  }
+
+  return { dict, end: i };
+}
+
+class PdfFile {
+  private readonly raw: string;
+  private readonly offsets = new Map<number, number>();
+  private packed: Map<number, string> | null = null;
+  private readonly cache = new Map<number, PdfObject | null>();
+
+  constructor(private readonly buffer: Buffer) {
+    // latin1 keeps string indices equal to byte offsets
+    this.raw = buffer.toString('latin1');
+    for (const match of Array.from(this.raw.matchAll(/(?<![\d])(\d+)\s+\d+\s+obj\b/g))) {
+      // Later definitions win (incremental updates)
+      this.offsets.set(parseInt(match[1], 10), (match.index ?? 0) + match[0].length);
+    }
+  }
+
+  get(num: number): PdfObject | null {
+    if (this.cache.has(num)) return this.cache.get(num)!;
+
+    let object: PdfObject | null = null;
+    const offset = this.offsets.get(num);
+    if (offset !== undefined) {
+      object = this.parseObjectAt(this.raw, offset, true);
+    } else {
+      const text = this.packedObjects().get(num);
+      if (text !== undefined) object = this.parseObjectAt(text, 0, false);
+    }
+
+    this.cache.set(num, object);
+    return object;
+  }
+
+  /** Follow a reference; inline dictionaries are parsed in place */
+  resolve(value: string | undefined): PdfObject | null {
+    if (!value) return null;
+    const ref = value.match(REF);
+    if (ref) return this.get(parseInt(ref[1], 10));
+    if (value.startsWith('<<')) return { dict: parseDict(value, 0).dict };
+    return null;
+  }
+
+  /** Follow a reference to a direct value (e.g. an indirect /Length) */
+  resolveValue(value: string | undefined): string | undefined {
+    const ref = value?.match(REF);
+    if (!ref) return value;
+    const offset = this.offsets.get(parseInt(ref[1], 10));
+    if (offset === undefined) return undefined;
+    return this.raw.slice(offset, this.raw.indexOf('endobj', offset)).trim();
+  }
+
+  private parseObjectAt(text: string, offset: number, topLevel: boolean): PdfObject | null {
+    let i = offset;
+    while (i < text.length && isWhitespace(text[i])) i++;
+    if (!text.startsWith('<<', i)) return null;
+
+    const { dict, end } = parseDict(text, i);
+    if (!topLevel) return { dict };
+
+    const streamMatch = text.slice(end, end + 20).match(/^\s*stream(?:\r\n|\n|\r)/);
+    if (!streamMatch) return { dict };
+
+    const streamStart = end + streamMatch[0].length;
+    let length = parseInt(this.resolveValue(dict.get('Length')) || '', 10);
+    const declaredEnd = streamStart + length;
+    if (isNaN(length) || !/^\s*endstream/.test(text.slice(declaredEnd, declaredEnd + 20))) {
+      length = text.indexOf('endstream', streamStart) - streamStart; // Missing or wrong /Length
+    }
+    return { dict, stream: this.buffer.subarray(streamStart, streamStart + Math.max(0, length)) };
+  }
+
+  // Objects compressed into object streams (PDF 1.5+), read on first use
+  private packedObjects(): Map<number, string> {
+    if (this.packed) return this.packed;
+    this.packed = new Map();
+
+    for (const num of Array.from(this.offsets.keys())) {
+      const object = this.parseObjectAt(this.raw, this.offsets.get(num)!, true);
+      if (object?.dict.get('Type') !== '/ObjStm' || !object.stream) continue;
+
+      try {
+        const content = decodeStream(object)?.toString('latin1');
+        if (!content) continue;
+        const first = parseInt(object.dict.get('First') || '0', 10);
+        const header = content.slice(0, first).trim().split(/\s+/).map(n => parseInt(n, 10));
+        for (let k = 0; k + 1 < header.length; k += 2) {
+          const start = first + header[k + 1];
+          const end = k + 3 < header.length ? first + header[k + 3] : content.length;
+          this.packed.set(header[k], content.slice(start, end));
+        }
+      } catch {
+        // A damaged object stream only hides the objects in it
+      }
+    }
+
+    return this.packed;
+  }
+}
+
+function filtersOf(dict: Map<string, string>): string[] {
+  const filter = dict.get('Filter') || '';
+  return (filter.match(/\/[A-Za-z0-9]+/g) || []).map(name => name.slice(1));
+}
+
+function decodeParmsOf(pdf: PdfFile | null, dict: Map<string, string>): Map<string, string> {
+  const parms = dict.get('DecodeParms') || '';
+  const inline = parms.startsWith('[') ? parms.slice(1).trim() : parms;
+  if (inline.startsWith('<<')) return parseDict(inline, 0).dict;
+  return pdf?.resolve(inline)?.dict || new Map();
+}
+
+/**
+ * Undo PNG row predictors (Predictor >= 10)
+ */
+function unpredict(data: Buffer, columns: number, colors: number, bitsPerComponent: number): Buffer {
+  const bpp = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  const rowLength = Math.ceil((columns * colors * bitsPerComponent) / 8);
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = Buffer.alloc(rows * rowLength);
+
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const input = row * (rowLength + 1) + 1;
+    const base = row * rowLength;
+
+    for (let i = 0; i < rowLength; i++) {
+      const raw = data[input + i];
+      const left = i >= bpp ? out[base + i - bpp] : 0;
+      const up = row > 0 ? out[base - rowLength + i] : 0;
+      const upLeft = row > 0 && i >= bpp ? out[base - rowLength + i - bpp] : 0;
+      let value: number;
+
+      switch (filter) {
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+          break;
+        }
+        default: value = raw;
+      }
+      out[base + i] = value & 0xff;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Stream data with Flate (and PNG predictors) undone; null for other filters
+ */
+function decodeStream(object: PdfObject, pdf: PdfFile | null = null): Buffer | null {
+  let data = object.stream!;
+  for (const filter of filtersOf(object.dict)) {
+    if (filter !== 'FlateDecode' && filter !== 'Fl') return null;
+    data = inflateSync(data);
+    const parms = decodeParmsOf(pdf, object.dict);
+    const predictor = parseInt(parms.get('Predictor') || '1', 10);
+    if (predictor >= 10) {
+      data = unpredict(
+        data,
+        parseInt(parms.get('Columns') || '1', 10),
+        parseInt(parms.get('Colors') || '1', 10),
+        parseInt(parms.get('BitsPerComponent') || '8', 10)
+      );
+    }
+  }
+  return data;
+}
+
+/**
+ * One image XObject as OCR input, 'unsupported' for encodings we cannot decode
+ */
+function readImage(pdf: PdfFile, object: PdfObject): PdfImage | 'unsupported' | null {
+  const width = parseInt(pdf.resolveValue(object.dict.get('Width')) || '0', 10);
+  const height = parseInt(pdf.resolveValue(object.dict.get('Height')) || '0', 10);
+  if (!object.stream || width * height < MIN_IMAGE_PIXELS) return null;
+  if (object.dict.get('ImageMask') === 'true') return null;
+
+  const filters = filtersOf(object.dict);
+  const last = filters[filters.length - 1];
+
+  if (last === 'DCTDecode' || last === 'DCT') {
+    return filters.length === 1 ? { kind: 'jpeg', width, height, data: object.stream } : 'unsupported';
+  }
+
+  const data = decodeStream(object, pdf);
+  if (!data) return 'unsupported';
+
+  const bitsPerComponent = parseInt(object.dict.get('BitsPerComponent') || '8', 10);
+  const pixels = width * height;
+
+  if (bitsPerComponent === 1) {
+    // 1-bit scans: 0 is black unless /Decode [1 0] inverts it
+    const invert = /^\[\s*1\s+0\s*\]$/.test(object.dict.get('Decode') || '');
+    const rowBytes = Math.ceil(width / 8);
+    const gray = Buffer.alloc(pixels);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        gray[y * width + x] = (bit === 1) !== invert ? 255 : 0;
+      }
+    }
+    return { kind: 'raw', width, height, channels: 1, data: gray };
+  }
+
+  if (bitsPerComponent !== 8) return 'unsupported';
+
+  // Channels from the decoded size: covers device, ICC-based and indexed colour spaces
+  const channels = Math.round(data.length / pixels);
+  if (channels === 1 || channels === 3) {
+    return { kind: 'raw', width, height, channels, data: data.subarray(0, pixels * channels) };
+  }
+  if (channels === 4) {
+    const gray = Buffer.alloc(pixels);
+    for (let p = 0; p < pixels; p++) {
+      const [c, m, y, k] = [data[p * 4], data[p * 4 + 1], data[p * 4 + 2], data[p * 4 + 3]];
+      gray[p] = Math.max(0, 255 - Math.min(255, 0.3 * c + 0.59 * m + 0.11 * y + k));
+    }
+    return { kind: 'raw', width, height, channels: 1, data: gray };
+  }
+  return 'unsupported';
+}
+
+function collectImages(pdf: PdfFile, resources: PdfObject | null, result: PageImages, seen: Set<string>, depth: number): void {
+  const xobjects = pdf.resolve(resources?.dict.get('XObject'));
+  if (!xobjects) return;
+
+  for (const value of Array.from(xobjects.dict.values())) {
+    if (seen.has(value)) continue;
+    seen.add(value);
+
+    const object = pdf.resolve(value);
+    const subtype = object?.dict.get('Subtype');
+    if (!object || !subtype) continue;
+
+    if (subtype === '/Image') {
+      try {
+        const image = readImage(pdf, object);
+        if (image === 'unsupported') result.unsupported++;
+        else if (image) result.images.push(image);
+      } catch {
+        result.unsupported++;
+      }
+    } else if (subtype === '/Form' && depth < MAX_FORM_DEPTH) {
+      collectImages(pdf, pdf.resolve(object.dict.get('Resources')), result, seen, depth + 1);
+    }
+  }
+}
+
+/**
+ * Images drawn on each of the given pages, keyed by page object number
+ * (pdf.js exposes it as `page.ref.num`)
+ */
+export function extractPageImages(buffer: Buffer, pageObjectNumbers: number[]): Map<number, PageImages> {
+  const pdf = new PdfFile(buffer);
+  const result = new Map<number, PageImages>();
+
+  for (const num of pageObjectNumbers) {
+    const pageImages: PageImages = { images: [], unsupported: 0 };
+
+    // /Resources is inherited from the page tree when the page has none
+    let node = pdf.get(num);
+    let resources: PdfObject | null = null;
+    for (let hops = 0; node && !resources && hops < 32; hops++) {
+      resources = pdf.resolve(node.dict.get('Resources'));
+      node = resources ? node : pdf.resolve(node.dict.get('Parent'));
+    }
+
+    collectImages(pdf, resources, pageImages, new Set(), 0);
+    result.set(num, pageImages);
+  }
+
+  return result;
+}
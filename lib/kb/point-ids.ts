@@ -0,0 +1,55 @@
+import { createHash } from 'crypto';
+import type { PointId } from './stores';
+
+/**
+ * Deterministic point ids.
+ *
+ * A chunk's id is a name-based (v5) UUID of its session, document, version
+ * and chunk index, so concurrent uploads can never collide and re-storing the
+ * same chunk overwrites it instead of adding a duplicate. The version is part
+ * of the name because stored versions coexist until pruned.
+ */
+
+// Random namespace for KB chunk ids (fixed forever - changing it re-keys every point)
+const CHUNK_ID_NAMESPACE = '5b0f9a3e-8d2c-4f61-9a7e-3c1d2b4e6f80';
+
+function uuidToBytes(uuid: string): Buffer {
+  return Buffer.from(uuid.replace(/-/g, ''), 'hex');
+}
+
+/**
+ * RFC 4122 version 5 UUID (SHA-1 of namespace + name)
+ */
+export function uuidV5(name: string, namespace: string = CHUNK_ID_NAMESPACE): string {
+  const hash = createHash('sha1')
+    .update(uuidToBytes(namespace))
+    .update(name, 'utf-8')
+    .digest();
+
+  const bytes = hash.subarray(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x50; // version 5
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export function getChunkPointId(sessionId: string, documentId: string, version: number, chunkIndex: number): string {
+  return uuidV5(`${sessionId}:${documentId}:${version}:${chunkIndex}`);
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Parse a point id received as a string (e.g. from a URL). Chunk ids are
+ * UUIDs; points stored before deterministic ids have unsigned integer ids,
+ * which reach clients stringified. Anything else is not a valid id.
+ */
+export function parsePointId(raw: string): PointId | null {
+  if (UUID_PATTERN.test(raw)) return raw.toLowerCase();
+  if (/^\d+$/.test(raw)) {
+    const id = Number(raw);
+    return Number.isSafeInteger(id) ? id : null;
+  }
+  return null;
+}
@@ -1,32 +1,31 @@
 import { openai } from '@ai-sdk/openai';
 import { generateText } from 'ai';
 import { logger } from '../logger';
+import { crossEncoderRerank } from './cross-encoder';
 
-export interface RerankResult {
+export interface RerankCandidate {
   content: string;
   source: string;
   score: number;
   validationScore: number;
+}
+
+export interface RerankResult extends RerankCandidate {
   rerankScore: number;
   relevanceReasoning: string;
 }
 
-export type RerankerType = 'cohere' | 'llm' | 'heuristic';
+export type RerankerType = 'cohere' | 'llm' | 'cross-encoder' | 'heuristic';
 
 /**
  * Rerank using Cohere's specialized reranking API
  * Fastest and most accurate option for production
  */
-async function cohereRerank(
+async function cohereRerank<T extends RerankCandidate>(
   query: string,
-  results: Array<{
-    content: string;
-    source: string;
-    score: number;
-    validationScore: number;
-  }>,
+  results: T[],
   topK: number = 3
-): Promise<RerankResult[]> {
+): Promise<Array<T & RerankResult>> {
   const startTime = Date.now();
   
   logger.info('COHERE_RERANK_START', 'Starting Cohere reranking', {
@@ -72,7 +71,7 @@ async function cohereRerank(
     });
     
     // Map Cohere results back to our format
-    const reranked: RerankResult[] = data.results.map((result: any) => {
+    const reranked: Array<T & RerankResult> = data.results.map((result: any) => {
       const original = results[result.index];
       return {
         ...original,
@@ -107,16 +106,11 @@ async function cohereRerank(
  * Rerank using LLM (GPT-4.1-mini) with reasoning
  * Slower but provides detailed explanations
  */
-async function llmRerank(
+async function llmRerank<T extends RerankCandidate>(
   query: string,
-  results: Array<{
-    content: string;
-    source: string;
-    score: number;
-    validationScore: number;
-  }>,
+  results: T[],
   topK: number = 3
-): Promise<RerankResult[]> {
+): Promise<Array<T & RerankResult>> {
   if (results.length === 0) return [];
   
   const startTime = Date.now();
@@ -191,7 +185,7 @@ Order by relevance score (highest first). Include only top ${topK} most relevant
     });
     
     // Map rankings back to results
-    const reranked: RerankResult[] = rankings
+    const reranked: Array<T & RerankResult> = rankings
       .slice(0, topK)
       .map((rank: any) => {
         const original = results[rank.index];
@@ -227,19 +221,15 @@ Order by relevance score (highest first). Include only top ${topK} most relevant
 
 /**
  * Main reranking function with automatic fallback
- * Tries methods in order: Cohere → LLM → Heuristic
+ * Tries methods in order: Cohere → LLM → Heuristic. The local cross-encoder
+ * falls back straight to the heuristic, so choosing it never calls an API.
  */
-export async function rerankResults(
+export async function rerankResults<T extends RerankCandidate>(
   query: string,
-  results: Array<{
-    content: string;
-    source: string;
-    score: number;
-    validationScore: number;
-  }>,
+  results: T[],
   topK: number = 3,
   preferredType?: RerankerType
-): Promise<RerankResult[]> {
+): Promise<Array<T & RerankResult>> {
   if (results.length === 0) return [];
   
   const startTime = Date.now();
@@ -253,7 +243,7 @@ export async function rerankResults(
   
   // Try preferred method first
   try {
-    let reranked: RerankResult[];
+    let reranked: Array<T & RerankResult>;
     
     switch (rerankerType) {
       case 'cohere':
@@ -262,6 +252,9 @@ export async function rerankResults(
       case 'llm':
         reranked = await llmRerank(query, results, topK);
         break;
+      case 'cross-encoder':
+        reranked = await crossEncoderRerank(query, results, topK);
+        break;
       case 'heuristic':
         const heuristicResults = fastRerank(query, results);
         reranked = heuristicResults.slice(0, topK).map(r => ({
@@ -287,9 +280,9 @@ export async function rerankResults(
       error: error.message
     });
     
-    // Fallback chain: Cohere → LLM → Heuristic
+    // Fallback chain: Cohere → LLM → Heuristic (cross-encoder → Heuristic)
     try {
-      if (rerankerType !== 'llm') {
+      if (rerankerType !== 'llm' && rerankerType !== 'cross-encoder') {
         logger.info('RERANK_FALLBACK_LLM', 'Falling back to LLM reranking');
         const reranked = await llmRerank(query, results, topK);
         logger.info('RERANK_FALLBACK_SUCCESS', `Fallback to LLM succeeded in ${Date.now() - startTime}ms`);
@@ -323,15 +316,10 @@ export async function rerankResults(
  * Fast reranking using simple heuristics (no LLM call)
  * Useful for initial filtering before expensive reranking
  */
-export function fastRerank(
+export function fastRerank<T extends RerankCandidate>(
   query: string,
-  results: Array<{
-    content: string;
-    source: string;
-    score: number;
-    validationScore: number;
-  }>
-): typeof results {
+  results: T[]
+): T[] {
   const startTime = Date.now();
   const queryTerms = query.toLowerCase().split(/\s+/);
   
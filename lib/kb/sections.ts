@@ -0,0 +1,110 @@
+import type { DocumentHeading } from './text-extractor';
+
+/**
+ * Section tree of a document for structure-aware chunking.
+ *
+ * Headings nest by level and each section owns the text from its heading
+ * line to the next heading of any level. Headings are Markdown `#` lines
+ * (Markdown, HTML, EPUB and DOCX text) unless the extractor found them by
+ * layout (PDF font sizes).
+ */
+
+export interface SectionNode {
+  heading: string | null; // null for the root: text before the first heading
+  level: number; // 0 for the root
+  charStart: number; // Heading line
+  bodyStart: number; // After the heading line
+  bodyEnd: number; // Next heading of any level
+  charEnd: number; // End of the section including its subsections
+  children: SectionNode[];
+}
+
+/** A section's own text (without subsections) with its heading path */
+export interface Section {
+  path: string[]; // Outermost heading first; empty for text before the first heading
+  charStart: number; // Heading line
+  bodyStart: number;
+  bodyEnd: number;
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})[ \t]+(.+?)[ \t]*#*[ \t]*$/;
+const CODE_FENCE = /^\s*(```|~~~)/;
+
+/**
+ * ATX headings (`## Title`) outside fenced code blocks
+ */
+export function findMarkdownHeadings(text: string): DocumentHeading[] {
+  const headings: DocumentHeading[] = [];
+  let offset = 0;
+  let inFence = false;
+
+  for (const line of text.split('\n')) {
+    if (CODE_FENCE.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      const match = line.match(MARKDOWN_HEADING);
+      const heading = match?.[2].replace(/[*_`]/g, '').trim();
+      if (match && heading) {
+        headings.push({ level: match[1].length, text: heading, charStart: offset, charEnd: offset + line.length });
+      }
+    }
+    offset += line.length + 1;
+  }
+
+  return headings;
+}
+
+/**
+ * Nest headings into a tree; a heading closes every open section of the same
+ * or a deeper level
+ */
+export function buildSectionTree(text: string, headings: DocumentHeading[] = findMarkdownHeadings(text)): SectionNode {
+  const root: SectionNode = { heading: null, level: 0, charStart: 0, bodyStart: 0, bodyEnd: text.length, charEnd: text.length, children: [] };
+  const open: SectionNode[] = [root];
+  const sorted = headings.slice().sort((a, b) => a.charStart - b.charStart);
+  root.bodyEnd = sorted[0]?.charStart ?? text.length;
+
+  sorted.forEach((heading, i) => {
+    const next = sorted[i + 1]?.charStart ?? text.length;
+    while (open.length > 1 && open[open.length - 1].level >= heading.level) {
+      open.pop()!.charEnd = heading.charStart;
+    }
+
+    const node: SectionNode = {
+      heading: heading.text,
+      level: heading.level,
+      charStart: heading.charStart,
+      bodyStart: heading.charEnd,
+      bodyEnd: next,
+      charEnd: text.length,
+      children: [],
+    };
+    open[open.length - 1].children.push(node);
+    open.push(node);
+  });
+
+  return root;
+}
+
+/**
+ * Sections in document order, each with its heading path; sections whose own
+ * text is blank (a heading directly followed by a subheading) are left out
+ */
+export function flattenSections(root: SectionNode, text: string): Section[] {
+  const sections: Section[] = [];
+
+  const visit = (node: SectionNode, path: string[]) => {
+    const nodePath = node.heading === null ? path : [...path, node.heading];
+    if (text.slice(node.bodyStart, node.bodyEnd).trim()) {
+      sections.push({ path: nodePath, charStart: node.charStart, bodyStart: node.bodyStart, bodyEnd: node.bodyEnd });
+    }
+    node.children.forEach(child => visit(child, nodePath));
+  };
+  visit(root, []);
+
+  return sections;
+}
+
+export function formatSectionPath(path: string[]): string {
+  return path.join(' › ');
+}
@@ -0,0 +1,238 @@
+import JSZip from 'jszip';
+import { DOMParser } from '@xmldom/xmldom';
+
+/**
+ * CSV / TSV / XLSX parsing for ingestion.
+ *
+ * Every sheet becomes a captioned Markdown pipe table, so the chunker's
+ * table handling applies: rows are grouped into chunks that each repeat the
+ * sheet name and the header row.
+ */
+
+export interface Sheet {
+  name: string;
+  header: string[];
+  rows: string[][];
+}
+
+/**
+ * RFC 4180 parsing: quoted fields may contain the delimiter, quotes ("") and line breaks
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text; // BOM
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Delimiter of a .csv file: the candidate found on the most of its first
+ * non-empty lines (quoted text ignored), then the most often. Semicolons are
+ * usual where amounts are written with decimal commas.
+ */
+export function detectDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 20)
+    .map(line => line.replace(/"(?:[^"]|"")*"?/g, ''));
+
+  let best = ',';
+  let bestLines = 0;
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map(line => line.split(delimiter).length - 1);
+    const withDelimiter = counts.filter(count => count > 0).length;
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    if (withDelimiter > bestLines || (withDelimiter === bestLines && total > bestCount)) {
+      best = delimiter;
+      bestLines = withDelimiter;
+      bestCount = total;
+    }
+  }
+  return best;
+}
+
+/**
+ * First non-empty row is the header; blank header cells get "Column N"
+ */
+function toSheet(name: string, rows: string[][]): Sheet | null {
+  const nonEmpty = rows
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(Boolean));
+  if (nonEmpty.length === 0) return null;
+
+  const columns = Math.max(...nonEmpty.map(row => row.length));
+  const pad = (row: string[]) => row.concat(Array(columns - row.length).fill(''));
+  const header = pad(nonEmpty[0]).map((cell, i) => cell || `Column ${i + 1}`);
+
+  return { name, header, rows: nonEmpty.slice(1).map(pad) };
+}
+
+// Built-in number formats that display dates
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/\d+$/, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Excel serial date (1900 system) as YYYY-MM-DD, with the time when there is one
+ */
+function serialToDate(serial: number): string {
+  const date = new Date(Math.round((serial - 25569) * 86400 * 1000));
+  const iso = date.toISOString();
+  return serial % 1 === 0 ? iso.slice(0, 10) : iso.slice(0, 16).replace('T', ' ');
+}
+
+function textOf(element: Element | null | undefined): string {
+  if (!element) return '';
+  // Rich text runs: concatenate every <t>
+  const runs = Array.from(element.getElementsByTagName('t'));
+  return runs.length > 0 ? runs.map(t => t.textContent || '').join('') : element.textContent || '';
+}
+
+async function readXml(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  return new DOMParser().parseFromString(await file.async('string'), 'text/xml') as unknown as Document;
+}
+
+export async function parseXlsx(buffer: Buffer): Promise<Sheet[]> {
+  const zip = await JSZip.loadAsync(buffer);
+
+  const sharedStrings = Array.from((await readXml(zip, 'xl/sharedStrings.xml'))?.getElementsByTagName('si') || [])
+    .map(si => textOf(si));
+
+  // Style index → whether it formats a date
+  const styles = await readXml(zip, 'xl/styles.xml');
+  const customDateFormats = new Set(
+    Array.from(styles?.getElementsByTagName('numFmt') || [])
+      .filter(fmt => /[dmy]/i.test((fmt.getAttribute('formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '')))
+      .map(fmt => parseInt(fmt.getAttribute('numFmtId') || '-1', 10))
+  );
+  const cellXfs = styles?.getElementsByTagName('cellXfs')[0];
+  const dateStyles = Array.from(cellXfs?.getElementsByTagName('xf') || []).map(xf => {
+    const id = parseInt(xf.getAttribute('numFmtId') || '0', 10);
+    return DATE_FORMAT_IDS.has(id) || customDateFormats.has(id);
+  });
+
+  // Sheet names in workbook order, resolved to their part paths
+  const workbook = await readXml(zip, 'xl/workbook.xml');
+  const rels = await readXml(zip, 'xl/_rels/workbook.xml.rels');
+  const targets = new Map(Array.from(rels?.getElementsByTagName('Relationship') || [])
+    .map(rel => [rel.getAttribute('Id') || '', rel.getAttribute('Target') || '']));
+
+  const sheets: Sheet[] = [];
+  for (const sheetElement of Array.from(workbook?.getElementsByTagName('sheet') || [])) {
+    const name = sheetElement.getAttribute('name') || `Sheet${sheets.length + 1}`;
+    const target = targets.get(sheetElement.getAttribute('r:id') || '') || '';
+    const path = target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+    const sheetXml = await readXml(zip, path);
+    if (!sheetXml) continue;
+
+    const rows: string[][] = [];
+    for (const rowElement of Array.from(sheetXml.getElementsByTagName('row'))) {
+      const row: string[] = [];
+      for (const cell of Array.from(rowElement.getElementsByTagName('c'))) {
+        const type = cell.getAttribute('t');
+        const raw = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+        let value: string;
+
+        if (type === 's') {
+          value = sharedStrings[parseInt(raw, 10)] ?? '';
+        } else if (type === 'inlineStr') {
+          value = textOf(cell.getElementsByTagName('is')[0]);
+        } else if (type === 'b') {
+          value = raw === '1' ? 'TRUE' : 'FALSE';
+        } else if (raw !== '' && (!type || type === 'n') && dateStyles[parseInt(cell.getAttribute('s') || '0', 10)]) {
+          value = serialToDate(parseFloat(raw));
+        } else {
+          value = raw;
+        }
+
+        const ref = cell.getAttribute('r');
+        const index = ref ? columnIndex(ref) : row.length;
+        while (row.length < index) row.push('');
+        row[index] = value;
+      }
+      rows.push(row);
+    }
+
+    const sheet = toSheet(name, rows);
+    if (sheet) sheets.push(sheet);
+  }
+
+  return sheets;
+}
+
+export async function parseSpreadsheet(buffer: Buffer, fileType: string): Promise<Sheet[]> {
+  switch (fileType) {
+    case 'csv':
+    case 'tsv': {
+      // A delimited file is a single unnamed sheet
+      const text = buffer.toString('utf-8');
+      const sheet = toSheet('', parseDelimited(text, fileType === 'tsv' ? '\t' : detectDelimiter(text)));
+      return sheet ? [sheet] : [];
+    }
+    case 'xlsx':
+      return parseXlsx(buffer);
+    default:
+      throw new Error(`Unsupported spreadsheet type: ${fileType}`);
+  }
+}
+
+/**
+ * Sheets as text: a "Sheet: name" caption line (XLSX) above each pipe table
+ */
+export function sheetsToText(sheets: Sheet[]): string {
+  const cell = (value: string) => value.replace(/\|/g, '/').replace(/\s*\n\s*/g, ' ');
+
+  return sheets.map(sheet => [
+    ...(sheet.name ? [`Sheet: ${sheet.name}`] : []),
+    `| ${sheet.header.map(cell).join(' | ')} |`,
+    `| ${sheet.header.map(() => '---').join(' | ')} |`,
+    ...sheet.rows.map(row => `| ${row.map(cell).join(' | ')} |`),
+  ].join('\n')).join('\n\n');
+}
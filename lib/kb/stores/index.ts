@@ -0,0 +1,65 @@
+import { logger } from '../../logger';
+import {
+  getEmbeddingModelId,
+  LEGACY_EMBEDDING_MODEL_ID,
+  type EmbeddingProvider,
+} from '../embeddings';
+import { LocalVectorStore } from './local-store';
+import { QdrantVectorStore } from './qdrant-store';
+import type { VectorStore, VectorStoreKind } from './types';
+
+export type { VectorStore, VectorStoreKind } from './types';
+export type { PayloadFilter, PayloadUpdate, PointId, ScoredPoint, ScrollOptions, ScrollPage, StoredPoint } from './types';
+
+const BASE_COLLECTION = process.env.QDRANT_COLLECTION || 'onlyfinance-kb';
+
+const stores = new Map<string, VectorStore>();
+
+/**
+ * Backend selected via VECTOR_STORE (qdrant | local).
+ * Falls back to the local store when no Qdrant URL is configured.
+ */
+export function getVectorStoreKind(): VectorStoreKind {
+  const configured = process.env.VECTOR_STORE?.toLowerCase();
+  if (configured === 'qdrant' || configured === 'local') {
+    return configured;
+  }
+  return process.env.QDRANT_URL ? 'qdrant' : 'local';
+}
+
+/**
+ * Collection name for an embedding provider: one collection per model + dimension,
+ * so switching models never writes incompatible vectors into an existing collection.
+ * The legacy OpenAI default keeps the bare base name for existing deployments.
+ */
+export function getCollectionName(provider: EmbeddingProvider): string {
+  if (getEmbeddingModelId(provider) === LEGACY_EMBEDDING_MODEL_ID) {
+    return BASE_COLLECTION;
+  }
+  const modelSlug = `${provider.name}-${provider.model}`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  return `${BASE_COLLECTION}-${modelSlug}-${provider.dimension}`;
+}
+
+/**
+ * Get (or create) the vector store for a collection.
+ * KB code should go through getActiveKB() rather than picking a collection itself.
+ */
+export function getVectorStore(collection: string, vectorSize: number): VectorStore {
+  const kind = getVectorStoreKind();
+  const key = `${kind}:${collection}`;
+
+  let store = stores.get(key);
+  if (!store) {
+    store = kind === 'qdrant'
+      ? new QdrantVectorStore(collection, vectorSize)
+      : new LocalVectorStore(collection, vectorSize);
+    stores.set(key, store);
+
+    logger.info('VECTOR_STORE_SELECTED', `Using ${kind} vector store`, {
+      kind,
+      collection,
+      vectorSize
+    });
+  }
+  return store;
+}
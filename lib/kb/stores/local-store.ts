@@ -0,0 +1,207 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { logger } from '../../logger';
+import type {
+  PayloadFilter,
+  PayloadUpdate,
+  PointId,
+  ScoredPoint,
+  ScrollOptions,
+  ScrollPage,
+  StoredPoint,
+  VectorStore,
+} from './types';
+
+interface LocalCollectionFile {
+  collection: string;
+  vectorSize: number;
+  points: StoredPoint[];
+}
+
+/**
+ * Directory holding one JSON file per collection
+ */
+export function getLocalStoreDir(): string {
+  return process.env.LOCAL_VECTOR_STORE_DIR || join(process.cwd(), '.data', 'vector-store');
+}
+
+function matchesFilter(payload: Record<string, any>, filter?: PayloadFilter): boolean {
+  if (!filter) return true;
+  return Object.entries(filter).every(([key, condition]) =>
+    typeof condition === 'object' ? payload[key] !== condition.not : payload[key] === condition
+  );
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * In-process vector store persisted to a JSON file.
+ * Brute-force cosine search - intended for dev boxes, CI and air-gapped
+ * deployments, not for millions of points.
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly kind = 'local' as const;
+  private points: Map<string, StoredPoint> | null = null;
+  private readonly filePath: string;
+
+  constructor(
+    readonly collection: string,
+    private readonly vectorSize: number
+  ) {
+    this.filePath = join(getLocalStoreDir(), `${collection}.json`);
+  }
+
+  /**
+   * Lazily load the collection file into memory
+   */
+  private load(): Map<string, StoredPoint> {
+    if (this.points) return this.points;
+
+    this.points = new Map();
+    if (existsSync(this.filePath)) {
+      const loadStart = Date.now();
+      const data: LocalCollectionFile = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+      for (const point of data.points) {
+        this.points.set(String(point.id), point);
+      }
+      logger.debug('LOCAL_STORE_LOADED', `Loaded ${this.points.size} points in ${Date.now() - loadStart}ms`, {
+        collection: this.collection,
+        filePath: this.filePath
+      });
+    }
+    return this.points;
+  }
+
+  /**
+   * Write the collection to disk (temp file + rename so a crash never leaves half a file)
+   */
+  private persist() {
+    const points = this.load();
+    const data: LocalCollectionFile = {
+      collection: this.collection,
+      vectorSize: this.vectorSize,
+      points: Array.from(points.values()),
+    };
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(data), 'utf-8');
+    renameSync(tmpPath, this.filePath);
+  }
+
+  async ensureCollection() {
+    const dir = getLocalStoreDir();
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    if (!existsSync(this.filePath)) {
+      logger.info('LOCAL_STORE_CREATE_COLLECTION', 'Creating local collection', {
+        collection: this.collection,
+        vectorSize: this.vectorSize,
+        filePath: this.filePath
+      });
+      this.persist();
+    }
+  }
+
+  async count(filter?: PayloadFilter) {
+    let total = 0;
+    for (const point of Array.from(this.load().values())) {
+      if (matchesFilter(point.payload, filter)) total++;
+    }
+    return total;
+  }
+
+  async upsert(points: StoredPoint[]) {
+    const store = this.load();
+    for (const point of points) {
+      if (point.vector && point.vector.length !== this.vectorSize) {
+        throw new Error(`Vector dimension mismatch: expected ${this.vectorSize}, got ${point.vector.length}`);
+      }
+      store.set(String(point.id), point);
+    }
+    this.persist();
+  }
+
+  async search(vector: number[], limit: number, filter?: PayloadFilter): Promise<ScoredPoint[]> {
+    const scored: ScoredPoint[] = [];
+    for (const point of Array.from(this.load().values())) {
+      if (!point.vector || !matchesFilter(point.payload, filter)) continue;
+      scored.push({
+        id: point.id,
+        score: cosineSimilarity(vector, point.vector),
+        payload: point.payload,
+      });
+    }
+    return scored.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  async scroll(options: ScrollOptions = {}): Promise<ScrollPage> {
+    const limit = options.limit ?? 1000;
+    const matching = Array.from(this.load().values())
+      .filter(p => matchesFilter(p.payload, options.filter));
+
+    let start = 0;
+    if (options.offset !== undefined && options.offset !== null) {
+      start = matching.findIndex(p => String(p.id) === String(options.offset));
+      if (start === -1) start = matching.length;
+    }
+
+    const page = matching.slice(start, start + limit);
+    const next = matching[start + limit];
+
+    return {
+      points: page.map(p => ({
+        id: p.id,
+        vector: options.withVector ? p.vector : undefined,
+        payload: options.withPayload === false ? {} : p.payload,
+      })),
+      nextOffset: next ? next.id : null,
+    };
+  }
+
+  async retrieve(ids: PointId[]): Promise<StoredPoint[]> {
+    const store = this.load();
+    return ids
+      .map(id => store.get(String(id)))
+      .filter((p): p is StoredPoint => p !== undefined)
+      .map(p => ({ id: p.id, payload: p.payload }));
+  }
+
+  async setPayload(updates: PayloadUpdate[]) {
+    const store = this.load();
+    for (const update of updates) {
+      for (const point of Array.from(store.values())) {
+        if (matchesFilter(point.payload, update.filter)) {
+          point.payload = { ...point.payload, ...update.payload };
+        }
+      }
+    }
+    this.persist();
+  }
+
+  async deleteByFilter(filter: PayloadFilter) {
+    const store = this.load();
+    for (const [key, point] of Array.from(store.entries())) {
+      if (matchesFilter(point.payload, filter)) store.delete(key);
+    }
+    this.persist();
+  }
+
+  async deleteByIds(ids: PointId[]) {
+    const store = this.load();
+    for (const id of ids) {
+      store.delete(String(id));
+    }
+    this.persist();
+  }
+}
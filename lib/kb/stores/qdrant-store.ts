@@ -0,0 +1,228 @@
+import { QdrantClient } from '@qdrant/js-client-rest';
+import { logger } from '../../logger';
+import type {
+  PayloadFilter,
+  PayloadUpdate,
+  PointId,
+  ScoredPoint,
+  ScrollOptions,
+  ScrollPage,
+  StoredPoint,
+  VectorStore,
+} from './types';
+
+// Shared Qdrant client (one per process)
+let qdrantClient: QdrantClient | null = null;
+
+function getQdrantClient() {
+  if (!qdrantClient) {
+    qdrantClient = new QdrantClient({
+      url: process.env.QDRANT_URL!,
+      apiKey: process.env.QDRANT_API_KEY,
+    });
+  }
+  return qdrantClient;
+}
+
+// Payload fields used in filters (indexes for exact matches)
+const INDEXED_FIELDS: Array<{ field: string; schema: 'keyword' | 'bool' | 'integer' }> = [
+  { field: 'filename', schema: 'keyword' },
+  { field: 'sessionId', schema: 'keyword' },
+  { field: 'documentId', schema: 'keyword' },
+  { field: 'contentHash', schema: 'keyword' },
+  { field: 'chunkingKey', schema: 'keyword' },
+  { field: 'version', schema: 'integer' },
+  { field: 'archived', schema: 'bool' },
+  { field: 'quarantined', schema: 'bool' },
+];
+
+/**
+ * Convert an equality filter into Qdrant's `must` / `must_not` filter syntax
+ */
+function toQdrantFilter(filter?: PayloadFilter) {
+  if (!filter || Object.keys(filter).length === 0) return undefined;
+  const must: Array<{ key: string; match: { value: string | number | boolean } }> = [];
+  const mustNot: typeof must = [];
+  for (const [key, condition] of Object.entries(filter)) {
+    if (typeof condition === 'object') {
+      mustNot.push({ key, match: { value: condition.not } });
+    } else {
+      must.push({ key, match: { value: condition } });
+    }
+  }
+  return {
+    ...(must.length > 0 ? { must } : {}),
+    ...(mustNot.length > 0 ? { must_not: mustNot } : {}),
+  };
+}
+
+/**
+ * Vector store backed by a Qdrant Cloud / self-hosted collection
+ */
+export class QdrantVectorStore implements VectorStore {
+  readonly kind = 'qdrant' as const;
+  private indexesEnsured = false;
+
+  constructor(
+    readonly collection: string,
+    private readonly vectorSize: number
+  ) {}
+
+  async ensureCollection() {
+    const startTime = Date.now();
+    const client = getQdrantClient();
+
+    logger.debug('VECTOR_DB_ENSURE_COLLECTION_START', 'Checking collection existence', {
+      collectionName: this.collection
+    });
+
+    try {
+      const collection = await client.getCollection(this.collection);
+      logger.debug('VECTOR_DB_COLLECTION_EXISTS', `Collection exists with ${collection.points_count || 0} points`, {
+        pointsCount: collection.points_count || 0,
+        checkTime: Date.now() - startTime
+      });
+    } catch (error: any) {
+      logger.info('VECTOR_DB_CREATE_COLLECTION', 'Collection does not exist, creating', {
+        collectionName: this.collection,
+        vectorSize: this.vectorSize,
+        distance: 'Cosine'
+      });
+
+      const createStart = Date.now();
+      await client.createCollection(this.collection, {
+        vectors: {
+          size: this.vectorSize,
+          distance: 'Cosine',
+        },
+      });
+
+      logger.info('VECTOR_DB_COLLECTION_CREATED', `Collection created in ${Date.now() - createStart}ms`, {
+        collectionName: this.collection,
+        createTime: Date.now() - createStart,
+        totalTime: Date.now() - startTime
+      });
+    }
+
+    await this.ensurePayloadIndexes();
+  }
+
+  /**
+   * Ensure payload indexes exist for filtered fields
+   */
+  private async ensurePayloadIndexes() {
+    if (this.indexesEnsured) return;
+    const client = getQdrantClient();
+
+    for (const { field, schema } of INDEXED_FIELDS) {
+      try {
+        await client.createPayloadIndex(this.collection, {
+          field_name: field,
+          field_schema: schema,
+        });
+        logger.debug('VECTOR_DB_INDEX_CREATED', `Created payload index for ${field} field`);
+      } catch (error: any) {
+        // Index might already exist, which is fine
+        logger.debug('VECTOR_DB_INDEX_EXISTS', `Payload index for ${field} already exists or creation skipped`);
+      }
+    }
+
+    this.indexesEnsured = true;
+  }
+
+  async count(filter?: PayloadFilter) {
+    const client = getQdrantClient();
+    if (!filter) {
+      const info = await client.getCollection(this.collection);
+      return info.points_count || 0;
+    }
+    const result = await client.count(this.collection, {
+      filter: toQdrantFilter(filter),
+      exact: true,
+    });
+    return result.count;
+  }
+
+  async upsert(points: StoredPoint[]) {
+    await getQdrantClient().upsert(this.collection, {
+      wait: true,
+      points: points.map(p => ({
+        id: p.id,
+        vector: p.vector!,
+        payload: p.payload,
+      })),
+    });
+  }
+
+  async search(vector: number[], limit: number, filter?: PayloadFilter): Promise<ScoredPoint[]> {
+    const results = await getQdrantClient().search(this.collection, {
+      vector,
+      limit,
+      with_payload: true,
+      filter: toQdrantFilter(filter),
+    });
+    return results.map(r => ({
+      id: r.id,
+      score: r.score || 0,
+      payload: (r.payload as Record<string, any>) || {},
+    }));
+  }
+
+  async scroll(options: ScrollOptions = {}): Promise<ScrollPage> {
+    const result = await getQdrantClient().scroll(this.collection, {
+      filter: toQdrantFilter(options.filter),
+      limit: options.limit ?? 1000,
+      offset: options.offset ?? undefined,
+      with_payload: options.withPayload ?? true,
+      with_vector: options.withVector ?? false,
+    });
+    return {
+      points: result.points.map(p => ({
+        id: p.id,
+        vector: Array.isArray(p.vector) ? (p.vector as number[]) : undefined,
+        payload: (p.payload as Record<string, any>) || {},
+      })),
+      nextOffset: (result.next_page_offset as PointId | null | undefined) ?? null,
+    };
+  }
+
+  async retrieve(ids: PointId[]): Promise<StoredPoint[]> {
+    if (ids.length === 0) return [];
+    const points = await getQdrantClient().retrieve(this.collection, {
+      ids,
+      with_payload: true,
+      with_vector: false,
+    });
+    return points.map(p => ({
+      id: p.id,
+      payload: (p.payload as Record<string, any>) || {},
+    }));
+  }
+
+  async setPayload(updates: PayloadUpdate[]) {
+    // One batch request: Qdrant applies the operations in order
+    await getQdrantClient().batchUpdate(this.collection, {
+      wait: true,
+      operations: updates.map(update => ({
+        set_payload: {
+          payload: update.payload,
+          filter: toQdrantFilter(update.filter),
+        },
+      })),
+    });
+  }
+
+  async deleteByFilter(filter: PayloadFilter) {
+    await getQdrantClient().delete(this.collection, {
+      wait: true,
+      filter: toQdrantFilter(filter)!,
+    });
+  }
+
+  async deleteByIds(ids: PointId[]) {
+    await getQdrantClient().delete(this.collection, {
+      wait: true,
+      points: ids,
+    });
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Vector store abstraction shared by the Qdrant and local backends.
+ * vector-db.ts owns the KB semantics (validation filtering, document
+ * aggregation, logging); stores only move points in and out.
+ */
+
+export type PointId = string | number;
+
+export type PayloadValue = string | number | boolean;
+
+/**
+ * `{ not: value }` matches points whose field differs from value, including
+ * points that lack the field entirely (Qdrant `must_not` semantics)
+ */
+export type PayloadCondition = PayloadValue | { not: PayloadValue };
+
+/**
+ * Equality filter on payload fields. Every key must match (AND semantics),
+ * mirroring the `must` + `match.value` filters the KB already uses.
+ */
+export type PayloadFilter = Record<string, PayloadCondition>;
+
+/**
+ * Merge `payload` into every point matching `filter`
+ */
+export interface PayloadUpdate {
+  filter: PayloadFilter;
+  payload: Record<string, PayloadValue>;
+}
+
+export interface StoredPoint {
+  id: PointId;
+  vector?: number[];
+  payload: Record<string, any>;
+}
+
+export interface ScoredPoint extends StoredPoint {
+  score: number;
+}
+
+export interface ScrollOptions {
+  filter?: PayloadFilter;
+  limit?: number;
+  offset?: PointId | null;
+  withPayload?: boolean;
+  withVector?: boolean;
+}
+
+export interface ScrollPage {
+  points: StoredPoint[];
+  nextOffset: PointId | null;
+}
+
+export type VectorStoreKind = 'qdrant' | 'local';
+
+export interface VectorStore {
+  readonly kind: VectorStoreKind;
+  readonly collection: string;
+
+  /** Create the collection (and any indexes) if it does not exist yet */
+  ensureCollection(): Promise<void>;
+
+  /** Number of points, optionally restricted by filter */
+  count(filter?: PayloadFilter): Promise<number>;
+
+  upsert(points: StoredPoint[]): Promise<void>;
+
+  search(vector: number[], limit: number, filter?: PayloadFilter): Promise<ScoredPoint[]>;
+
+  scroll(options?: ScrollOptions): Promise<ScrollPage>;
+
+  /** Points by id (payload only); missing ids are skipped */
+  retrieve(ids: PointId[]): Promise<StoredPoint[]>;
+
+  /** Apply all updates in order as a single write (one request / one file write) */
+  setPayload(updates: PayloadUpdate[]): Promise<void>;
+
+  deleteByFilter(filter: PayloadFilter): Promise<void>;
+
+  deleteByIds(ids: PointId[]): Promise<void>;
+}
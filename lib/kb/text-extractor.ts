@@ -1,4 +1,343 @@
+import { parseSpreadsheet, sheetsToText } from './spreadsheet';
+import { decodeEntities, decodeHtml, htmlToText, parseEpub, tablesToPipeRows, withTitleHeading } from './html';
 import { logger } from '../logger';
+import { extractPageImages } from './pdf-images';
+import { getOcrMaxPages, isOcrEnabled, recognizePages } from './ocr';
+
+/**
+ * Where one page sits in the extracted text (PDF only)
+ */
+export interface PageSpan {
+  page: number; // 1-based
+  charStart: number;
+  charEnd: number; // Exclusive
+  ocrConfidence?: number; // 0-1, only for pages read by OCR
+}
+
+/**
+ * Pages that had no text layer: read by OCR, or left empty
+ */
+export interface OcrReport {
+  pages: Array<{ page: number; confidence: number }>;
+  unreadablePages: number[]; // Scanned, but OCR was off, over OCR_MAX_PAGES, failed or the images are unsupported
+}
+
+/**
+ * A heading found by layout rather than markup (PDF font sizes); Markdown,
+ * HTML, EPUB and DOCX text carry theirs as `#` lines instead
+ */
+export interface DocumentHeading {
+  level: number; // 1 = largest
+  text: string;
+  charStart: number; // The heading line in the extracted text
+  charEnd: number;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  pages?: PageSpan[];
+  headings?: DocumentHeading[];
+  ocr?: OcrReport;
+}
+
+// Pages with fewer non-whitespace characters than this are treated as scanned
+const MIN_PAGE_TEXT = 20;
+
+// Horizontal gap (in font heights) that separates two table cells on one line
+const CELL_GAP = 1.2;
+// Consecutive multi-cell lines needed before they are treated as a table
+const MIN_TABLE_ROWS = 3;
+
+// PDF lines this much larger than the body text may be headings
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_LENGTH = 100;
+const MAX_HEADING_LEVELS = 3;
+
+interface PdfLine {
+  text: string;
+  cells: string[];
+  fontSize: number;
+}
+
+/** A line of a rendered page that is not part of a table */
+interface RenderedLine {
+  offset: number; // In the page text
+  text: string;
+  fontSize: number;
+}
+
+/** Rendered glyph height of a text item (scale of its transform) */
+function itemFontSize(item: any): number {
+  return Math.hypot(item.transform[2], item.transform[3]) || item.height || 0;
+}
+
+/**
+ * Group one line's text items into cells by the horizontal gaps between them
+ */
+function lineCells(items: any[]): string[] {
+  const sorted = items.slice().sort((a, b) => a.transform[4] - b.transform[4]);
+  const cells: string[] = [];
+  let previousEnd: number | null = null;
+
+  for (const item of sorted) {
+    const x = item.transform[4];
+    const fontSize = Math.abs(item.transform[0]) || item.height || 10;
+    if (previousEnd === null || x - previousEnd > fontSize * CELL_GAP) {
+      cells.push(item.str);
+    } else {
+      cells[cells.length - 1] += item.str;
+    }
+    previousEnd = x + (item.width || 0);
+  }
+
+  return cells.map(cell => cell.trim()).filter(Boolean);
+}
+
+/**
+ * Rewrite runs of column-aligned lines (mostly numeric, like statement rows)
+ * as Markdown pipe rows; everything else keeps the default layout
+ */
+function renderPdfLines(lines: PdfLine[]): { text: string; lines: RenderedLine[] } {
+  const out: string[] = [];
+  const plain: RenderedLine[] = [];
+  let offset = 0;
+  const push = (...texts: string[]) => {
+    for (const text of texts) {
+      out.push(text);
+      offset += text.length + 1;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    let end = i;
+    while (end < lines.length && lines[end].cells.length >= 2) end++;
+    const run = lines.slice(i, end);
+    const numericRows = run.filter(line => line.cells.some(cell => /\d/.test(cell))).length;
+
+    if (run.length >= MIN_TABLE_ROWS && numericRows >= run.length / 2) {
+      const columns = Math.max(...run.map(line => line.cells.length));
+      const row = (cells: string[]) =>
+        `| ${cells.concat(Array(columns - cells.length).fill('')).map(cell => cell.replace(/\|/g, '/')).join(' | ')} |`;
+      push(row(run[0].cells), `| ${Array(columns).fill('---').join(' | ')} |`, ...run.slice(1).map(line => row(line.cells)));
+      i = end - 1;
+    } else {
+      plain.push({ offset, text: lines[i].text, fontSize: lines[i].fontSize });
+      push(lines[i].text);
+    }
+  }
+
+  return { text: out.join('\n'), lines: plain };
+}
+
+/**
+ * Headings of a PDF from font sizes: short lines set clearly larger than the
+ * body text (the size most characters use), levelled by size. Text repeated
+ * on most pages at that size is a running header, not a heading.
+ */
+function detectPdfHeadings(pages: PageSpan[], pageLines: RenderedLine[][]): DocumentHeading[] {
+  const round = (size: number) => Math.round(size * 2) / 2;
+  const charsBySize = new Map<number, number>();
+  for (const line of pageLines.flat()) {
+    const size = round(line.fontSize);
+    if (size > 0) charsBySize.set(size, (charsBySize.get(size) || 0) + line.text.trim().length);
+  }
+  if (charsBySize.size < 2) return [];
+
+  const bodySize = Array.from(charsBySize.entries()).sort((a, b) => b[1] - a[1])[0][0];
+  const candidates: Array<DocumentHeading & { size: number; page: number; index: number }> = [];
+  const pagesByText = new Map<string, Set<number>>();
+
+  pageLines.forEach((lines, page) => {
+    const span = pages[page];
+    if (!span) return;
+    lines.forEach((line, index) => {
+      const text = line.text.trim();
+      const size = round(line.fontSize);
+      if (size < bodySize * HEADING_SIZE_RATIO || text.length > MAX_HEADING_LENGTH || !/[a-zA-Z]/.test(text)) return;
+
+      pagesByText.set(text.toLowerCase(), (pagesByText.get(text.toLowerCase()) || new Set<number>()).add(page));
+      const charStart = span.charStart + line.offset;
+      const previous = candidates[candidates.length - 1];
+      // A heading wrapped over consecutive lines of the same size is one heading
+      if (previous && previous.page === page && previous.index === index - 1 && previous.size === size) {
+        previous.text = `${previous.text} ${text}`;
+        previous.charEnd = charStart + line.text.length;
+        previous.index = index;
+        return;
+      }
+      candidates.push({ level: 0, text, charStart, charEnd: charStart + line.text.length, size, page, index });
+    });
+  });
+
+  const running = (heading: { text: string }) =>
+    pageLines.length >= 3 && (pagesByText.get(heading.text.toLowerCase())?.size || 0) > pageLines.length / 2;
+  const headings = candidates.filter(heading => !running(heading));
+  const sizes = Array.from(new Set(headings.map(heading => heading.size))).sort((a, b) => b - a);
+
+  return headings.map(({ text, charStart, charEnd, size }) => ({
+    level: Math.min(sizes.indexOf(size) + 1, MAX_HEADING_LEVELS),
+    text,
+    charStart,
+    charEnd,
+  }));
+}
+
+/**
+ * Same text layout as pdf-parse's default renderer (items on one line joined,
+ * new line per y change), except that tables come out as pipe rows, and
+ * remembers each page so offsets map back to pages
+ */
+function createPageRecorder() {
+  const pageTexts: string[] = [];
+  const pageObjects: Array<number | undefined> = []; // PDF object number of each page, for image lookup
+  const pageLines: RenderedLine[][] = []; // Non-table lines with their font size, for heading detection
+
+  const pagerender = async (pageData: any): Promise<string> => {
+    const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    const lines: PdfLine[] = [];
+    let lineItems: any[] = [];
+    let lastY: number | undefined;
+
+    const flush = () => {
+      if (lineItems.length === 0) return;
+      lines.push({
+        text: lineItems.map(item => item.str).join(''),
+        cells: lineCells(lineItems),
+        fontSize: Math.max(...lineItems.filter(item => item.str.trim()).map(itemFontSize), 0),
+      });
+      lineItems = [];
+    };
+
+    for (const item of textContent.items) {
+      if (lastY && lastY !== item.transform[5]) flush();
+      lineItems.push(item);
+      lastY = item.transform[5];
+    }
+    flush();
+
+    const { text, lines: rendered } = renderPdfLines(lines);
+    pageTexts.push(text);
+    pageObjects.push(pageData.ref?.num);
+    pageLines.push(rendered);
+    return text;
+  };
+
+  const toText = (): string => pageTexts.map(text => `\n\n${text}`).join('');
+
+  // pdf-parse builds its text as "\n\n" + page, for every page in order
+  const toSpans = (): PageSpan[] => {
+    let offset = 0;
+    return pageTexts.map((text, i) => {
+      const charStart = offset + 2;
+      offset = charStart + text.length;
+      return { page: i + 1, charStart, charEnd: offset };
+    });
+  };
+
+  return { pagerender, toSpans, toText, pageTexts, pageObjects, pageLines };
+}
+
+/**
+ * OCR the pages of a PDF that have (next to) no text layer, replacing their
+ * text in the recorder. Failures leave the pages empty rather than failing
+ * the upload.
+ */
+async function ocrScannedPages(buffer: Buffer, recorder: ReturnType<typeof createPageRecorder>): Promise<OcrReport | undefined> {
+  const scanned = recorder.pageTexts
+    .map((text, i) => text.replace(/\s/g, '').length < MIN_PAGE_TEXT ? i : -1)
+    .filter(i => i >= 0);
+  if (scanned.length === 0) return undefined;
+
+  const refs = scanned.map(i => recorder.pageObjects[i]).filter((ref): ref is number => ref !== undefined);
+  let images: ReturnType<typeof extractPageImages>;
+  try {
+    images = extractPageImages(buffer, refs);
+  } catch (error) {
+    logger.error('TEXT_EXTRACT_PDF_IMAGES', 'Failed to read page images', error);
+    images = new Map();
+  }
+
+  const imagesOf = (i: number) => {
+    const ref = recorder.pageObjects[i];
+    return ref === undefined ? undefined : images.get(ref);
+  };
+  // Blank pages (no images at all) are neither read nor reported
+  const withImages = scanned.filter(i => (imagesOf(i)?.images.length || 0) > 0);
+  const unreadable = scanned.filter(i => !imagesOf(i)?.images.length && (imagesOf(i)?.unsupported || 0) > 0);
+
+  logger.info('TEXT_EXTRACT_SCANNED_PAGES', `${withImages.length} page(s) without a text layer`, {
+    pages: withImages.map(i => i + 1),
+    unsupported: unreadable.map(i => i + 1),
+    ocrEnabled: isOcrEnabled()
+  });
+
+  const toRead = isOcrEnabled() ? withImages.slice(0, getOcrMaxPages()) : [];
+  unreadable.push(...withImages.filter(i => !toRead.includes(i)));
+
+  const report: OcrReport = { pages: [], unreadablePages: [] };
+  if (toRead.length > 0) {
+    try {
+      const results = await recognizePages(toRead.map(i => ({ page: i + 1, images: imagesOf(i)!.images })));
+      for (const result of results) {
+        if (!result.text) {
+          unreadable.push(result.page - 1);
+          continue;
+        }
+        recorder.pageTexts[result.page - 1] = result.text;
+        recorder.pageLines[result.page - 1] = [];
+        report.pages.push({ page: result.page, confidence: result.confidence });
+      }
+    } catch (error) {
+      logger.error('TEXT_EXTRACT_OCR_ERROR', 'OCR failed, scanned pages left empty', error);
+      unreadable.push(...toRead);
+    }
+  }
+
+  report.unreadablePages = unreadable.map(i => i + 1).sort((a, b) => a - b);
+  return report.pages.length > 0 || report.unreadablePages.length > 0 ? report : undefined;
+}
+
+/**
+ * mammoth's HTML as plain text: one paragraph per block (like extractRawText),
+ * headings (Heading 1-6 styles) as Markdown `#` lines, tables as Markdown
+ * pipe rows with the first row as header
+ */
+function docxHtmlToText(html: string): string {
+  const withTables = tablesToPipeRows(html);
+
+  return withTables
+    .split(/(<pre>[\s\S]*?<\/pre>)/)
+    .map(part => part.startsWith('<pre>')
+      ? `\n${decodeEntities(part.slice(5, -6))}\n\n`
+      : decodeEntities(part
+        .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/g, (_, level: string, inner: string) =>
+          `${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, '').trim()}\n\n`)
+        .replace(/<br\s*\/?>/g, '\n')
+        .replace(/<\/(?:p|h[1-6]|li)>/g, '\n\n')
+        .replace(/<[^>]+>/g, '')))
+    .join('')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Pages covered by a character range of the extracted text
+ */
+export function pagesForSpan(pages: PageSpan[], charStart: number, charEnd: number): { pageStart: number; pageEnd: number } | null {
+  const covered = pages.filter(p => p.charEnd > charStart && p.charStart < charEnd);
+  if (covered.length === 0) return null;
+  return { pageStart: covered[0].page, pageEnd: covered[covered.length - 1].page };
+}
+
+/**
+ * Lowest OCR confidence among the OCR'd pages a character range covers
+ */
+export function ocrConfidenceForSpan(pages: PageSpan[], charStart: number, charEnd: number): number | undefined {
+  const confidences = pages
+    .filter(p => p.ocrConfidence !== undefined && p.charEnd > charStart && p.charStart < charEnd)
+    .map(p => p.ocrConfidence!);
+  return confidences.length > 0 ? Math.min(...confidences) : undefined;
+}
 
 /**
  * Extract text from various document formats
@@ -7,6 +346,17 @@ export async function extractText(
   buffer: Buffer, 
   fileType: string
 ): Promise<string> {
+  return (await extractDocument(buffer, fileType)).text;
+}
+
+/**
+ * Extract text plus page boundaries (PDF) for locating chunks in the source.
+ * Scanned PDF pages and image files go through local OCR.
+ */
+export async function extractDocument(
+  buffer: Buffer,
+  fileType: string
+): Promise<ExtractedDocument> {
   const startTime = Date.now();
   
   logger.info('TEXT_EXTRACT_START', 'Extracting text from document', {
@@ -16,29 +366,89 @@ export async function extractText(
   
   try {
     let text: string;
+    let pages: PageSpan[] | undefined;
+    let headings: DocumentHeading[] | undefined;
+    let ocr: OcrReport | undefined;
     
     switch (fileType.toLowerCase()) {
       case 'pdf':
         logger.debug('TEXT_EXTRACT_PDF', 'Loading PDF parser');
         const pdfParse = await import('pdf-parse-fork');
         const pdfStart = Date.now();
-        const pdfData = await pdfParse.default(buffer);
+        const recorder = createPageRecorder();
+        const pdfData = await pdfParse.default(buffer, { pagerender: recorder.pagerender });
         logger.debug('TEXT_EXTRACT_PDF_PARSED', `Parsed PDF in ${Date.now() - pdfStart}ms`, {
           pages: pdfData.numpages,
           parseTime: Date.now() - pdfStart
         });
-        text = pdfData.text;
+        ocr = await ocrScannedPages(buffer, recorder);
+        // Rebuilt only when OCR replaced pages, otherwise pdf-parse's text is kept as is
+        text = ocr?.pages.length ? recorder.toText() : pdfData.text;
+        pages = recorder.toSpans().map(span => {
+          const read = ocr?.pages.find(p => p.page === span.page);
+          return read ? { ...span, ocrConfidence: read.confidence } : span;
+        });
+        headings = detectPdfHeadings(pages, recorder.pageLines);
+        logger.debug('TEXT_EXTRACT_PDF_HEADINGS', `Found ${headings.length} heading(s) by font size`, {
+          headings: headings.slice(0, 10).map(heading => `${'#'.repeat(heading.level)} ${heading.text}`)
+        });
         break;
         
       case 'docx':
         logger.debug('TEXT_EXTRACT_DOCX', 'Loading DOCX parser');
         const mammoth = await import('mammoth');
         const docxStart = Date.now();
-        const docxResult = await mammoth.default.extractRawText({ buffer });
+        // HTML rather than raw text, so tables keep their rows and cells
+        const docxResult = await mammoth.default.convertToHtml({ buffer });
         logger.debug('TEXT_EXTRACT_DOCX_PARSED', `Parsed DOCX in ${Date.now() - docxStart}ms`, {
           parseTime: Date.now() - docxStart
         });
-        text = docxResult.value;
+        text = docxHtmlToText(docxResult.value);
+        break;
+        
+      case 'csv':
+      case 'tsv':
+      case 'xlsx':
+        logger.debug('TEXT_EXTRACT_SPREADSHEET', `Parsing ${fileType.toUpperCase()}`);
+        const sheetStart = Date.now();
+        const sheets = await parseSpreadsheet(buffer, fileType.toLowerCase());
+        logger.debug('TEXT_EXTRACT_SPREADSHEET_PARSED', `Parsed ${sheets.length} sheet(s) in ${Date.now() - sheetStart}ms`, {
+          sheets: sheets.map(sheet => ({ name: sheet.name, columns: sheet.header.length, rows: sheet.rows.length })),
+          parseTime: Date.now() - sheetStart
+        });
+        text = sheetsToText(sheets);
+        break;
+        
+      case 'html':
+      case 'htm':
+        logger.debug('TEXT_EXTRACT_HTML', 'Extracting main content from HTML');
+        text = withTitleHeading(htmlToText(decodeHtml(buffer)));
+        break;
+        
+      case 'epub':
+        logger.debug('TEXT_EXTRACT_EPUB', 'Loading EPUB chapters');
+        const epubStart = Date.now();
+        const book = await parseEpub(buffer);
+        logger.debug('TEXT_EXTRACT_EPUB_PARSED', `Parsed EPUB in ${Date.now() - epubStart}ms`, {
+          title: book.title,
+          parseTime: Date.now() - epubStart
+        });
+        text = withTitleHeading(book);
+        break;
+        
+      case 'png':
+      case 'jpg':
+      case 'jpeg':
+        if (!isOcrEnabled()) {
+          throw new Error('Image files need OCR, which is disabled (OCR_ENABLED=false)');
+        }
+        logger.debug('TEXT_EXTRACT_IMAGE', 'Running OCR on image');
+        const [imagePage] = await recognizePages([{ page: 1, images: [buffer] }]);
+        text = imagePage.text;
+        pages = [{ page: 1, charStart: 0, charEnd: text.length, ocrConfidence: imagePage.confidence }];
+        ocr = text
+          ? { pages: [{ page: 1, confidence: imagePage.confidence }], unreadablePages: [] }
+          : { pages: [], unreadablePages: [1] };
         break;
         
       case 'txt':
@@ -61,7 +471,7 @@ export async function extractText(
       preview: text.substring(0, 100)
     });
     
-    return text;
+    return { text, pages, ...(headings?.length ? { headings } : {}), ...(ocr ? { ocr } : {}) };
   } catch (error: any) {
     logger.error('TEXT_EXTRACT_ERROR', 'Failed to extract text', {
       error: error.message,
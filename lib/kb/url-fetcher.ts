@@ -0,0 +1,330 @@
+import { promises as fs } from 'fs';
+import { lookup, type LookupAddress } from 'dns';
+import { lookup as lookupAll } from 'dns/promises';
+import http, { type IncomingMessage } from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { extname, join, resolve, sep } from 'path';
+import { KBError, ErrorCode } from './error-handler';
+import { logger } from '../logger';
+
+/**
+ * Fetching web pages (and linked documents) for "add by URL".
+ *
+ * The HTTP fetcher follows http(s) URLs to public addresses only, with a
+ * timeout and the upload size limit. URL_FETCHER=fixture serves pages from
+ * URL_FIXTURE_DIR instead (<dir>/<host>/<path>, index.html for directory
+ * URLs), so URL ingestion can be exercised offline.
+ */
+
+export interface FetchedPage {
+  url: string; // After redirects
+  contentType: string;
+  body: Buffer;
+}
+
+export interface PageFetcher {
+  fetch(url: URL): Promise<FetchedPage>;
+}
+
+/** A fetched URL, ready to be queued like an uploaded file */
+export interface UrlDocument {
+  buffer: Buffer;
+  filename: string; // Host + path, so re-adding the same page replaces it as a new version
+  fileType: string;
+  sourceUrl: string;
+}
+
+const MAX_PAGE_BYTES = 10 * 1024 * 1024; // Same limit as file uploads
+const MAX_REDIRECTS = 5;
+const MAX_FILENAME_LENGTH = 200;
+const USER_AGENT = 'OnlyFinance-KB/1.0 (+document ingestion)';
+
+const FILE_TYPES: Record<string, string> = {
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/epub+zip': 'epub',
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+  'text/csv': 'csv',
+  'text/tab-separated-values': 'tsv',
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+};
+
+// Fixture files: content type by extension
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.xhtml': 'application/xhtml+xml',
+  '.epub': 'application/epub+zip',
+  '.pdf': 'application/pdf',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+};
+
+function getFetchTimeout(): number {
+  const value = parseInt(process.env.URL_FETCH_TIMEOUT_MS || '', 10);
+  return isNaN(value) || value < 1 ? 15000 : value;
+}
+
+// IPv4 rules also match IPv4-mapped IPv6 addresses (::ffff:7f00:1 is 127.0.0.1)
+const PRIVATE_NETWORKS = new BlockList();
+PRIVATE_NETWORKS.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('100.64.0.0', 10, 'ipv4'); // Carrier-grade NAT
+PRIVATE_NETWORKS.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('169.254.0.0', 16, 'ipv4'); // Link-local, cloud metadata
+PRIVATE_NETWORKS.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('192.0.0.0', 24, 'ipv4'); // IETF protocol assignments
+PRIVATE_NETWORKS.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('198.18.0.0', 15, 'ipv4'); // Benchmarking
+PRIVATE_NETWORKS.addSubnet('224.0.0.0', 4, 'ipv4'); // Multicast
+PRIVATE_NETWORKS.addSubnet('240.0.0.0', 4, 'ipv4'); // Reserved, broadcast
+PRIVATE_NETWORKS.addSubnet('::', 96, 'ipv6'); // Unspecified, loopback, IPv4-compatible (::127.0.0.1)
+PRIVATE_NETWORKS.addSubnet('64:ff9b::', 96, 'ipv6'); // NAT64 (64:ff9b::7f00:1 reaches 127.0.0.1)
+PRIVATE_NETWORKS.addSubnet('fc00::', 7, 'ipv6'); // Unique local
+PRIVATE_NETWORKS.addSubnet('fe80::', 10, 'ipv6'); // Link-local
+
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_NETWORKS.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+function allowPrivate(): boolean {
+  return process.env.URL_FETCH_ALLOW_PRIVATE === 'true';
+}
+
+function privateAddressError(url: string): KBError {
+  return new KBError('URL resolves to a private address', ErrorCode.INVALID_URL, { url }, false);
+}
+
+/**
+ * Refuse hosts on loopback / private networks, so the server cannot be used
+ * to reach internal services (URL_FETCH_ALLOW_PRIVATE=true turns this off).
+ * Checked up front for a clear error; publicLookup re-checks the address the
+ * socket actually connects to, so DNS rebinding in between gains nothing.
+ */
+async function assertPublicHost(url: URL): Promise<void> {
+  if (allowPrivate()) return;
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host) ? [host] : (await lookupAll(host, { all: true })).map(entry => entry.address);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw privateAddressError(url.href);
+  }
+}
+
+/** DNS lookup for outgoing sockets that fails on private addresses */
+function publicLookup(url: string): LookupFunction {
+  return (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+      if (error) return callback(error, '', 0);
+      if (!allowPrivate() && (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address)))) {
+        return callback(privateAddressError(url), '', 0);
+      }
+      if (options.all) return callback(null, addresses, 0);
+      callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+}
+
+const FETCH_HEADERS = {
+  'User-Agent': USER_AGENT,
+  Accept: 'text/html,application/xhtml+xml,application/pdf,application/epub+zip;q=0.9,*/*;q=0.5',
+};
+
+function request(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.get(url, { headers: FETCH_HEADERS, lookup: publicLookup(url.href), signal }, resolve);
+    req.on('error', reject);
+  });
+}
+
+async function readLimited(response: IncomingMessage, url: string): Promise<Buffer> {
+  const declared = parseInt(response.headers['content-length'] || '', 10);
+  if (declared > MAX_PAGE_BYTES) {
+    response.destroy();
+    throw new KBError('Page too large', ErrorCode.FILE_TOO_LARGE, { url, size: declared, maxSize: MAX_PAGE_BYTES }, false);
+  }
+
+  const parts: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > MAX_PAGE_BYTES) {
+      response.destroy();
+      throw new KBError('Page too large', ErrorCode.FILE_TOO_LARGE, { url, maxSize: MAX_PAGE_BYTES }, false);
+    }
+    parts.push(chunk as Buffer);
+  }
+  return Buffer.concat(parts);
+}
+
+export class HttpPageFetcher implements PageFetcher {
+  async fetch(url: URL): Promise<FetchedPage> {
+    let current = url;
+    const signal = AbortSignal.timeout(getFetchTimeout());
+
+    // Redirects are followed by hand so every hop goes through the address check
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      await assertPublicHost(current);
+
+      const response = await request(current, signal);
+      const status = response.statusCode || 0;
+
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        current = parseSourceUrl(new URL(location, current).href);
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new KBError(
+          `HTTP ${status}`,
+          ErrorCode.URL_FETCH_FAILED,
+          { url: current.href, status },
+          status === 429 || status >= 500
+        );
+      }
+
+      return {
+        url: current.href,
+        contentType: response.headers['content-type'] || '',
+        body: await readLimited(response, current.href),
+      };
+    }
+
+    throw new KBError('Too many redirects', ErrorCode.URL_FETCH_FAILED, { url: url.href }, false);
+  }
+}
+
+export class FixturePageFetcher implements PageFetcher {
+  constructor(private readonly dir: string) {}
+
+  async fetch(url: URL): Promise<FetchedPage> {
+    const root = resolve(this.dir);
+    const path = decodeURIComponent(url.pathname);
+    let file = resolve(root, url.hostname, `.${path.endsWith('/') ? `${path}index.html` : path}`);
+    if (!file.startsWith(root + sep)) {
+      throw new KBError('Fixture path outside the fixture directory', ErrorCode.INVALID_URL, { url: url.href }, false);
+    }
+
+    try {
+      if ((await fs.stat(file)).isDirectory()) {
+        file = join(file, 'index.html');
+      }
+      return {
+        url: url.href,
+        contentType: CONTENT_TYPES[extname(file).toLowerCase()] || 'application/octet-stream',
+        body: await fs.readFile(file),
+      };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        throw new KBError('No fixture for URL', ErrorCode.URL_FETCH_FAILED, { url: url.href, status: 404 }, false);
+      }
+      throw error;
+    }
+  }
+}
+
+export function getPageFetcher(): PageFetcher {
+  if (process.env.URL_FETCHER === 'fixture') {
+    return new FixturePageFetcher(process.env.URL_FIXTURE_DIR || join(process.cwd(), 'fixtures', 'web'));
+  }
+  return new HttpPageFetcher();
+}
+
+/**
+ * Parse a user-supplied address: http(s) only, no credentials, fragment dropped
+ */
+export function parseSourceUrl(raw: string): URL {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    throw new KBError('Invalid URL', ErrorCode.INVALID_URL, { url: raw }, false);
+  }
+
+  if ((url.protocol !== 'http:' && url.protocol !== 'https:') || url.username || url.password) {
+    throw new KBError('Only http(s) URLs without credentials are supported', ErrorCode.INVALID_URL, { url: raw }, false);
+  }
+
+  url.hash = '';
+  return url;
+}
+
+/**
+ * KB document type of a fetched page: from its content type, else the URL's extension
+ */
+function fileTypeOf(page: FetchedPage): string | null {
+  const mediaType = page.contentType.split(';')[0].trim().toLowerCase();
+  if (FILE_TYPES[mediaType]) return FILE_TYPES[mediaType];
+
+  const byExtension = CONTENT_TYPES[extname(new URL(page.url).pathname).toLowerCase()];
+  return byExtension ? FILE_TYPES[byExtension] : null;
+}
+
+function documentNameOf(url: URL): string {
+  const name = `${url.hostname}${decodeURIComponent(url.pathname).replace(/\/+$/, '')}${url.search}`;
+  return name.length > MAX_FILENAME_LENGTH ? name.slice(0, MAX_FILENAME_LENGTH) : name;
+}
+
+/**
+ * Fetch a URL as a KB document (HTML page, PDF, EPUB, ...)
+ */
+export async function fetchUrlDocument(raw: string, fetcher: PageFetcher = getPageFetcher()): Promise<UrlDocument> {
+  const startTime = Date.now();
+  const url = parseSourceUrl(raw);
+
+  let page: FetchedPage;
+  try {
+    page = await fetcher.fetch(url);
+  } catch (error) {
+    if (error instanceof KBError) throw error;
+    throw new KBError(
+      'Fetch failed',
+      ErrorCode.URL_FETCH_FAILED,
+      { url: url.href, error: error instanceof Error ? error.message : 'Unknown error' },
+      true
+    );
+  }
+
+  if (page.body.length > MAX_PAGE_BYTES) {
+    throw new KBError('Page too large', ErrorCode.FILE_TOO_LARGE, { url: page.url, size: page.body.length, maxSize: MAX_PAGE_BYTES }, false);
+  }
+
+  const fileType = fileTypeOf(page);
+  if (!fileType) {
+    throw new KBError('Unsupported content type', ErrorCode.UNSUPPORTED_FORMAT, { url: page.url, contentType: page.contentType }, false);
+  }
+
+  const finalUrl = new URL(page.url);
+  logger.info('URL_FETCHED', `Fetched ${finalUrl.href} in ${Date.now() - startTime}ms`, {
+    url: finalUrl.href,
+    redirected: finalUrl.href !== url.href,
+    contentType: page.contentType,
+    fileType,
+    size: page.body.length,
+    fetchTime: Date.now() - startTime
+  });
+
+  return {
+    buffer: page.body,
+    filename: documentNameOf(finalUrl),
+    fileType,
+    sourceUrl: finalUrl.href,
+  };
+}
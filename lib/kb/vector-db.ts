@@ -1,21 +1,13 @@
-import { QdrantClient } from '@qdrant/js-client-rest';
+import type { PointId, VectorStore } from './stores';
+import { getActiveKB } from './active-kb';
+import { invalidateKeywordIndex } from './keyword-index';
+import { CURRENT_VERSION_FILTER, SEARCHABLE_FILTER } from './document-versions';
+import { getChunkPointId } from './point-ids';
+import { getEmbeddingModelId, LEGACY_EMBEDDING_MODEL_ID, type EmbeddingProvider } from './embeddings';
+import type { ChunkingStrategyName } from './chunking';
+import { KBError, ErrorCode } from './error-handler';
 import { logger } from '../logger';
 
-// Initialize Qdrant client
-let qdrantClient: QdrantClient | null = null;
-
-function getQdrantClient() {
-  if (!qdrantClient) {
-    qdrantClient = new QdrantClient({
-      url: process.env.QDRANT_URL!,
-      apiKey: process.env.QDRANT_API_KEY,
-    });
-  }
-  return qdrantClient;
-}
-
-const COLLECTION_NAME = process.env.QDRANT_COLLECTION || 'onlyfinance-kb';
-
 export interface KBChunk {
   id: string;
   content: string;
@@ -26,74 +18,133 @@ export interface KBChunk {
     chunkIndex: number;
     validationScore: number;
     sessionId: string; // User session ID for isolation
+    sourceUrl?: string; // Original page of documents added by URL
+    documentId: string; // Stable across versions of the same filename
+    version: number;
+    contentHash: string;
+    archived: boolean; // New versions are stored archived until published
+    validationReasoning?: string;
+    chunkType?: 'text' | 'table'; // Tables are chunked whole (header repeated on splits)
+    charStart?: number; // Offsets into the extracted text
+    charEnd?: number;
+    pageStart?: number; // PDF pages the chunk spans (1-based)
+    pageEnd?: number;
+    ocrConfidence?: number; // 0-1, lowest OCR confidence of the scanned pages the chunk spans
+    sectionPath?: string[]; // Headings the chunk sits under, outermost first
+    chunkingStrategy?: ChunkingStrategyName;
+    chunkingKey?: string; // "strategy:maxTokens:overlap:mode", part of the duplicate-upload key
+    injection?: { action: 'neutralised' | 'quarantined'; patterns: string[] }; // Set by the injection guard
   };
 }
 
 export interface KBSearchResult {
+  id: string;
   content: string;
   source: string;
   score: number;
   validationScore: number;
+  sourceUrl?: string;
+  sectionPath?: string[];
+}
+
+export interface KBDocument {
+  documentId: string | null;
+  version: number;
+  filename: string;
+  fileType: string;
+  uploadDate: string;
+  chunkCount: number;
+  avgValidationScore: number;
+  sourceUrl?: string;
+}
+
+// Collections already verified against the active embedding model
+const verifiedCollections = new Set<string>();
+
+const SCROLL_PAGE_SIZE = 500;
+
+// Aggregated document lists; rebuilt on writes, the TTL covers writes from other instances
+const DOCUMENT_CACHE_TTL_MS = 5 * 60 * 1000;
+const documentCache = new Map<string, { documents: KBDocument[]; builtAt: number }>();
+
+function documentCacheKey(collection: string, sessionId?: string): string {
+  return `${collection}:${sessionId || '__all__'}`;
 }
 
 /**
- * Ensure collection exists with correct configuration
+ * Drop the session's cached document list and keyword index after a write
  */
-async function ensureCollection() {
-  const startTime = Date.now();
-  const client = getQdrantClient();
+export function invalidateSessionCaches(sessionId: string) {
+  invalidateKeywordIndex(sessionId);
+  for (const key of Array.from(documentCache.keys())) {
+    if (key.endsWith(`:${sessionId}`) || key.endsWith(':__all__')) {
+      documentCache.delete(key);
+    }
+  }
+}
+
+/**
+ * Refuse to write vectors from a different embedding model (or dimension)
+ * into a collection that already holds vectors from another one
+ */
+async function assertEmbeddingCompatible(store: VectorStore, provider: EmbeddingProvider, embeddings: number[][]) {
+  const modelId = getEmbeddingModelId(provider);
   
-  logger.debug('VECTOR_DB_ENSURE_COLLECTION_START', 'Checking collection existence', {
-    collectionName: COLLECTION_NAME
-  });
+  const badVector = embeddings.find(e => e.length !== provider.dimension);
+  if (badVector) {
+    throw new KBError(
+      'Embedding dimension mismatch',
+      ErrorCode.EMBEDDING_MODEL_MISMATCH,
+      { expected: provider.dimension, actual: badVector.length, modelId },
+      false
+    );
+  }
   
-  try {
-    const collection = await client.getCollection(COLLECTION_NAME);
-    logger.debug('VECTOR_DB_COLLECTION_EXISTS', `Collection exists with ${collection.points_count || 0} points`, {
-      pointsCount: collection.points_count || 0,
-      checkTime: Date.now() - startTime
-    });
-  } catch (error: any) {
-    logger.info('VECTOR_DB_CREATE_COLLECTION', 'Collection does not exist, creating', {
-      collectionName: COLLECTION_NAME,
-      vectorSize: 1536,
-      distance: 'Cosine'
-    });
-    
-    const createStart = Date.now();
-    await client.createCollection(COLLECTION_NAME, {
-      vectors: {
-        size: 1536, // text-embedding-3-small dimensions
-        distance: 'Cosine',
-      },
-    });
-    
-    logger.info('VECTOR_DB_COLLECTION_CREATED', `Collection created in ${Date.now() - createStart}ms`, {
-      collectionName: COLLECTION_NAME,
-      createTime: Date.now() - createStart,
-      totalTime: Date.now() - startTime
-    });
+  if (verifiedCollections.has(store.collection)) return;
+  
+  const sample = await store.scroll({ limit: 1, withPayload: true, withVector: false });
+  const existingPoint = sample.points[0];
+  if (existingPoint) {
+    const existingModelId = (existingPoint.payload.embeddingModel as string) || LEGACY_EMBEDDING_MODEL_ID;
+    if (existingModelId !== modelId) {
+      logger.error('VECTOR_DB_MODEL_MISMATCH', 'Refusing to mix embedding models in one collection', {
+        collection: store.collection,
+        existingModelId,
+        modelId
+      });
+      throw new KBError(
+        'Embedding model mismatch',
+        ErrorCode.EMBEDDING_MODEL_MISMATCH,
+        { collection: store.collection, existingModelId, modelId },
+        false
+      );
+    }
   }
+  
+  verifiedCollections.add(store.collection);
 }
 
 /**
- * Store document chunks in Qdrant
+ * Store document chunks in the vector store
  */
 export async function storeChunks(chunks: KBChunk[], embeddings: number[][], sessionId: string) {
   const startTime = Date.now();
   
-  logger.info('VECTOR_DB_STORE_START', 'Storing chunks in Qdrant', {
+  logger.info('VECTOR_DB_STORE_START', 'Storing chunks in vector store', {
     chunkCount: chunks.length,
     embeddingCount: embeddings.length,
     filename: chunks[0]?.metadata.filename,
     sessionId
   });
   
-  const client = getQdrantClient();
-  await ensureCollection();
+  const { store, provider } = await getActiveKB({ fresh: true });
+  await store.ensureCollection();
+  await assertEmbeddingCompatible(store, provider, embeddings);
+  const embeddingModel = getEmbeddingModelId(provider);
   
   const points = chunks.map((chunk, i) => ({
-    id: Date.now() + i, // Use integer ID (required by Qdrant)
+    // Deterministic UUID: re-storing a chunk overwrites it instead of duplicating it
+    id: getChunkPointId(sessionId, chunk.metadata.documentId, chunk.metadata.version, chunk.metadata.chunkIndex),
     vector: embeddings[i],
     payload: {
       content: chunk.content,
@@ -103,7 +154,26 @@ export async function storeChunks(chunks: KBChunk[], embeddings: number[][], ses
       chunkIndex: chunk.metadata.chunkIndex,
       validationScore: chunk.metadata.validationScore,
       sessionId: sessionId, // Store session ID for filtering
+      ...(chunk.metadata.sourceUrl ? { sourceUrl: chunk.metadata.sourceUrl } : {}),
+      documentId: chunk.metadata.documentId,
+      version: chunk.metadata.version,
+      contentHash: chunk.metadata.contentHash,
+      archived: chunk.metadata.archived,
+      ...(chunk.metadata.validationReasoning ? { validationReasoning: chunk.metadata.validationReasoning } : {}),
+      ...(chunk.metadata.chunkType ? { chunkType: chunk.metadata.chunkType } : {}),
+      ...(chunk.metadata.charStart !== undefined ? { charStart: chunk.metadata.charStart, charEnd: chunk.metadata.charEnd } : {}),
+      ...(chunk.metadata.pageStart !== undefined ? { pageStart: chunk.metadata.pageStart, pageEnd: chunk.metadata.pageEnd } : {}),
+      ...(chunk.metadata.ocrConfidence !== undefined ? { ocrConfidence: chunk.metadata.ocrConfidence } : {}),
+      ...(chunk.metadata.sectionPath ? { sectionPath: chunk.metadata.sectionPath } : {}),
+      ...(chunk.metadata.chunkingStrategy ? { chunkingStrategy: chunk.metadata.chunkingStrategy } : {}),
+      ...(chunk.metadata.chunkingKey ? { chunkingKey: chunk.metadata.chunkingKey } : {}),
+      ...(chunk.metadata.injection ? {
+        injectionAction: chunk.metadata.injection.action,
+        injectionPatterns: chunk.metadata.injection.patterns,
+        quarantined: chunk.metadata.injection.action === 'quarantined',
+      } : {}),
       originalId: chunk.id,
+      embeddingModel, // Guards against mixing models in one collection
     },
   }));
   
@@ -113,10 +183,8 @@ export async function storeChunks(chunks: KBChunk[], embeddings: number[][], ses
   });
   
   const upsertStart = Date.now();
-  await client.upsert(COLLECTION_NAME, {
-    wait: true,
-    points,
-  });
+  await store.upsert(points);
+  invalidateSessionCaches(sessionId);
   
   logger.info('VECTOR_DB_STORE_COMPLETE', `Stored ${chunks.length} chunks in ${Date.now() - startTime}ms`, {
     totalTime: Date.now() - startTime,
@@ -136,48 +204,36 @@ export async function searchKB(
 ): Promise<KBSearchResult[]> {
   const startTime = Date.now();
   
-  logger.info('VECTOR_DB_SEARCH_START', 'Searching Qdrant', {
+  logger.info('VECTOR_DB_SEARCH_START', 'Searching vector store', {
     topK,
     embeddingDim: queryEmbedding.length
   });
   
   try {
-    const client = getQdrantClient();
-    await ensureCollection();
+    const { store } = await getActiveKB();
+    await store.ensureCollection();
     
     // Check if collection has any points
     const collectionStart = Date.now();
-    const collectionInfo = await client.getCollection(COLLECTION_NAME);
+    const pointsCount = await store.count();
     logger.debug('VECTOR_DB_COLLECTION_INFO', `Got collection info in ${Date.now() - collectionStart}ms`, {
-      pointsCount: collectionInfo.points_count || 0
+      pointsCount
     });
     
-    if (!collectionInfo.points_count || collectionInfo.points_count === 0) {
+    if (pointsCount === 0) {
       logger.warn('VECTOR_DB_EMPTY', 'KB is empty, returning no results');
       return [];
     }
     
     const searchStart = Date.now();
-    const searchParams: any = {
-      vector: queryEmbedding,
-      limit: topK,
-      with_payload: true,
-    };
     
-    // Filter by sessionId if provided
+    // Filter by sessionId if provided; only current document versions
+    const filter = sessionId ? { sessionId, ...SEARCHABLE_FILTER } : SEARCHABLE_FILTER;
     if (sessionId) {
-      searchParams.filter = {
-        must: [
-          {
-            key: 'sessionId',
-            match: { value: sessionId }
-          }
-        ]
-      };
       logger.debug('VECTOR_DB_SEARCH_FILTER', 'Filtering by sessionId', { sessionId });
     }
     
-    const results = await client.search(COLLECTION_NAME, searchParams);
+    const results = await store.search(queryEmbedding, topK, filter);
     
     logger.debug('VECTOR_DB_SEARCH_RAW', `Vector search returned ${results.length} results in ${Date.now() - searchStart}ms`, {
       resultCount: results.length,
@@ -199,10 +255,13 @@ export async function searchKB(
     });
     
     const mapped = filteredResults.map(result => ({
+      id: String(result.id),
       content: (result.payload?.content as string) || '',
       source: (result.payload?.filename as string) || 'Unknown',
       score: result.score || 0,
       validationScore: (result.payload?.validationScore as number) || 0,
+      ...(result.payload?.sourceUrl ? { sourceUrl: result.payload.sourceUrl as string } : {}),
+      ...(result.payload?.sectionPath ? { sectionPath: result.payload.sectionPath as string[] } : {}),
     }));
     
     const uniqueSources = Array.from(new Set(mapped.map(r => r.source)));
@@ -229,42 +288,7 @@ export async function searchKB(
 }
 
 /**
- * Ensure payload index exists for filename and sessionId fields
- */
-async function ensurePayloadIndex() {
-  const client = getQdrantClient();
-  
-  try {
-    // Create payload index for filename field (keyword type for exact matches)
-    await client.createPayloadIndex(COLLECTION_NAME, {
-      field_name: 'filename',
-      field_schema: 'keyword',
-    });
-    logger.debug('VECTOR_DB_INDEX_CREATED', 'Created payload index for filename field');
-  } catch (error: any) {
-    // Index might already exist, which is fine
-    if (!error.message?.includes('already exists')) {
-      logger.debug('VECTOR_DB_INDEX_EXISTS', 'Payload index for filename already exists or creation skipped');
-    }
-  }
-  
-  try {
-    // Create payload index for sessionId field (keyword type for exact matches)
-    await client.createPayloadIndex(COLLECTION_NAME, {
-      field_name: 'sessionId',
-      field_schema: 'keyword',
-    });
-    logger.debug('VECTOR_DB_INDEX_CREATED', 'Created payload index for sessionId field');
-  } catch (error: any) {
-    // Index might already exist, which is fine
-    if (!error.message?.includes('already exists')) {
-      logger.debug('VECTOR_DB_INDEX_EXISTS', 'Payload index for sessionId already exists or creation skipped');
-    }
-  }
-}
-
-/**
- * Delete all chunks from a document (filtered by session)
+ * Delete all chunks from a document, every version (filtered by session)
  */
 export async function deleteDocument(filename: string, sessionId: string) {
   const startTime = Date.now();
@@ -274,34 +298,16 @@ export async function deleteDocument(filename: string, sessionId: string) {
     sessionId
   });
   
-  const client = getQdrantClient();
-  await ensureCollection();
-  await ensurePayloadIndex();
+  const { store } = await getActiveKB({ fresh: true });
+  await store.ensureCollection();
   
   try {
     // Approach 1: Try filter-based deletion (most efficient)
     logger.debug('VECTOR_DB_DELETE_FILTER', 'Attempting filter-based deletion');
     const deleteStart = Date.now();
     
-    await client.delete(COLLECTION_NAME, {
-      wait: true,
-      filter: {
-        must: [
-          {
-            key: 'filename',
-            match: {
-              value: filename,
-            },
-          },
-          {
-            key: 'sessionId',
-            match: {
-              value: sessionId,
-            },
-          },
-        ],
-      },
-    });
+    await store.deleteByFilter({ filename, sessionId });
+    invalidateSessionCaches(sessionId);
     
     logger.info('VECTOR_DB_DELETE_COMPLETE', `Deleted document in ${Date.now() - startTime}ms`, {
       filename,
@@ -315,51 +321,41 @@ export async function deleteDocument(filename: string, sessionId: string) {
     });
     
     try {
-      // Approach 2: Fallback to scroll + delete by IDs
+      // Approach 2: Fallback to scroll + delete by IDs, following next_page_offset
       const scrollStart = Date.now();
-      const scrollResult = await client.scroll(COLLECTION_NAME, {
-        filter: {
-          must: [
-            {
-              key: 'filename',
-              match: {
-                value: filename,
-              },
-            },
-            {
-              key: 'sessionId',
-              match: {
-                value: sessionId,
-              },
-            },
-          ],
-        },
-        limit: 1000,
-        with_payload: false,
-        with_vector: false,
-      });
+      const pointIds: PointId[] = [];
+      let offset: PointId | null = null;
+      do {
+        const page = await store.scroll({
+          filter: { filename, sessionId },
+          limit: SCROLL_PAGE_SIZE,
+          offset,
+          withPayload: false,
+          withVector: false,
+        });
+        pointIds.push(...page.points.map(p => p.id));
+        offset = page.nextOffset;
+      } while (offset !== null);
       
-      logger.debug('VECTOR_DB_DELETE_SCROLL', `Found ${scrollResult.points.length} points to delete in ${Date.now() - scrollStart}ms`, {
+      logger.debug('VECTOR_DB_DELETE_SCROLL', `Found ${pointIds.length} points to delete in ${Date.now() - scrollStart}ms`, {
         filename,
-        pointCount: scrollResult.points.length,
+        pointCount: pointIds.length,
         scrollTime: Date.now() - scrollStart
       });
       
-      if (scrollResult.points.length === 0) {
+      if (pointIds.length === 0) {
         logger.warn('VECTOR_DB_DELETE_NONE', 'No points found to delete', {
           filename
         });
         return;
       }
       
-      // Delete by point IDs (most reliable)
-      const pointIds = scrollResult.points.map(p => p.id);
+      // Delete by point IDs (most reliable), in scroll-sized batches
       const deleteStart = Date.now();
-      
-      await client.delete(COLLECTION_NAME, {
-        wait: true,
-        points: pointIds,
-      });
+      for (let i = 0; i < pointIds.length; i += SCROLL_PAGE_SIZE) {
+        await store.deleteByIds(pointIds.slice(i, i + SCROLL_PAGE_SIZE));
+      }
+      invalidateSessionCaches(sessionId);
       
       logger.info('VECTOR_DB_DELETE_COMPLETE', `Deleted ${pointIds.length} points in ${Date.now() - startTime}ms`, {
         filename,
@@ -380,90 +376,98 @@ export async function deleteDocument(filename: string, sessionId: string) {
 }
 
 /**
- * List all documents in the knowledge base with metadata (filtered by session)
+ * List the current version of every document with metadata (filtered by session).
+ * Aggregated over every page of the scroll and cached per session.
  */
-export async function listDocuments(sessionId?: string) {
+export async function listDocuments(sessionId?: string): Promise<KBDocument[]> {
   const startTime = Date.now();
   
   logger.info('VECTOR_DB_LIST_START', 'Listing all documents', { sessionId });
   
   try {
-    const client = getQdrantClient();
-    await ensureCollection();
-    await ensurePayloadIndex(); // Ensure indexes exist before filtering
+    const { store } = await getActiveKB();
+    
+    const cacheKey = documentCacheKey(store.collection, sessionId);
+    const cached = documentCache.get(cacheKey);
+    if (cached && Date.now() - cached.builtAt < DOCUMENT_CACHE_TTL_MS) {
+      logger.debug('VECTOR_DB_LIST_CACHED', `Serving ${cached.documents.length} documents from cache`, {
+        sessionId,
+        age: Date.now() - cached.builtAt
+      });
+      return cached.documents;
+    }
+    
+    await store.ensureCollection(); // Also ensures payload indexes before filtering
     
     // Scroll through all points to get unique documents
     const scrollStart = Date.now();
-    const scrollParams: any = {
-      limit: 1000,
-      with_payload: true,
-      with_vector: false,
-    };
     
-    // Filter by sessionId if provided
+    // Filter by sessionId if provided; only current document versions
+    const filter = sessionId ? { sessionId, ...CURRENT_VERSION_FILTER } : CURRENT_VERSION_FILTER;
     if (sessionId) {
-      scrollParams.filter = {
-        must: [
-          {
-            key: 'sessionId',
-            match: { value: sessionId }
-          }
-        ]
-      };
       logger.debug('VECTOR_DB_LIST_FILTER', 'Filtering by sessionId', { sessionId });
     }
     
-    const scrollResult = await client.scroll(COLLECTION_NAME, scrollParams);
-    
-    logger.debug('VECTOR_DB_SCROLL_COMPLETE', `Scrolled ${scrollResult.points.length} points in ${Date.now() - scrollStart}ms`, {
-      pointCount: scrollResult.points.length,
-      scrollTime: Date.now() - scrollStart
-    });
-    
     // Group by filename and aggregate metadata
-    const documentsMap = new Map<string, {
-      filename: string;
-      fileType: string;
-      uploadDate: string;
-      chunkCount: number;
-      avgValidationScore: number;
-    }>();
+    const documentsMap = new Map<string, KBDocument>();
+    let totalChunks = 0;
+    let pages = 0;
+    let offset: PointId | null = null;
     
-    for (const point of scrollResult.points) {
-      const filename = point.payload?.filename as string;
-      const fileType = point.payload?.fileType as string;
-      const uploadDate = point.payload?.uploadDate as string;
-      const validationScore = (point.payload?.validationScore as number) || 0;
+    do {
+      const page = await store.scroll({
+        filter,
+        limit: SCROLL_PAGE_SIZE,
+        offset,
+        withPayload: true,
+        withVector: false,
+      });
+      pages++;
+      totalChunks += page.points.length;
       
-      if (!documentsMap.has(filename)) {
-        documentsMap.set(filename, {
-          filename,
-          fileType,
-          uploadDate,
-          chunkCount: 1,
-          avgValidationScore: validationScore,
-        });
-      } else {
-        const doc = documentsMap.get(filename)!;
-        const totalScore = doc.avgValidationScore * doc.chunkCount + validationScore;
-        doc.chunkCount++;
-        doc.avgValidationScore = totalScore / doc.chunkCount;
+      for (const point of page.points) {
+        const filename = point.payload?.filename as string;
+        const fileType = point.payload?.fileType as string;
+        const uploadDate = point.payload?.uploadDate as string;
+        const validationScore = (point.payload?.validationScore as number) || 0;
+        
+        if (!documentsMap.has(filename)) {
+          documentsMap.set(filename, {
+            documentId: (point.payload?.documentId as string) ?? null,
+            version: (point.payload?.version as number) ?? 0,
+            filename,
+            fileType,
+            uploadDate,
+            chunkCount: 1,
+            avgValidationScore: validationScore,
+            ...(point.payload?.sourceUrl ? { sourceUrl: point.payload.sourceUrl as string } : {}),
+          });
+        } else {
+          const doc = documentsMap.get(filename)!;
+          const totalScore = doc.avgValidationScore * doc.chunkCount + validationScore;
+          doc.chunkCount++;
+          doc.avgValidationScore = totalScore / doc.chunkCount;
+        }
       }
-    }
+      
+      offset = page.nextOffset;
+    } while (offset !== null);
+    
+    logger.debug('VECTOR_DB_SCROLL_COMPLETE', `Scrolled ${totalChunks} points in ${pages} pages in ${Date.now() - scrollStart}ms`, {
+      pointCount: totalChunks,
+      pages,
+      scrollTime: Date.now() - scrollStart
+    });
     
     const documents = Array.from(documentsMap.values()).sort((a, b) => 
       new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime()
     );
+    documentCache.set(cacheKey, { documents, builtAt: Date.now() });
     
     logger.info('VECTOR_DB_LIST_COMPLETE', `Listed ${documents.length} documents in ${Date.now() - startTime}ms`, {
       documentCount: documents.length,
-      totalChunks: scrollResult.points.length,
-      totalTime: Date.now() - startTime,
-      documents: documents.map(d => ({ 
-        filename: d.filename, 
-        chunks: d.chunkCount,
-        score: d.avgValidationScore.toFixed(2)
-      }))
+      totalChunks,
+      totalTime: Date.now() - startTime
     });
     
     return documents;
@@ -1,5 +1,6 @@
 import { appendFileSync, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { redactPII } from './guards/pii-redactor';
 
 export type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
 
@@ -51,14 +52,19 @@ class Logger {
 
   private formatLogEntry(entry: LogEntry): string {
     const { timestamp, level, category, message, data, error } = entry;
-    let logLine = `[${timestamp}] [${level}] [${category}] ${message}`;
+    // Every entry, whatever the upload redaction settings: logs must never carry PII.
+    // Only string values are redacted, so numbers such as timestamps stay intact.
+    const redact = (text: string) => redactPII(text).text;
+    const redactStrings = (_key: string, value: any) => typeof value === 'string' ? redact(value) : value;
+
+    let logLine = `[${timestamp}] [${level}] [${category}] ${redact(message)}`;
     
     if (data) {
-      logLine += ` | Data: ${JSON.stringify(data)}`;
+      logLine += ` | Data: ${JSON.stringify(data, redactStrings)}`;
     }
     
     if (error) {
-      logLine += ` | Error: ${error.stack || error.message || JSON.stringify(error)}`;
+      logLine += ` | Error: ${error.stack || error.message ? redact(error.stack || error.message) : JSON.stringify(error, redactStrings)}`;
     }
     
     return logLine;
@@ -43,3 +43,20 @@ export function setTheme(theme: 'light' | 'dark'): void {
   localStorage.setItem('onlyfin_theme', theme);
   console.log('[SESSION] Theme set to:', theme);
 }
+
+// Active conversation - resumed on reload
+export function getConversationId(): string | null {
+  if (typeof window === 'undefined') return null;
+  return localStorage.getItem('onlyfin_conversation_id');
+}
+
+export function setConversationId(conversationId: string): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem('onlyfin_conversation_id', conversationId);
+}
+
+export function createConversationId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `conv_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+}
@@ -0,0 +1,113 @@
+import type { Transaction, TransactionCategory } from './types';
+
+/**
+ * Aggregates over stored transactions, for the chat tool.
+ *
+ * Spending is money out in spending categories, net of refunds in those
+ * categories; transfers between the user's own accounts and investments
+ * are not spending. Income is money in categorised as income.
+ */
+
+export type TransactionKind = 'spending' | 'income' | 'all';
+export type TransactionGrouping = 'category' | 'month' | 'merchant' | 'none';
+
+const NON_SPENDING: TransactionCategory[] = ['income', 'transfer', 'investments'];
+
+export interface TransactionGroup {
+  key: string;
+  count: number;
+  total: number;
+}
+
+export interface TransactionSummary {
+  count: number;
+  from: string | null; // Earliest transaction date in the selection
+  to: string | null;
+  currencies: string[];
+  spent: number; // Positive number
+  income: number;
+  net: number; // Money in minus money out, all selected transactions
+  groups: TransactionGroup[];
+  transactions: Array<Pick<Transaction, 'date' | 'description' | 'amount' | 'category'>>;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function isSpending(transaction: Transaction): boolean {
+  return !NON_SPENDING.includes(transaction.category);
+}
+
+/**
+ * Merchant name from a description: reference numbers, card suffixes and
+ * payment-rail prefixes dropped, first three words kept
+ */
+export function merchantOf(description: string): string {
+  const words = description
+    .replace(/^(?:pos|card|debit card|visa|mastercard|upi|ach|dd|so|bp|purchase)\b[\s/:-]*/i, '')
+    .replace(/[*#/\\:]+/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !/\d{3,}/.test(word));
+  return words.slice(0, 3).join(' ').toUpperCase() || 'UNKNOWN';
+}
+
+function groupKey(transaction: Transaction, grouping: TransactionGrouping): string {
+  switch (grouping) {
+    case 'category':
+      return transaction.category;
+    case 'month':
+      return transaction.date.slice(0, 7);
+    case 'merchant':
+      return merchantOf(transaction.description);
+    default:
+      return 'all';
+  }
+}
+
+export function summariseTransactions(
+  transactions: Transaction[],
+  options: { kind?: TransactionKind; groupBy?: TransactionGrouping; limit?: number } = {}
+): TransactionSummary {
+  const { kind = 'all', groupBy = 'none', limit = 10 } = options;
+
+  const selected = transactions.filter(t =>
+    kind === 'spending' ? isSpending(t) : kind === 'income' ? t.category === 'income' : true
+  );
+
+  // Spending groups add up money out as positive numbers
+  const valueOf = (t: Transaction) => (kind === 'spending' ? -t.amount : t.amount);
+
+  const groups = new Map<string, TransactionGroup>();
+  if (groupBy !== 'none') {
+    for (const t of selected) {
+      const key = groupKey(t, groupBy);
+      const group = groups.get(key) || { key, count: 0, total: 0 };
+      group.count++;
+      group.total += valueOf(t);
+      groups.set(key, group);
+    }
+  }
+
+  const largest = selected
+    .slice()
+    .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))
+    .slice(0, limit);
+
+  const spent = selected.filter(isSpending).reduce((sum, t) => sum - t.amount, 0);
+  const income = selected.filter(t => t.category === 'income').reduce((sum, t) => sum + t.amount, 0);
+
+  return {
+    count: selected.length,
+    from: selected[0]?.date || null,
+    to: selected[selected.length - 1]?.date || null,
+    currencies: Array.from(new Set(selected.map(t => t.currency).filter((c): c is string => !!c))),
+    spent: round(spent),
+    income: round(income),
+    net: round(selected.reduce((sum, t) => sum + t.amount, 0)),
+    groups: Array.from(groups.values())
+      .map(group => ({ ...group, total: round(group.total) }))
+      .sort((a, b) => (groupBy === 'month' ? a.key.localeCompare(b.key) : b.total - a.total)),
+    transactions: largest.map(({ date, description, amount, category }) => ({ date, description, amount, category })),
+  };
+}
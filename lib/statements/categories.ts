@@ -0,0 +1,51 @@
+import type { TransactionCategory } from './types';
+
+/**
+ * Rule-based transaction categories from the description (and the
+ * statement's own category column, when it has one). First matching rule
+ * wins, so the more specific rules come first.
+ */
+
+const RULES: Array<{ category: TransactionCategory; pattern: RegExp }> = [
+  { category: 'transfer', pattern: /\b(?:transfer|trf|xfer|neft|rtgs|imps|upi\/p2p|zelle|venmo|own account|savings account|credit card payment|card payment - thank you|payment received)\b/i },
+  { category: 'income', pattern: /\b(?:salary|payroll|wages|pay ?slip|dividend|interest (?:paid|credit|earned)|int\.? cr|pension|bonus|stipend|tax refund)\b/i },
+  { category: 'taxes', pattern: /\b(?:tax|irs|hmrc|gst|vat payment|tds|income tax|council tax)\b/i },
+  { category: 'fees', pattern: /\b(?:fee|charge|charges|overdraft|penalty|late payment|annual fee|service charge|commission|finance charge)\b/i },
+  { category: 'cash', pattern: /\b(?:atm|cash withdrawal|cash wdl|atm wdl|cashpoint|nwd)\b/i },
+  { category: 'investments', pattern: /\b(?:brokerage|mutual fund|sip|vanguard|fidelity|schwab|zerodha|groww|robinhood|etoro|stocks?|shares|crypto|coinbase|binance)\b/i },
+  { category: 'subscriptions', pattern: /\b(?:netflix|spotify|prime video|amazon prime|disney\+?|hulu|hbo|youtube premium|apple\.com\/bill|icloud|google storage|patreon|subscription|membership)\b/i },
+  { category: 'insurance', pattern: /\b(?:insurance|geico|allstate|progressive|aviva|lic)\b/i },
+  { category: 'dining', pattern: /\b(?:restaurant|cafe|café|coffee|starbucks|costa|pret|mcdonald'?s?|burger|kfc|subway|domino'?s|pizza|taco bell|chipotle|nando'?s|wendy'?s|dunkin|uber ?eats|doordash|grubhub|deliveroo|just ?eat|swiggy|zomato|bar & grill|pub|bistro|diner|eatery|bakery|dining|food court)\b/i },
+  { category: 'groceries', pattern: /\b(?:grocery|groceries|supermarket|whole foods|trader joe'?s|kroger|safeway|aldi|lidl|tesco|sainsbury'?s|asda|morrisons|waitrose|walmart grocery|costco|big ?basket|blinkit|zepto|dmart|instacart)\b/i },
+  { category: 'transport', pattern: /\b(?:uber|lyft|ola|taxi|cab|metro|subway fare|transit|tfl|rail|train|bus|parking|toll|fuel|petrol|gas station|shell|chevron|exxon|bp|indian oil|hpcl|bpcl)\b/i },
+  { category: 'travel', pattern: /\b(?:airline|airways|air india|indigo|ryanair|easyjet|delta|united airlines|american airlines|emirates|hotel|marriott|hilton|airbnb|booking\.com|expedia|makemytrip|travel)\b/i },
+  { category: 'utilities', pattern: /\b(?:electric|electricity|water bill|gas bill|utility|utilities|broadband|internet|comcast|verizon|at&t|t-mobile|vodafone|airtel|jio|bsnl|mobile recharge|phone bill)\b/i },
+  { category: 'housing', pattern: /\b(?:rent|mortgage|landlord|property management|hoa|maintenance charges|home loan emi)\b/i },
+  { category: 'health', pattern: /\b(?:pharmacy|chemist|cvs|walgreens|boots|apollo|hospital|clinic|doctor|dental|dentist|medical|health|gym|fitness)\b/i },
+  { category: 'education', pattern: /\b(?:school|tuition|college|university|coursera|udemy|books?|education)\b/i },
+  { category: 'entertainment', pattern: /\b(?:cinema|movie|theatre|theater|concert|ticketmaster|bookmyshow|steam|playstation|xbox|nintendo|game|games)\b/i },
+  { category: 'shopping', pattern: /\b(?:amazon|amzn|flipkart|myntra|ebay|etsy|target|walmart|ikea|best buy|apple store|zara|h&m|primark|shopping|store|mall|retail)\b/i },
+];
+
+const REFUND = /\b(?:refund|reversal|reversed|chargeback|returned purchase|cashback)\b/i;
+
+/**
+ * Category for a transaction. Refunds keep the merchant's category (so they
+ * offset that category's spending); any other money in is income unless it
+ * is a transfer or an investment; money out that matches nothing is other.
+ */
+export function categorise(description: string, amount: number, hint?: string): TransactionCategory {
+  const fromHint = hint ? matchRule(hint) : null;
+  const category = fromHint || matchRule(description);
+
+  if (amount > 0) {
+    if (REFUND.test(description) && category !== 'income') return category || 'other';
+    return category === 'transfer' || category === 'income' || category === 'investments' ? category : 'income';
+  }
+  if (category === 'income') return 'other'; // e.g. a payroll deduction
+  return category || 'other';
+}
+
+function matchRule(text: string): TransactionCategory | null {
+  return RULES.find(rule => rule.pattern.test(text))?.category || null;
+}
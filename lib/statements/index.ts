@@ -0,0 +1,158 @@
+import { createHash } from 'crypto';
+import { logger } from '../logger';
+import { KBError, ErrorCode } from '../kb/error-handler';
+import { getRedactionTypes, redactPII } from '../guards/pii-redactor';
+import { categorise } from './categories';
+import { parseStatement } from './parsers';
+import { SqliteStatementStore } from './sqlite-store';
+import type { Statement, StatementStore, Transaction, TransactionCategory } from './types';
+
+export type {
+  ParsedStatement,
+  ParsedTransaction,
+  Statement,
+  StatementFormat,
+  StatementStore,
+  Transaction,
+  TransactionCategory,
+  TransactionFilter,
+} from './types';
+export { STATEMENT_FILE_TYPES, TRANSACTION_CATEGORIES } from './types';
+
+export interface StatementImportResult {
+  statement: Statement;
+  duplicateOf?: string; // Set when this exact file was already imported
+  inserted: number;
+  duplicates: number; // Transactions already stored from an overlapping statement
+  categories: Partial<Record<TransactionCategory, number>>;
+  warnings: string[];
+}
+
+let store: StatementStore | null = null;
+
+export function getStatementStore(): StatementStore {
+  if (!store) {
+    store = new SqliteStatementStore();
+  }
+  return store;
+}
+
+function hash(value: string | Buffer): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 32);
+}
+
+/**
+ * Parse a statement file, categorise its transactions and store them for the session
+ */
+export async function importStatement(
+  buffer: Buffer,
+  filename: string,
+  fileType: string,
+  sessionId: string
+): Promise<StatementImportResult> {
+  const startTime = Date.now();
+  const statementStore = getStatementStore();
+  const statementId = hash(`${sessionId}:${hash(buffer)}`);
+
+  const existing = await statementStore.get(sessionId, statementId);
+  if (existing) {
+    logger.info('STATEMENT_IMPORT_DUPLICATE', `${filename} was already imported`, {
+      statementId,
+      filename: existing.filename
+    });
+    return { statement: existing, duplicateOf: existing.filename, inserted: 0, duplicates: 0, categories: {}, warnings: [] };
+  }
+
+  logger.info('STATEMENT_IMPORT_START', `Importing statement: ${filename}`, { filename, fileType });
+
+  let parsed;
+  try {
+    parsed = await parseStatement(buffer, fileType);
+  } catch (error) {
+    throw new KBError('Statement parsing failed', ErrorCode.EXTRACTION_FAILED, {
+      filename,
+      error: error instanceof Error ? error.message : String(error)
+    }, false);
+  }
+
+  if (parsed.transactions.length === 0) {
+    throw new KBError('No transactions found', ErrorCode.NO_TRANSACTIONS_FOUND, {
+      filename,
+      warnings: parsed.warnings
+    }, false);
+  }
+
+  // Overlapping statements of one account share transactions; without an account
+  // there is no telling two accounts apart, so the statement is its own scope
+  const scope = parsed.account ? `account|${parsed.account}` : `statement|${statementId}`;
+
+  // Descriptions can carry card numbers, phone numbers (UPI ids) and the like
+  const redactionTypes = getRedactionTypes();
+  const seen = new Map<string, number>();
+  const categories: Partial<Record<TransactionCategory, number>> = {};
+
+  const transactions: Transaction[] = parsed.transactions.map(parsedTransaction => {
+    const description = redactPII(parsedTransaction.description, redactionTypes).text;
+    const amount = Math.round(parsedTransaction.amount * 100) / 100;
+    const category = categorise(description, amount, parsedTransaction.categoryHint);
+    categories[category] = (categories[category] || 0) + 1;
+
+    // Identical lines on one day (two coffees) are told apart by occurrence
+    const key = parsedTransaction.reference
+      ? `ref|${parsedTransaction.reference}`
+      : `${parsedTransaction.date}|${amount}|${description}`;
+    const occurrence = (seen.get(key) || 0) + 1;
+    seen.set(key, occurrence);
+
+    return {
+      id: hash(`${sessionId}|${scope}|${key}|${occurrence}`),
+      statementId,
+      date: parsedTransaction.date,
+      description,
+      amount,
+      currency: parsed.currency || null,
+      category,
+      balance: parsedTransaction.balance ?? null,
+    };
+  });
+
+  const dates = transactions.map(t => t.date).sort();
+  const statement: Statement = {
+    id: statementId,
+    sessionId,
+    filename,
+    format: parsed.format,
+    currency: parsed.currency || null,
+    account: parsed.account || null,
+    importedAt: new Date().toISOString(),
+    dateFrom: dates[0],
+    dateTo: dates[dates.length - 1],
+    transactionCount: transactions.length,
+  };
+
+  const { inserted, duplicates } = await statementStore.save(statement, transactions);
+  const warnings = [...parsed.warnings];
+  if (duplicates > 0) {
+    warnings.push(`${duplicates} transaction(s) were already imported from another statement and were not added again`);
+  }
+
+  logger.info('STATEMENT_IMPORT_COMPLETE', `Imported ${inserted} transaction(s) from ${filename}`, {
+    statementId,
+    format: parsed.format,
+    inserted,
+    duplicates,
+    dateFrom: statement.dateFrom,
+    dateTo: statement.dateTo,
+    categories,
+    warnings: warnings.length,
+    duration: Date.now() - startTime
+  });
+
+  return {
+    statement: { ...statement, transactionCount: inserted },
+    inserted,
+    duplicates,
+    categories,
+    warnings,
+  };
+}
@@ -0,0 +1,502 @@
+import { extractText } from '../kb/text-extractor';
+import { parseSpreadsheet } from '../kb/spreadsheet';
+import type { ParsedStatement, ParsedTransaction } from './types';
+
+/**
+ * Statement parsers. Each format ends up as ParsedTransaction records with a
+ * YYYY-MM-DD date and a signed amount (negative = money out):
+ *
+ * - CSV / TSV / XLSX: the header row is found by its column names (date,
+ *   description, amount or debit/credit, balance...), skipping preamble rows
+ * - OFX / QFX: <STMTTRN> records (SGML or XML flavour)
+ * - PDF: pipe tables from the extractor when they carry a header, otherwise
+ *   lines that start with a date and end with amounts; signs come from the
+ *   running balance when there is one
+ */
+
+type DateOrder = 'dmy' | 'mdy';
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '£': 'GBP', '€': 'EUR', '₹': 'INR', '¥': 'JPY' };
+const CURRENCY_CODES = /\b(USD|GBP|EUR|INR|CAD|AUD|NZD|SGD|AED|JPY|CHF|HKD|ZAR)\b/;
+
+const BALANCE_LINE = /\b(?:opening|closing|brought|carried|b\/f|c\/f)\b.*\bbalance\b|\bbalance\s+(?:brought|carried)\s+forward\b|^\s*(?:opening|closing)\s+balance/i;
+
+/**
+ * Signed amount from a cell: "1,234.56", "-12.50", "(12.50)", "12.50 DR",
+ * "£12.50 CR", "1.234,56"; null when the cell holds no number
+ */
+export function parseAmount(value: string): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (/\bDR\.?$/i.test(text) || /-$/.test(text)) sign = -1;
+  if (/^-|^[^\d]*-\s*\d/.test(text)) sign = -1;
+
+  text = text.replace(/\b(?:CR|DR)\.?$/i, '').replace(/[^\d.,]/g, '');
+  if (!/\d/.test(text)) return null;
+
+  // Decimal comma: "1.234,56" or "12,50"
+  if (/^\d{1,3}(?:\.\d{3})*,\d{1,2}$/.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(text);
+  return isNaN(amount) ? null : sign * amount;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// "Mar", "March", "Sept" → 3, 3, 9; 0 for anything else
+function monthNumber(word: string): number {
+  const name = word.toLowerCase();
+  if (name.length < 3) return 0;
+  return MONTH_NAMES.findIndex(month => month.startsWith(name)) + 1;
+}
+
+const ISO_DATE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/;
+const NUMERIC_DATE = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/;
+const DAY_MONTH_DATE = /^(\d{1,2})(?:st|nd|rd|th)?[\s-]*([A-Za-z]{3,9})\.?(?:[\s,-]+(\d{4}|\d{2}))?\b/;
+const MONTH_DAY_DATE = /^([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?\b/;
+
+/**
+ * Parse a date at the start of `value`. Returns the ISO date and how many
+ * characters it took, or null. Day/month order for numeric dates comes from
+ * `order`; dates without a year get `defaultYear`.
+ */
+export function parseDate(
+  value: string,
+  order: DateOrder,
+  defaultYear?: number
+): { date: string; length: number } | null {
+  const text = value.trim();
+  const offset = value.length - value.trimStart().length;
+  let match: RegExpMatchArray | null;
+  let date: string | null = null;
+
+  if ((match = text.match(ISO_DATE))) {
+    date = toIsoDate(+match[1], +match[2], +match[3]);
+  } else if ((match = text.match(/^(\d{4})(\d{2})(\d{2})(?!\d)/))) {
+    date = toIsoDate(+match[1], +match[2], +match[3]);
+  } else if ((match = text.match(NUMERIC_DATE))) {
+    const [first, second] = [+match[1], +match[2]];
+    date = order === 'dmy' ? toIsoDate(+match[3], second, first) : toIsoDate(+match[3], first, second);
+  } else if ((match = text.match(DAY_MONTH_DATE)) && monthNumber(match[2])) {
+    const year = match[3] ? +match[3] : defaultYear;
+    date = year ? toIsoDate(year, monthNumber(match[2]), +match[1]) : null;
+  } else if ((match = text.match(MONTH_DAY_DATE)) && monthNumber(match[1])) {
+    const year = match[3] ? +match[3] : defaultYear;
+    date = year ? toIsoDate(year, monthNumber(match[1]), +match[2]) : null;
+  }
+
+  return date && match ? { date, length: offset + match[0].length } : null;
+}
+
+/**
+ * Day-first unless a numeric date only makes sense month-first (e.g. 03/25/2024)
+ */
+function detectDateOrder(values: string[]): DateOrder {
+  let dmy = 0;
+  let mdy = 0;
+  for (const value of values) {
+    const match = value.trim().match(NUMERIC_DATE);
+    if (!match) continue;
+    if (+match[1] > 12) dmy++;
+    if (+match[2] > 12) mdy++;
+  }
+  return mdy > dmy ? 'mdy' : 'dmy';
+}
+
+function detectCurrency(text: string): string | undefined {
+  const code = text.match(CURRENCY_CODES)?.[1];
+  if (code) return code;
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(s => text.includes(s));
+  return symbol ? CURRENCY_SYMBOLS[symbol] : undefined;
+}
+
+function maskAccount(account: string | undefined): string | undefined {
+  const value = account?.replace(/\s/g, '');
+  return value ? `****${value.slice(-4)}` : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Tabular statements (CSV / TSV / XLSX and PDF tables)
+
+interface ColumnMap {
+  date: number;
+  description: number[];
+  amount?: number;
+  debit?: number;
+  credit?: number;
+  balance?: number;
+  type?: number;
+  category?: number;
+  reference?: number;
+  currency?: number;
+}
+
+const COLUMN_PATTERNS: Array<[keyof ColumnMap, RegExp]> = [
+  ['type', /^(?:type|dr\s*\/\s*cr|cr\s*\/\s*dr|debit\s*\/\s*credit|credit\s*\/\s*debit|transaction type|txn type)$/],
+  ['balance', /balance/],
+  ['debit', /debit|withdrawal|money out|paid out|outflow|^dr$|spent/],
+  ['credit', /credit|deposit|money in|paid in|inflow|^cr$|received/],
+  ['amount', /^(?:transaction\s+|txn\s+)?(?:amount|amt|value)\b/],
+  ['category', /category/],
+  ['currency', /^(?:currency|ccy)$/],
+  ['reference', /^(?:ref(?:erence)?(?:\s*(?:no|number|#))?\.?|cheque\s*(?:no)?\.?|chq\.?\s*(?:\/\s*ref)?\.?\s*(?:no)?\.?|transaction id|txn id)$/],
+];
+
+const DATE_HEADER = /\bdate\b/;
+const PREFERRED_DATE_HEADER = /trans|txn|post|booking/;
+const DESCRIPTION_HEADER = /description|narration|details|particulars|payee|merchant|memo|name|remarks|transaction$/;
+
+/**
+ * Column roles from a header row; null unless it has a date column and
+ * either an amount column or debit/credit columns
+ */
+function mapColumns(header: string[]): ColumnMap | null {
+  const names = header.map(cell => cell.toLowerCase().replace(/\s+/g, ' ').trim());
+  const dateColumns = names.map((name, i) => (DATE_HEADER.test(name) ? i : -1)).filter(i => i >= 0);
+  if (dateColumns.length === 0) return null;
+
+  const date = dateColumns.find(i => PREFERRED_DATE_HEADER.test(names[i])) ?? dateColumns[0];
+  const map: ColumnMap = { date, description: [] };
+  const used = new Set(dateColumns);
+
+  for (const [role, pattern] of COLUMN_PATTERNS) {
+    const index = names.findIndex((name, i) => !used.has(i) && pattern.test(name));
+    if (index < 0) continue;
+    (map as unknown as Record<string, number>)[role] = index;
+    used.add(index);
+  }
+
+  if (map.amount === undefined && map.debit === undefined && map.credit === undefined) return null;
+
+  map.description = names
+    .map((name, i) => (!used.has(i) && DESCRIPTION_HEADER.test(name) ? i : -1))
+    .filter(i => i >= 0);
+  if (map.description.length === 0) {
+    const fallback = names.findIndex((name, i) => !used.has(i) && name);
+    if (fallback >= 0) map.description = [fallback];
+  }
+
+  return map;
+}
+
+const DEBIT_TYPE = /^(?:dr|d|debit|withdrawal|payment|purchase|pos|atm|fee|charge)\b/i;
+const CREDIT_TYPE = /^(?:cr|c|credit|deposit|refund|interest)\b/i;
+
+// "-12.50", "+12.50", "(12.50)", "12.50-", "12.50 DR", "£12.50 CR"
+const SIGNED_AMOUNT = /^[^\d]*[-+(]|[-)]\s*$|\b(?:CR|DR)\.?\s*$/i;
+
+/**
+ * Transactions from a table: the header is the first of its first rows that
+ * maps to statement columns. Null when no such row exists.
+ */
+function tableToTransactions(rows: string[][], warnings: string[], defaultYear?: number): ParsedTransaction[] | null {
+  const headerIndex = rows.slice(0, 25).findIndex(row => mapColumns(row) !== null);
+  if (headerIndex < 0) return null;
+
+  const columns = mapColumns(rows[headerIndex])!;
+  const body = rows.slice(headerIndex + 1);
+  const order = detectDateOrder(body.map(row => row[columns.date] || ''));
+  const cell = (row: string[], index?: number) => (index === undefined ? '' : (row[index] || '').trim());
+  // A Type column only signs amounts when the amount column carries no signs of its
+  // own: in card exports (Type=Payment, Amount=500.00) purchases are already negative
+  const signedAmounts = columns.amount !== undefined && body.some(row => SIGNED_AMOUNT.test(cell(row, columns.amount)));
+
+  const transactions: ParsedTransaction[] = [];
+  let skipped = 0;
+
+  for (const row of body) {
+    if (!row.some(value => value.trim())) continue;
+    const description = columns.description.map(i => cell(row, i)).filter(Boolean).join(' ').replace(/\s+/g, ' ');
+    if (BALANCE_LINE.test(description)) continue;
+
+    const date = parseDate(cell(row, columns.date), order, defaultYear)?.date;
+    let amount: number | null = null;
+
+    if (columns.amount !== undefined) {
+      amount = parseAmount(cell(row, columns.amount));
+      const type = cell(row, columns.type);
+      if (amount !== null && type && !signedAmounts) {
+        if (DEBIT_TYPE.test(type)) amount = -Math.abs(amount);
+        else if (CREDIT_TYPE.test(type)) amount = Math.abs(amount);
+      }
+    }
+    if (amount === null || amount === 0) {
+      const debit = parseAmount(cell(row, columns.debit));
+      const credit = parseAmount(cell(row, columns.credit));
+      if (debit) amount = -Math.abs(debit);
+      else if (credit) amount = Math.abs(credit);
+    }
+
+    if (!date || amount === null) {
+      skipped++;
+      continue;
+    }
+
+    const balance = parseAmount(cell(row, columns.balance));
+    transactions.push({
+      date,
+      description: description || '(no description)',
+      amount,
+      ...(balance !== null ? { balance } : {}),
+      ...(cell(row, columns.reference) ? { reference: cell(row, columns.reference) } : {}),
+      ...(cell(row, columns.category) ? { categoryHint: cell(row, columns.category) } : {}),
+    });
+  }
+
+  if (skipped > 0) {
+    warnings.push(`${skipped} row(s) without a readable date or amount were skipped`);
+  }
+  return transactions;
+}
+
+async function parseSpreadsheetStatement(buffer: Buffer, fileType: string): Promise<ParsedStatement> {
+  const sheets = await parseSpreadsheet(buffer, fileType);
+  const warnings: string[] = [];
+  const transactions: ParsedTransaction[] = [];
+  let currency: string | undefined;
+
+  for (const sheet of sheets) {
+    const rows = [sheet.header, ...sheet.rows];
+    const parsed = tableToTransactions(rows, warnings);
+    if (!parsed) continue;
+    transactions.push(...parsed);
+
+    const currencyColumn = sheet.header.findIndex(cell => /^(?:currency|ccy)$/i.test(cell.trim()));
+    currency = currency
+      || (currencyColumn >= 0 ? sheet.rows.find(row => row[currencyColumn])?.[currencyColumn]?.toUpperCase() : undefined)
+      || detectCurrency(rows.slice(0, 50).map(row => row.join(' ')).join('\n'));
+  }
+
+  if (sheets.length > 0 && transactions.length === 0) {
+    warnings.push('No header row with a date and an amount (or debit/credit) column was found');
+  }
+
+  return { format: 'csv', currency, transactions, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// OFX / QFX
+
+function decodeOfx(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+// SGML OFX leaves elements unclosed, so a value runs to the next tag or line break
+function ofxField(block: string, tag: string): string | undefined {
+  const value = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1];
+  return value !== undefined && value.trim() ? decodeOfx(value) : undefined;
+}
+
+export function parseOfx(text: string): ParsedStatement {
+  const warnings: string[] = [];
+  if (!/<OFX>/i.test(text)) {
+    return { format: 'ofx', transactions: [], warnings: ['Not an OFX/QFX file (no <OFX> element)'] };
+  }
+
+  const transactions: ParsedTransaction[] = [];
+  let skipped = 0;
+
+  for (const block of text.split(/<STMTTRN>/i).slice(1).map(part => part.split(/<\/STMTTRN>/i)[0])) {
+    const posted = ofxField(block, 'DTPOSTED');
+    const date = posted ? parseDate(posted.slice(0, 8), 'dmy')?.date : undefined;
+    const amount = parseFloat((ofxField(block, 'TRNAMT') || '').replace(',', '.'));
+
+    if (!date || isNaN(amount)) {
+      skipped++;
+      continue;
+    }
+
+    const name = ofxField(block, 'NAME') || ofxField(block, 'PAYEE') || '';
+    const memo = ofxField(block, 'MEMO') || '';
+    const description = memo && !name.toLowerCase().includes(memo.toLowerCase())
+      ? `${name} ${memo}`.trim()
+      : name || memo || ofxField(block, 'TRNTYPE') || '(no description)';
+
+    const reference = ofxField(block, 'FITID');
+    transactions.push({ date, description, amount, ...(reference ? { reference } : {}) });
+  }
+
+  if (skipped > 0) {
+    warnings.push(`${skipped} transaction(s) without a posted date or amount were skipped`);
+  }
+
+  return {
+    format: 'ofx',
+    currency: ofxField(text, 'CURDEF')?.toUpperCase(),
+    account: maskAccount(ofxField(text, 'ACCTID')),
+    transactions,
+    warnings,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+
+const AMOUNT_TOKEN = /^\(?[-+]?[£$€₹]?\s?\d{1,3}(?:[,\s]?\d{3})*[.,]\d{2}\)?(?:\s?(?:CR|DR|Cr|Dr)\.?)?-?$/;
+const CREDIT_HINT = /\b(?:CR|credit|deposit|salary|payroll|refund|interest|received|from|reversal|cashback)\b/i;
+
+/**
+ * Trailing amount tokens of a line ("... 12.50 1,034.20" → two amounts)
+ */
+function trailingAmounts(line: string): { amounts: string[]; rest: string } {
+  const tokens = line.split(/\s+/);
+  const amounts: string[] = [];
+
+  while (tokens.length > 0 && amounts.length < 3) {
+    let token = tokens[tokens.length - 1];
+    let take = 1;
+    if (/^(?:CR|DR)\.?$/i.test(token) && tokens.length > 1) {
+      token = `${tokens[tokens.length - 2]} ${token}`; // "12.50 CR"
+      take = 2;
+    }
+    if (!AMOUNT_TOKEN.test(token)) break;
+
+    tokens.splice(tokens.length - take, take);
+    if (/^[£$€₹]$/.test(tokens[tokens.length - 1] || '')) tokens.pop(); // "£ 12.50"
+    amounts.unshift(token);
+  }
+
+  return { amounts, rest: tokens.join(' ') };
+}
+
+/**
+ * Line-oriented statements: "DATE [VALUE DATE] DESCRIPTION AMOUNT(S) [BALANCE]".
+ * Lines that carry no date and no amount continue the previous description.
+ */
+function linesToTransactions(lines: string[], warnings: string[], defaultYear?: number): ParsedTransaction[] {
+  const order = detectDateOrder(lines);
+  const transactions: ParsedTransaction[] = [];
+  let previousBalance: number | null = null;
+  let unsigned = 0;
+  let last: ParsedTransaction | null = null;
+
+  for (const line of lines) {
+    const { amounts, rest } = trailingAmounts(line);
+    const dated = parseDate(rest, order, defaultYear);
+
+    if (BALANCE_LINE.test(line)) {
+      if (amounts.length > 0) previousBalance = parseAmount(amounts[amounts.length - 1]);
+      last = null;
+      continue;
+    }
+
+    if (!dated || amounts.length === 0) {
+      // Wrapped description
+      if (last && !dated && amounts.length === 0 && line.length <= 60 && !/\bpage\b|\btotal\b|\bbalance\b/i.test(line)) {
+        last.description = `${last.description} ${line}`.trim();
+      }
+      if (dated || amounts.length > 0) last = null;
+      continue;
+    }
+
+    let description = rest.slice(dated.length).trim();
+    const valueDate = parseDate(description, order, defaultYear);
+    if (valueDate) description = description.slice(valueDate.length).trim();
+
+    const values = amounts.map(parseAmount);
+    const balance = values.length >= 2 ? values[values.length - 1] : null;
+    const nonZero = values.slice(0, balance !== null ? -1 : undefined).filter((v): v is number => v !== null && v !== 0);
+    if (nonZero.length === 0) continue;
+
+    const raw = nonZero[nonZero.length - 1];
+    const magnitude = Math.abs(raw);
+    const token = amounts[values.indexOf(raw)] || '';
+    let amount: number;
+
+    if (balance !== null && previousBalance !== null && Math.abs(Math.abs(balance - previousBalance) - magnitude) < 0.005) {
+      amount = balance >= previousBalance ? magnitude : -magnitude;
+    } else if (raw < 0 || /DR\.?$/i.test(token)) {
+      amount = -magnitude;
+    } else if (/CR\.?$/i.test(token)) {
+      amount = magnitude;
+    } else {
+      amount = CREDIT_HINT.test(description) ? magnitude : -magnitude;
+      unsigned++;
+    }
+
+    if (balance !== null) previousBalance = balance;
+
+    last = {
+      date: dated.date,
+      description: description.replace(/\s+/g, ' ') || '(no description)',
+      amount,
+      ...(balance !== null ? { balance } : {}),
+    };
+    transactions.push(last);
+  }
+
+  if (unsigned > 0) {
+    warnings.push(`${unsigned} transaction(s) had no running balance or CR/DR marker; their sign was inferred from the description`);
+  }
+  return transactions;
+}
+
+function pipeCells(line: string): string[] {
+  return line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+}
+
+export function parsePdfStatementText(text: string): ParsedStatement {
+  const warnings: string[] = [];
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const defaultYear = (() => {
+    const year = text.match(/\b(?:19|20)\d{2}\b/)?.[0];
+    return year ? parseInt(year, 10) : undefined;
+  })();
+
+  // Extracted tables, when a header row names the columns
+  const tableRows = lines
+    .filter(line => line.startsWith('|') && !/^\|\s*-{3}/.test(line))
+    .map(pipeCells);
+  const fromTables = tableRows.length > 0 ? tableToTransactions(tableRows, warnings, defaultYear) : null;
+
+  const transactions = fromTables && fromTables.length > 0
+    ? fromTables
+    : linesToTransactions(lines.map(line => (line.startsWith('|') ? pipeCells(line).join(' ') : line)), warnings, defaultYear);
+
+  return {
+    format: 'pdf',
+    currency: detectCurrency(text.slice(0, 3000)),
+    account: maskAccount(text.match(/\b(?:account|a\/c)\s*(?:no\.?|number|#)?\s*[:.]?\s*([X*\d][X*\d -]{3,})/i)?.[1]),
+    transactions,
+    warnings,
+  };
+}
+
+export async function parseStatement(buffer: Buffer, fileType: string): Promise<ParsedStatement> {
+  switch (fileType) {
+    case 'csv':
+    case 'tsv':
+    case 'xlsx':
+      return parseSpreadsheetStatement(buffer, fileType);
+    case 'ofx':
+    case 'qfx':
+      return parseOfx(buffer.toString('utf-8'));
+    case 'pdf':
+      return parsePdfStatementText(await extractText(buffer, 'pdf'));
+    default:
+      throw new Error(`Unsupported statement type: ${fileType}`);
+  }
+}
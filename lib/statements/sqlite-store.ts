@@ -0,0 +1,254 @@
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { logger } from '../logger';
+import type {
+  Statement,
+  StatementFormat,
+  StatementStore,
+  Transaction,
+  TransactionCategory,
+  TransactionFilter,
+} from './types';
+
+interface StatementRow {
+  id: string;
+  session_id: string;
+  filename: string;
+  format: StatementFormat;
+  currency: string | null;
+  account: string | null;
+  imported_at: string;
+  date_from: string | null;
+  date_to: string | null;
+  transaction_count: number;
+}
+
+interface TransactionRow {
+  id: string;
+  statement_id: string;
+  date: string;
+  description: string;
+  amount: number;
+  currency: string | null;
+  category: TransactionCategory;
+  balance: number | null;
+}
+
+export function getStatementDbPath(): string {
+  return process.env.STATEMENT_DB_PATH || join(process.cwd(), '.data', 'statements.db');
+}
+
+function toStatement(row: StatementRow): Statement {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    filename: row.filename,
+    format: row.format,
+    currency: row.currency,
+    account: row.account,
+    importedAt: row.imported_at,
+    dateFrom: row.date_from,
+    dateTo: row.date_to,
+    transactionCount: row.transaction_count,
+  };
+}
+
+function toTransaction(row: TransactionRow): Transaction {
+  return {
+    id: row.id,
+    statementId: row.statement_id,
+    date: row.date,
+    description: row.description,
+    amount: row.amount,
+    currency: row.currency,
+    category: row.category,
+    balance: row.balance,
+  };
+}
+
+const STATEMENT_COLUMNS = `
+  s.id, s.session_id, s.filename, s.format, s.currency, s.account, s.imported_at, s.date_from, s.date_to,
+  (SELECT COUNT(*) FROM transactions t WHERE t.statement_id = s.id) AS transaction_count
+`;
+
+/**
+ * Statements and their transactions in a single SQLite file (WAL mode).
+ * Transaction ids are derived from their content, so a transaction that
+ * appears in two overlapping statements is stored once, owned by the first
+ * statement that stored it. statement_transactions links every statement to
+ * all the transactions it covers; deleting a statement hands its shared
+ * transactions to another statement that covers them, and only deletes the
+ * ones no other statement covers.
+ */
+export class SqliteStatementStore implements StatementStore {
+  private db: Database.Database | null = null;
+
+  constructor(private readonly dbPath: string = getStatementDbPath()) {}
+
+  private open(): Database.Database {
+    if (this.db) return this.db;
+
+    const dir = dirname(this.dbPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const db = new Database(this.dbPath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS statements (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        filename TEXT NOT NULL,
+        format TEXT NOT NULL,
+        currency TEXT,
+        account TEXT,
+        imported_at TEXT NOT NULL,
+        date_from TEXT,
+        date_to TEXT
+      );
+      CREATE INDEX IF NOT EXISTS statements_session ON statements (session_id, imported_at);
+      CREATE TABLE IF NOT EXISTS transactions (
+        id TEXT PRIMARY KEY,
+        statement_id TEXT NOT NULL REFERENCES statements (id) ON DELETE CASCADE,
+        session_id TEXT NOT NULL,
+        date TEXT NOT NULL,
+        description TEXT NOT NULL,
+        amount REAL NOT NULL,
+        currency TEXT,
+        category TEXT NOT NULL,
+        balance REAL
+      );
+      CREATE INDEX IF NOT EXISTS transactions_session_date ON transactions (session_id, date);
+      CREATE INDEX IF NOT EXISTS transactions_statement ON transactions (statement_id);
+      CREATE TABLE IF NOT EXISTS statement_transactions (
+        statement_id TEXT NOT NULL REFERENCES statements (id) ON DELETE CASCADE,
+        transaction_id TEXT NOT NULL REFERENCES transactions (id) ON DELETE CASCADE,
+        PRIMARY KEY (statement_id, transaction_id)
+      );
+      CREATE INDEX IF NOT EXISTS statement_transactions_transaction ON statement_transactions (transaction_id);
+    `);
+    // Databases created before the link table: every transaction is covered by its owner
+    db.exec(`
+      INSERT OR IGNORE INTO statement_transactions (statement_id, transaction_id)
+      SELECT statement_id, id FROM transactions
+    `);
+
+    logger.info('STATEMENT_STORE_OPENED', 'Opened SQLite statement store', {
+      dbPath: this.dbPath
+    });
+
+    this.db = db;
+    return db;
+  }
+
+  async save(statement: Statement, transactions: Transaction[]): Promise<{ inserted: number; duplicates: number }> {
+    const db = this.open();
+    const insert = db.prepare(`
+      INSERT OR IGNORE INTO transactions (id, statement_id, session_id, date, description, amount, currency, category, balance)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const link = db.prepare('INSERT OR IGNORE INTO statement_transactions (statement_id, transaction_id) VALUES (?, ?)');
+
+    return db.transaction(() => {
+      db.prepare(`
+        INSERT INTO statements (id, session_id, filename, format, currency, account, imported_at, date_from, date_to)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        statement.id,
+        statement.sessionId,
+        statement.filename,
+        statement.format,
+        statement.currency,
+        statement.account,
+        statement.importedAt,
+        statement.dateFrom,
+        statement.dateTo
+      );
+
+      let inserted = 0;
+      for (const t of transactions) {
+        inserted += insert.run(
+          t.id, statement.id, statement.sessionId, t.date, t.description, t.amount, t.currency, t.category, t.balance
+        ).changes;
+        link.run(statement.id, t.id);
+      }
+      return { inserted, duplicates: transactions.length - inserted };
+    })();
+  }
+
+  async list(sessionId: string): Promise<Statement[]> {
+    const rows = this.open()
+      .prepare(`SELECT ${STATEMENT_COLUMNS} FROM statements s WHERE s.session_id = ? ORDER BY s.imported_at DESC`)
+      .all(sessionId) as StatementRow[];
+    return rows.map(toStatement);
+  }
+
+  async get(sessionId: string, id: string): Promise<Statement | null> {
+    const row = this.open()
+      .prepare(`SELECT ${STATEMENT_COLUMNS} FROM statements s WHERE s.id = ? AND s.session_id = ?`)
+      .get(id, sessionId) as StatementRow | undefined;
+    return row ? toStatement(row) : null;
+  }
+
+  async delete(sessionId: string, id: string): Promise<boolean> {
+    const db = this.open();
+    return db.transaction(() => {
+      if (!db.prepare('SELECT 1 FROM statements WHERE id = ? AND session_id = ?').get(id, sessionId)) {
+        return false;
+      }
+
+      // Hand shared transactions to the earliest other statement covering them, so the cascade spares them
+      db.prepare(`
+        UPDATE transactions SET statement_id = (
+          SELECT st.statement_id FROM statement_transactions st
+          WHERE st.transaction_id = transactions.id AND st.statement_id != ?
+          ORDER BY st.rowid LIMIT 1
+        )
+        WHERE statement_id = ? AND EXISTS (
+          SELECT 1 FROM statement_transactions st
+          WHERE st.transaction_id = transactions.id AND st.statement_id != ?
+        )
+      `).run(id, id, id);
+
+      db.prepare('DELETE FROM statements WHERE id = ?').run(id);
+      return true;
+    })();
+  }
+
+  async query(sessionId: string, filter: TransactionFilter = {}): Promise<Transaction[]> {
+    const clauses = ['session_id = ?'];
+    const params: Array<string | number> = [sessionId];
+
+    if (filter.statementId) {
+      clauses.push('statement_id = ?');
+      params.push(filter.statementId);
+    }
+    if (filter.from) {
+      clauses.push('date >= ?');
+      params.push(filter.from);
+    }
+    if (filter.to) {
+      clauses.push('date <= ?');
+      params.push(filter.to);
+    }
+    if (filter.category) {
+      clauses.push('category = ?');
+      params.push(filter.category);
+    }
+    if (filter.search) {
+      clauses.push("description LIKE ? ESCAPE '\\'");
+      params.push(`%${filter.search.replace(/[\\%_]/g, match => `\\${match}`)}%`);
+    }
+
+    const rows = this.open()
+      .prepare(`
+        SELECT id, statement_id, date, description, amount, currency, category, balance
+        FROM transactions WHERE ${clauses.join(' AND ')} ORDER BY date, rowid
+      `)
+      .all(...params) as TransactionRow[];
+    return rows.map(toTransaction);
+  }
+}
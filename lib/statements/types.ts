@@ -0,0 +1,102 @@
+/**
+ * Bank statement import: transactions parsed from CSV / XLSX, OFX / QFX and
+ * PDF statements, stored per session. Amounts are signed - negative for
+ * money out (debits), positive for money in (credits).
+ */
+
+export type StatementFormat = 'csv' | 'ofx' | 'pdf';
+
+export const STATEMENT_FILE_TYPES = ['csv', 'tsv', 'xlsx', 'ofx', 'qfx', 'pdf'];
+
+export type TransactionCategory =
+  | 'income'
+  | 'transfer'
+  | 'dining'
+  | 'groceries'
+  | 'shopping'
+  | 'transport'
+  | 'travel'
+  | 'utilities'
+  | 'housing'
+  | 'entertainment'
+  | 'subscriptions'
+  | 'health'
+  | 'insurance'
+  | 'education'
+  | 'fees'
+  | 'cash'
+  | 'investments'
+  | 'taxes'
+  | 'other';
+
+export const TRANSACTION_CATEGORIES: TransactionCategory[] = [
+  'income', 'transfer', 'dining', 'groceries', 'shopping', 'transport', 'travel', 'utilities',
+  'housing', 'entertainment', 'subscriptions', 'health', 'insurance', 'education', 'fees',
+  'cash', 'investments', 'taxes', 'other',
+];
+
+/** A transaction as read from the file, before it is stored */
+export interface ParsedTransaction {
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number;
+  balance?: number;
+  reference?: string; // Bank-assigned id (OFX FITID), used for de-duplication
+  categoryHint?: string; // The statement's own category column, if any
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  currency?: string;
+  account?: string; // Masked: last 4 characters only
+  transactions: ParsedTransaction[];
+  warnings: string[];
+}
+
+export interface Transaction {
+  id: string;
+  statementId: string;
+  date: string;
+  description: string;
+  amount: number;
+  currency: string | null;
+  category: TransactionCategory;
+  balance: number | null;
+}
+
+export interface Statement {
+  id: string;
+  sessionId: string;
+  filename: string;
+  format: StatementFormat;
+  currency: string | null;
+  account: string | null;
+  importedAt: string;
+  dateFrom: string | null;
+  dateTo: string | null;
+  transactionCount: number;
+}
+
+export interface TransactionFilter {
+  statementId?: string;
+  from?: string; // Inclusive, YYYY-MM-DD
+  to?: string; // Inclusive, YYYY-MM-DD
+  category?: TransactionCategory;
+  search?: string; // Case-insensitive substring of the description
+}
+
+export interface StatementStore {
+  /** Store a statement and its transactions; returns how many were new (not already stored for the session) */
+  save(statement: Statement, transactions: Transaction[]): Promise<{ inserted: number; duplicates: number }>;
+
+  /** Statements of a session, most recently imported first */
+  list(sessionId: string): Promise<Statement[]>;
+
+  get(sessionId: string, id: string): Promise<Statement | null>;
+
+  /** Delete a statement and the transactions no other statement covers */
+  delete(sessionId: string, id: string): Promise<boolean>;
+
+  /** Transactions of a session matching the filter, oldest first */
+  query(sessionId: string, filter?: TransactionFilter): Promise<Transaction[]>;
+}
@@ -0,0 +1,153 @@
+import type { ChunkingSettings } from './kb/chunking/types';
+
+/**
+ * Client helpers for background uploads: start an ingestion job, poll its
+ * progress and cancel it. Mirrors the job shape returned by /api/upload/[jobId].
+ */
+
+export type UploadJobStatus =
+  | 'queued'
+  | 'extracting'
+  | 'chunking'
+  | 'validating'
+  | 'embedding'
+  | 'storing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export interface UploadJob {
+  id: string;
+  filename: string;
+  status: UploadJobStatus;
+  percent: number;
+  message?: string;
+  result?: {
+    filename: string;
+    documentId?: string;
+    version?: number;
+    duplicateOf?: string;
+    chunks: number;
+    validChunks: number;
+    totalChunks: number;
+    avgValidation: number;
+    warnings?: string[];
+  };
+  error?: string;
+}
+
+export const STATUS_LABELS: Record<UploadJobStatus, string> = {
+  queued: 'Queued',
+  extracting: 'Extracting text',
+  chunking: 'Chunking',
+  validating: 'Validating',
+  embedding: 'Embedding',
+  storing: 'Storing',
+  completed: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const POLL_INTERVAL_MS = 1000;
+
+export function isJobFinished(job: UploadJob): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * Upload fields for the chunking settings (unset ones are left to the server defaults)
+ */
+function chunkingFields(chunking: ChunkingSettings = {}): Record<string, string> {
+  return {
+    ...(chunking.strategy ? { chunkingStrategy: chunking.strategy } : {}),
+    ...(chunking.maxTokens !== undefined ? { chunkMaxTokens: String(chunking.maxTokens) } : {}),
+    ...(chunking.overlap !== undefined ? { chunkOverlap: String(chunking.overlap) } : {}),
+  };
+}
+
+/**
+ * POST the file; resolves with the queued job or throws with the server's error message
+ */
+export async function startUpload(file: File, sessionId: string, chunking?: ChunkingSettings): Promise<UploadJob> {
+  const formData = new FormData();
+  formData.append('file', file);
+  for (const [name, value] of Object.entries(chunkingFields(chunking))) {
+    formData.append(name, value);
+  }
+
+  const response = await fetch('/api/upload', {
+    method: 'POST',
+    headers: {
+      'x-session-id': sessionId,
+    },
+    body: formData,
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Unknown error');
+  }
+
+  return { id: data.jobId, filename: data.filename, status: data.status, percent: 0 };
+}
+
+/**
+ * Fetch a web page into the K-Base; resolves with the queued job (named after
+ * the page's host and path) or throws with the server's error message
+ */
+export async function startUrlUpload(url: string, sessionId: string, chunking?: ChunkingSettings): Promise<UploadJob> {
+  const response = await fetch('/api/kb/url', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-session-id': sessionId,
+    },
+    body: JSON.stringify({ url, ...chunkingFields(chunking) }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Unknown error');
+  }
+
+  return { id: data.jobId, filename: data.filename, status: data.status, percent: 0 };
+}
+
+/**
+ * Poll a job until it finishes, reporting every update
+ */
+export async function pollUploadJob(
+  jobId: string,
+  sessionId: string,
+  onUpdate: (job: UploadJob) => void
+): Promise<UploadJob> {
+  while (true) {
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+
+    const response = await fetch(`/api/upload/${jobId}`, {
+      headers: {
+        'x-session-id': sessionId,
+      },
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Unknown error');
+    }
+
+    const job = data as UploadJob;
+    onUpdate(job);
+    if (isJobFinished(job)) {
+      return job;
+    }
+  }
+}
+
+export async function cancelUploadJob(jobId: string, sessionId: string): Promise<void> {
+  await fetch(`/api/upload/${jobId}`, {
+    method: 'DELETE',
+    headers: {
+      'x-session-id': sessionId,
+    },
+  });
+}
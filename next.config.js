@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    // Native modules (incl. onnxruntime) / runtime font, WASM and worker files - load from node_modules instead of bundling
+    serverComponentsExternalPackages: ['better-sqlite3', 'pdfkit', 'sharp', 'tesseract.js', '@huggingface/transformers'],
+  },
+}
 
 module.exports = nextConfig
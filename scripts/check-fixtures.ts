@@ -0,0 +1,283 @@
+/**
+ * Fixture-driven checks for the parsers and text helpers. Each suite reads
+ * its cases from fixtures/checks/:
+ *
+ *   pii          redactPII on text with and without PII
+ *   amounts      parseAmount on statement cells
+ *   statements   parseStatement on CSV / OFX files and PDF statement text
+ *   citations    parseCitation and verifyCitations
+ *   chunking     every chunking strategy on the chunking fixture document
+ *
+ * Usage:
+ *   npm test [-- --only pii,amounts,statements,citations,chunking] [--verbose]
+ *
+ * Everything runs offline; the semantic strategy embeds with
+ * EMBEDDING_PROVIDER=local unless another provider is configured.
+ * Exits with status 1 when any check fails.
+ */
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { redactPII, type PIIEntityType } from '../lib/guards/pii-redactor';
+import { parseAmount, parsePdfStatementText, parseStatement } from '../lib/statements/parsers';
+import type { ParsedStatement } from '../lib/statements/types';
+import { parseCitation, type Citation, type CitedSource } from '../lib/citations';
+import { verifyCitations, type GroundingStatus } from '../lib/citation-verifier';
+import { chunkText } from '../lib/kb/chunker';
+import { getChunkingStrategy, loadTokenizer, resolveChunkOptions, type ChunkingStrategyName } from '../lib/kb/chunking';
+import { splitSentences } from '../lib/kb/chunking/sentence';
+import type { ChunkingQuestion } from '../lib/kb/chunking/compare';
+
+const FIXTURES_DIR = 'fixtures/checks';
+const SUITES = ['pii', 'amounts', 'statements', 'citations', 'chunking'] as const;
+
+type Suite = typeof SUITES[number];
+
+interface PIICase {
+  name: string;
+  text: string;
+  types?: PIIEntityType[];
+  expected: string;
+}
+
+interface ExpectedStatement {
+  format: ParsedStatement['format'];
+  currency?: string;
+  account?: string;
+  transactions: Array<{ date: string; description: string; amount: number }>;
+}
+
+interface StatementCase {
+  file: string;
+  fileType: string; // A statement file type, or pdf-text for text already extracted from a PDF
+  expected: ExpectedStatement;
+}
+
+interface CitationFixtures {
+  parse: Array<{ inner: string; expected: CitedSource[] }>;
+  citations: Citation[]; // Tool results for the verify cases that bring none of their own
+  verify: Array<{
+    name: string;
+    text: string;
+    citations?: Citation[];
+    status: GroundingStatus;
+    fabricated?: string[];
+    paraphrases?: string[]; // Sources of the uncited paraphrases
+  }>;
+}
+
+interface ChunkingFixtures {
+  document: string;
+  questions: string;
+  cases: Array<{ strategy: ChunkingStrategyName; maxTokens: number; overlap: number }>;
+}
+
+interface CheckResult {
+  suite: Suite;
+  name: string;
+  failure?: string;
+}
+
+const results: CheckResult[] = [];
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = true;
+    }
+  }
+  return args;
+}
+
+async function readFixture<T>(name: string): Promise<T> {
+  return JSON.parse(await fs.readFile(join(FIXTURES_DIR, name), 'utf-8'));
+}
+
+// Deep equality over JSON values; an undefined property equals a missing one
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => sameValue(value, b[i]));
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(left), ...Object.keys(right)]));
+  return keys.every(key => sameValue(left[key], right[key]));
+}
+
+function check(suite: Suite, name: string, failure?: string) {
+  results.push({ suite, name, ...(failure ? { failure } : {}) });
+}
+
+function expectEqual(suite: Suite, name: string, actual: unknown, expected: unknown) {
+  check(suite, name, sameValue(actual, expected)
+    ? undefined
+    : `expected ${JSON.stringify(expected)}\n         got ${JSON.stringify(actual)}`);
+}
+
+async function checkPII() {
+  for (const testCase of await readFixture<PIICase[]>('pii.json')) {
+    expectEqual('pii', testCase.name, redactPII(testCase.text, testCase.types).text, testCase.expected);
+  }
+}
+
+async function checkAmounts() {
+  for (const [input, expected] of await readFixture<Array<[string, number | null]>>('amounts.json')) {
+    expectEqual('amounts', JSON.stringify(input), parseAmount(input), expected);
+  }
+}
+
+async function checkStatements() {
+  for (const testCase of await readFixture<StatementCase[]>('statements.json')) {
+    const buffer = await fs.readFile(join(FIXTURES_DIR, testCase.file));
+    let parsed: ParsedStatement;
+    try {
+      parsed = testCase.fileType === 'pdf-text'
+        ? parsePdfStatementText(buffer.toString('utf-8'))
+        : await parseStatement(buffer, testCase.fileType);
+    } catch (error) {
+      check('statements', testCase.file, `threw ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    expectEqual('statements', testCase.file, {
+      format: parsed.format,
+      currency: parsed.currency,
+      account: parsed.account,
+      transactions: parsed.transactions.map(t => ({ date: t.date, description: t.description, amount: t.amount })),
+    }, testCase.expected);
+  }
+}
+
+async function checkCitations() {
+  const fixtures = await readFixture<CitationFixtures>('citations.json');
+
+  for (const testCase of fixtures.parse) {
+    expectEqual('citations', `parse ${testCase.inner}`, parseCitation(testCase.inner), testCase.expected);
+  }
+
+  for (const testCase of fixtures.verify) {
+    const report = verifyCitations(testCase.text, testCase.citations ?? fixtures.citations);
+    expectEqual('citations', `verify ${testCase.name}`, {
+      status: report.status,
+      fabricated: report.fabricatedSources,
+      paraphrases: report.uncitedParaphrases.map(p => p.source),
+    }, {
+      status: testCase.status,
+      fabricated: testCase.fabricated ?? [],
+      paraphrases: testCase.paraphrases ?? [],
+    });
+  }
+}
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Invariants every strategy must keep when chunking the fixture document as
+ * ingestion does (flat): no empty chunks, chunks within the token limit (a
+ * single oversized sentence may stay whole), the same chunks on every run,
+ * and every answer of the questions file inside one chunk
+ */
+async function checkChunking() {
+  const fixtures = await readFixture<ChunkingFixtures>('chunking.json');
+  const text = await fs.readFile(fixtures.document, 'utf-8');
+  const questions: ChunkingQuestion[] = JSON.parse(await fs.readFile(fixtures.questions, 'utf-8'));
+  const answers = questions.flatMap(q => (Array.isArray(q.expected) ? q.expected : [q.expected]).map(normalise));
+
+  const tokenizer = await loadTokenizer();
+  try {
+    for (const testCase of fixtures.cases) {
+      const strategy = getChunkingStrategy(testCase.strategy);
+      const options = resolveChunkOptions({ maxTokens: testCase.maxTokens, overlap: testCase.overlap });
+      const name = `${strategy.name} ${options.maxTokens}/${options.overlap}`;
+
+      let chunks: string[];
+      try {
+        chunks = await chunkText(text, options, strategy);
+      } catch (error) {
+        check('chunking', name, `threw ${error instanceof Error ? error.message : error}`);
+        continue;
+      }
+
+      const empty = chunks.filter(chunk => !chunk.trim()).length;
+      check('chunking', `${name}: no empty chunks`, chunks.length === 0
+        ? 'no chunks'
+        : empty > 0 ? `${empty} of ${chunks.length} chunks are empty` : undefined);
+
+      const oversized = chunks
+        .map(chunk => ({ chunk, tokens: tokenizer.count(chunk) }))
+        .filter(({ chunk, tokens }) => tokens > options.maxTokens && splitSentences(chunk).length > 1);
+      check('chunking', `${name}: chunks within ${options.maxTokens} tokens`, oversized.length > 0
+        ? oversized.map(({ chunk, tokens }) => `${tokens} tokens: ${chunk.slice(0, 80)}…`).join('\n         ')
+        : undefined);
+
+      const again = await chunkText(text, options, strategy);
+      check('chunking', `${name}: deterministic`, sameValue(again, chunks)
+        ? undefined
+        : `second run gave ${again.length} chunks, first ${chunks.length}`);
+
+      const normalisedChunks = chunks.map(normalise);
+      const split = answers.filter(answer => !normalisedChunks.some(chunk => chunk.includes(answer)));
+      check('chunking', `${name}: answers kept in one chunk`, split.length > 0
+        ? split.map(answer => `split: ${answer}`).join('\n         ')
+        : undefined);
+    }
+  } finally {
+    tokenizer.free();
+  }
+}
+
+const RUNNERS: Record<Suite, () => Promise<void>> = {
+  pii: checkPII,
+  amounts: checkAmounts,
+  statements: checkStatements,
+  citations: checkCitations,
+  chunking: checkChunking,
+};
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const only = typeof args.only === 'string'
+    ? args.only.split(',').map(s => s.trim()).filter(Boolean)
+    : [...SUITES];
+  const unknown = only.filter(name => !(SUITES as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown check suite: ${unknown.join(', ')} (available: ${SUITES.join(', ')})`);
+  }
+
+  process.env.EMBEDDING_PROVIDER = process.env.EMBEDDING_PROVIDER || 'local';
+
+  for (const suite of SUITES.filter(name => only.includes(name))) {
+    await RUNNERS[suite]();
+    const suiteResults = results.filter(r => r.suite === suite);
+    const failed = suiteResults.filter(r => r.failure);
+    console.log(`${suite}: ${suiteResults.length - failed.length}/${suiteResults.length} passed`);
+    for (const result of suiteResults) {
+      if (result.failure) {
+        console.log(`  FAIL ${result.name}\n         ${result.failure}`);
+      } else if (args.verbose === true) {
+        console.log(`  ok   ${result.name}`);
+      }
+    }
+  }
+
+  const failures = results.filter(r => r.failure).length;
+  console.log(failures === 0 ? 'All checks passed' : `${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error(`Fixture checks failed to run: ${error instanceof Error ? error.message : error}`);
+  process.exit(2);
+});
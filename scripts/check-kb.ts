@@ -0,0 +1,47 @@
+/**
+ * Report duplicate and orphaned points in the active KB collection.
+ *
+ * Usage:
+ *   npm run kb:check [-- --json]
+ *
+ * Exits with status 1 when any problem is found.
+ */
+import { checkConsistency } from '../lib/kb/consistency';
+
+async function main() {
+  const report = await checkConsistency();
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+    process.exit(report.ok ? 0 : 1);
+  }
+
+  console.log(`Collection ${report.collection}: ${report.totalPoints} points`);
+
+  for (const dup of report.duplicates.sameContent) {
+    console.log(`  duplicate content   ${dup.sessionId} / ${dup.filename}: ${dup.pointIds.length} points (${dup.pointIds.join(', ')})`);
+  }
+  for (const dup of report.duplicates.multipleCurrentVersions) {
+    console.log(`  multiple versions   ${dup.sessionId} / ${dup.filename}: versions ${dup.versions.join(', ')} all visible`);
+  }
+  if (report.orphans.missingFields.length > 0) {
+    console.log(`  missing fields      ${report.orphans.missingFields.length} points (${report.orphans.missingFields.join(', ')})`);
+  }
+  for (const orphan of report.orphans.noCurrentVersion) {
+    console.log(`  no current version  ${orphan.sessionId} / ${orphan.filename}`);
+  }
+  for (const orphan of report.orphans.unpublishedVersions) {
+    console.log(`  unpublished version ${orphan.sessionId} / ${orphan.filename} v${orphan.version}: ${orphan.pointIds.length} points`);
+  }
+  if (report.nonDeterministicIds > 0) {
+    console.log(`  ${report.nonDeterministicIds} points use pre-deterministic ids (informational)`);
+  }
+
+  console.log(report.ok ? 'No problems found' : 'Problems found');
+  process.exit(report.ok ? 0 : 1);
+}
+
+main().catch(error => {
+  console.error(`Consistency check failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(2);
+});
@@ -0,0 +1,100 @@
+/**
+ * Run a document through each chunking strategy and compare the results.
+ *
+ * Usage:
+ *   npm run kb:compare-chunking -- <document> <questions.json>
+ *                                  [--strategies sentence,fixed,recursive,semantic]
+ *                                  [--max-tokens 600] [--overlap 100] [--top-k 3] [--sections] [--json]
+ *
+ * questions.json: [{ "question": "...", "expected": "answer text" | ["...", "..."] }].
+ * The document is chunked as one flat text by default; --sections chunks within
+ * its heading sections like ingestion does, where sections shorter than the
+ * window come out the same under every strategy.
+ * Embeddings come from EMBEDDING_PROVIDER (EMBEDDING_PROVIDER=local runs offline).
+ */
+import { promises as fs } from 'fs';
+import { extname } from 'path';
+import { extractDocument } from '../lib/kb/text-extractor';
+import { getConfiguredEmbeddingProvider } from '../lib/kb/embeddings';
+import { isChunkingStrategyName, parseChunkingSettings, resolveChunkOptions, type ChunkingStrategyName } from '../lib/kb/chunking';
+import { compareChunkingStrategies, type ChunkingQuestion } from '../lib/kb/chunking/compare';
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = true;
+    }
+  }
+  return { args, positional };
+}
+
+function pad(value: string | number, width: number): string {
+  return String(value).padStart(width);
+}
+
+async function main() {
+  const { args, positional } = parseArgs(process.argv.slice(2));
+  const [documentPath, questionsPath] = positional;
+
+  if (!documentPath || !questionsPath) {
+    console.error('Usage: npm run kb:compare-chunking -- <document> <questions.json> [--strategies a,b] [--max-tokens N] [--overlap N] [--top-k N] [--sections] [--json]');
+    process.exit(1);
+  }
+
+  const strategies = typeof args.strategies === 'string'
+    ? args.strategies.split(',').map(s => s.trim()).filter(Boolean)
+    : undefined;
+  const unknown = strategies?.filter(s => !isChunkingStrategyName(s)) ?? [];
+  if (unknown.length > 0) {
+    console.error(`Unknown strategies: ${unknown.join(', ')}`);
+    process.exit(1);
+  }
+
+  const options = resolveChunkOptions(parseChunkingSettings({ maxTokens: args['max-tokens'], overlap: args.overlap }));
+  const questions: ChunkingQuestion[] = JSON.parse(await fs.readFile(questionsPath, 'utf-8'));
+  const extracted = await extractDocument(await fs.readFile(documentPath), extname(documentPath).slice(1).toLowerCase());
+
+  const comparison = await compareChunkingStrategies({
+    text: extracted.text,
+    headings: extracted.headings,
+    questions,
+    provider: getConfiguredEmbeddingProvider(),
+    options,
+    strategies: strategies as ChunkingStrategyName[] | undefined,
+    mode: args.sections === true ? 'sections' : 'flat',
+    topK: typeof args['top-k'] === 'string' ? parseInt(args['top-k'], 10) : undefined,
+  });
+
+  if (args.json === true) {
+    console.log(JSON.stringify(comparison, null, 2));
+    return;
+  }
+
+  console.log(`${documentPath}: ${questions.length} questions, ${comparison.embeddingModel}, ${comparison.mode} chunking, ${options.maxTokens} tokens / ${options.overlap} overlap, top ${comparison.topK}`);
+  console.log(`  ${'strategy'.padEnd(10)} ${pad('chunks', 6)} ${pad('min', 5)} ${pad('p50', 5)} ${pad('p90', 5)} ${pad('max', 5)} ${pad('hit@k', 6)} ${pad('MRR', 5)} ${pad('ms', 6)}`);
+  for (const report of comparison.strategies) {
+    console.log(`  ${report.strategy.padEnd(10)} ${pad(report.chunkCount, 6)} ${pad(report.tokens.min, 5)} ${pad(report.tokens.p50, 5)} ${pad(report.tokens.p90, 5)} ${pad(report.tokens.max, 5)} ${pad(`${Math.round(report.hitRate * 100)}%`, 6)} ${pad(report.mrr.toFixed(2), 5)} ${pad(report.chunkingTime, 6)}`);
+  }
+  for (const report of comparison.strategies) {
+    for (const miss of report.misses) {
+      console.log(`  miss ${report.strategy}: ${miss}`);
+    }
+  }
+}
+
+main().catch(error => {
+  console.error(`Chunking comparison failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(2);
+});
@@ -0,0 +1,195 @@
+/**
+ * Offline retrieval evaluation: index a labelled fixture corpus into a
+ * throwaway local store, run its questions through hybridSearch under several
+ * configurations and compare recall@k, MRR and nDCG with the stored baseline.
+ *
+ * Usage:
+ *   npm run kb:eval -- [suite.json] [--configs vector,keyword,hybrid,...] [--top-k 5]
+ *                      [--strategy sentence] [--max-tokens 600] [--overlap 100]
+ *                      [--baseline path] [--save-baseline] [--fail-on-regression]
+ *                      [--report path] [--verbose]
+ *
+ * The suite defaults to fixtures/retrieval/suite.json and its baseline to
+ * <suite>.baseline.json next to it. Embeddings default to EMBEDDING_PROVIDER=local
+ * so runs are reproducible offline; configs that call hosted rerankers
+ * (cohere, llm) only run when named in --configs. The cross-encoder config is
+ * reported as not run, with the reason, when its model cannot be loaded (it is
+ * read from CROSS_ENCODER_MODEL_PATH; see docs/SETUP.md to pre-seed it).
+ *
+ * Exits with status 1 with --fail-on-regression when a metric drops more than
+ * 0.01 below the baseline.
+ */
+import { promises as fs } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, dirname, join } from 'path';
+import { parseChunkingSettings } from '../lib/kb/chunking';
+import {
+  compareToBaseline,
+  findRegressions,
+  getEvalConfigs,
+  loadEvalSuite,
+  mergeBaseline,
+  runRetrievalEval,
+  toBaseline,
+  type BaselineComparison,
+  type EvalBaseline,
+  type EvalReport,
+} from '../lib/kb/evaluation';
+
+const DEFAULT_SUITE = 'fixtures/retrieval/suite.json';
+const EVAL_SESSION_ID = 'retrieval-eval';
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = true;
+    }
+  }
+  return { args, positional };
+}
+
+function pad(value: string | number, width: number): string {
+  return String(value).padStart(width);
+}
+
+function withDelta(value: number, delta: number | undefined): string {
+  const base = value.toFixed(3);
+  if (delta === undefined || Math.abs(delta) < 0.0005) return base;
+  return `${base} ${delta > 0 ? '+' : ''}${delta.toFixed(3)}`;
+}
+
+async function readBaseline(path: string): Promise<EvalBaseline | null> {
+  try {
+    return JSON.parse(await fs.readFile(path, 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+function printReport(report: EvalReport, comparison: BaselineComparison | null, verbose: boolean) {
+  const { chunking } = report;
+  console.log(`${report.suite}: ${report.configs[0]?.questions.length ?? 0} questions over ${report.corpus.documents} documents (${report.corpus.chunks} chunks)`);
+  console.log(`  ${report.embeddingModel}, ${chunking.strategy} chunking (${chunking.mode}, ${chunking.maxTokens} tokens / ${chunking.overlap} overlap), top ${report.topK}`);
+  for (const label of report.corpus.unreachableLabels) {
+    console.log(`  unreachable label ${label}`);
+  }
+  if (comparison) {
+    console.log(`  compared with baseline from ${comparison.baselineCreatedAt}`);
+    for (const warning of comparison.warnings) {
+      console.log(`  warning: ${warning}`);
+    }
+  }
+
+  const cutoffHeaders = report.cutoffs.map(k => pad(`R@${k}`, 13)).join(' ');
+  console.log('');
+  console.log(`  ${'config'.padEnd(16)} ${cutoffHeaders} ${pad('MRR', 13)} ${pad(`nDCG@${report.topK}`, 13)} ${pad('dup', 5)} ${pad('fb', 3)} ${pad('ms', 6)}`);
+  for (const config of report.configs) {
+    const diff = comparison?.configs.find(c => c.config === config.config);
+    const { metrics } = config;
+    const recall = report.cutoffs.map(k => pad(withDelta(metrics.recall[k], diff?.metrics?.recall[k]), 13)).join(' ');
+    console.log(`  ${config.config.padEnd(16)} ${recall} ${pad(withDelta(metrics.mrr, diff?.metrics?.mrr), 13)} ${pad(withDelta(metrics.ndcg, diff?.metrics?.ndcg), 13)} ${pad(`${Math.round(metrics.duplicateRate * 100)}%`, 5)} ${pad(metrics.fallbacks, 3)} ${pad(metrics.meanLatencyMs, 6)}`);
+  }
+  for (const { config, reason } of report.skipped) {
+    console.log(`  ${config.padEnd(16)} NOT RUN: ${reason}`);
+  }
+  if (report.skipped.length > 0) {
+    console.log('');
+    console.log(`  Comparison incomplete: ${report.skipped.map(s => s.config).join(', ')} did not run, so ${report.skipped.length === 1 ? 'it is' : 'they are'} missing from this report and from any saved baseline.`);
+  }
+
+  if (comparison) {
+    for (const diff of comparison.configs) {
+      if (!diff.inBaseline) {
+        console.log(`  ${diff.config}: not in baseline`);
+        continue;
+      }
+      for (const change of diff.changes) {
+        const rank = (r: number | null) => r === null ? '-' : String(r);
+        console.log(`  ${diff.config}: ${change.change.padEnd(9)} ${change.id}  rank ${rank(change.before.firstRelevantRank)} → ${rank(change.after.firstRelevantRank)}, nDCG ${change.before.ndcg.toFixed(2)} → ${change.after.ndcg.toFixed(2)}`);
+      }
+      if (diff.newQuestions.length > 0) {
+        console.log(`  ${diff.config}: not in baseline: ${diff.newQuestions.join(', ')}`);
+      }
+    }
+  }
+
+  if (verbose) {
+    for (const config of report.configs) {
+      for (const q of config.questions.filter(q => q.firstRelevantRank === null)) {
+        const returned = q.ranking.map(r => `${r.source}${r.section ? ` — ${r.section}` : ''}`).join('; ');
+        console.log(`  miss ${config.config}: ${q.id} (${q.question}) got: ${returned || 'nothing'}`);
+      }
+    }
+  }
+}
+
+async function main() {
+  const { args, positional } = parseArgs(process.argv.slice(2));
+  const suitePath = positional[0] || DEFAULT_SUITE;
+  const baselinePath = typeof args.baseline === 'string'
+    ? args.baseline
+    : join(dirname(suitePath), `${basename(suitePath, '.json')}.baseline.json`);
+
+  const suite = await loadEvalSuite(suitePath);
+  const configs = getEvalConfigs(typeof args.configs === 'string'
+    ? args.configs.split(',').map(s => s.trim()).filter(Boolean)
+    : undefined);
+  const chunking = parseChunkingSettings({ strategy: args.strategy, maxTokens: args['max-tokens'], overlap: args.overlap });
+  const topK = typeof args['top-k'] === 'string' ? parseInt(args['top-k'], 10) : 5;
+
+  // Index into a throwaway local store; never touch the configured KB
+  const storeDir = await mkdtemp(join(tmpdir(), 'kb-eval-'));
+  process.env.VECTOR_STORE = 'local';
+  process.env.LOCAL_VECTOR_STORE_DIR = storeDir;
+  process.env.EMBEDDING_PROVIDER = process.env.EMBEDDING_PROVIDER || 'local';
+
+  let report: EvalReport;
+  try {
+    report = await runRetrievalEval({ suite, sessionId: EVAL_SESSION_ID, configs, chunking, topK });
+  } finally {
+    await rm(storeDir, { recursive: true, force: true });
+  }
+
+  if (typeof args.report === 'string') {
+    await fs.writeFile(args.report, JSON.stringify(report, null, 2) + '\n');
+  }
+
+  const baseline = await readBaseline(baselinePath);
+  const comparison = baseline ? compareToBaseline(report, baseline) : null;
+  printReport(report, comparison, args.verbose === true);
+
+  if (args['save-baseline'] === true) {
+    await fs.writeFile(baselinePath, JSON.stringify(mergeBaseline(baseline, toBaseline(report)), null, 2) + '\n');
+    console.log(`Saved baseline to ${baselinePath}`);
+    return;
+  }
+  if (!baseline) {
+    console.log(`No baseline at ${baselinePath}; run with --save-baseline to create one`);
+    return;
+  }
+
+  const regressions = findRegressions(comparison!);
+  if (regressions.length > 0) {
+    console.log(`Regressions against baseline: ${regressions.join('; ')}`);
+    if (args['fail-on-regression'] === true) process.exit(1);
+  }
+}
+
+main().catch(error => {
+  console.error(`Retrieval evaluation failed: ${error instanceof Error ? error.message : error}`);
+  process.exit(2);
+});
@@ -0,0 +1,69 @@
+/**
+ * Re-embed the active KB collection with a new embedding model.
+ *
+ * Usage:
+ *   npm run kb:migrate -- --provider mistral [--model mistral-embed] [--dimensions 1024]
+ *                         [--batch-size 64] [--restart] [--no-activate]
+ *
+ * Safe to re-run after a crash: progress resumes from the last checkpoint.
+ */
+import { getEmbeddingProvider, getEmbeddingModelId } from '../lib/kb/embeddings';
+import { migrateEmbeddings } from '../lib/kb/migration';
+import { KBError } from '../lib/kb/error-handler';
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next && !next.startsWith('--')) {
+      args[key] = next;
+      i++;
+    } else {
+      args[key] = true;
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (typeof args.provider !== 'string') {
+    console.error('Missing --provider (openai | mistral | local)');
+    process.exit(1);
+  }
+
+  const target = getEmbeddingProvider(
+    args.provider,
+    typeof args.model === 'string' ? args.model : undefined,
+    typeof args.dimensions === 'string' ? parseInt(args.dimensions, 10) : undefined
+  );
+
+  console.log(`Migrating KB to ${getEmbeddingModelId(target)}...`);
+
+  const result = await migrateEmbeddings(target, {
+    batchSize: typeof args['batch-size'] === 'string' ? parseInt(args['batch-size'], 10) : undefined,
+    restart: args.restart === true,
+    activate: args['no-activate'] !== true,
+    onProgress: ({ migrated, total, percent }) => {
+      process.stdout.write(`\r  ${migrated}/${total} points (${percent}%)`);
+    },
+  });
+
+  process.stdout.write('\n');
+  console.log(`${result.resumed ? 'Resumed and migrated' : 'Migrated'} ${result.migrated} points: ${result.sourceCollection} → ${result.targetCollection}`);
+  console.log(result.activated
+    ? `Active collection is now ${result.targetCollection}`
+    : 'Active collection unchanged (see logs)');
+}
+
+main().catch(error => {
+  console.error(`\nMigration failed: ${error instanceof Error ? error.message : error}`);
+  if (!(error instanceof KBError) || error.recoverable) {
+    console.error('Re-run the same command to resume from the last checkpoint.');
+  }
+  process.exit(1);
+});
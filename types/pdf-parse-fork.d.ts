@@ -25,7 +25,13 @@ declare module 'pdf-parse-fork' {
     version: string;
   }
 
-  function pdfParse(dataBuffer: Buffer): Promise<PDFData>;
+  interface PDFOptions {
+    pagerender?: (pageData: any) => Promise<string>;
+    max?: number;
+    version?: string;
+  }
+
+  function pdfParse(dataBuffer: Buffer, options?: PDFOptions): Promise<PDFData>;
 
   export default pdfParse;
 }